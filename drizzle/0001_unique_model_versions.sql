@@ -0,0 +1,8 @@
+-- Concurrent saves could snapshot the same version twice (from the same
+-- row, so the copies match); keep one of each before making them unique
+DELETE FROM "model_versions" a
+  USING "model_versions" b
+  WHERE a."model_id" = b."model_id"
+    AND a."version" = b."version"
+    AND a."id" > b."id";--> statement-breakpoint
+CREATE UNIQUE INDEX "model_versions_model_id_version_idx" ON "model_versions" USING btree ("model_id","version");
@@ -1,7 +1,17 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // HTML exports inline Flocc's browser build, read from disk at request time
+  outputFileTracingIncludes: {
+    '/api/export/[id]': ['./node_modules/flocc/dist/flocc.js'],
+  },
+  // Profile pictures from the sign-in providers (GitHub, Google)
+  images: {
+    remotePatterns: [
+      { protocol: 'https', hostname: 'avatars.githubusercontent.com' },
+      { protocol: 'https', hostname: 'lh3.googleusercontent.com' },
+    ],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,57 @@
+/**
+ * Move Thumbnails Out of Model Definitions
+ *
+ * Models saved before thumbnails moved to file storage keep a JPEG data URL
+ * in their definition. The owner's next save moves it (PUT
+ * /api/models/[id]); this moves every model's at once, so galleries show
+ * them and list queries stop carrying the images, then strips them from
+ * the version history too. Safe to run again.
+ *
+ *   npm run thumbnails:migrate
+ */
+
+import { sql } from 'drizzle-orm';
+import { db } from '@/lib/db/client';
+import { models, modelVersions } from '@/lib/db/schema';
+import { moveDefinitionThumbnail } from '@/lib/thumbnails';
+
+async function main() {
+  const rows = await db
+    .select({ id: models.id, thumbnailUrl: models.thumbnailUrl, definition: models.definition })
+    .from(models)
+    .where(sql`${models.definition} ? 'thumbnailUrl'`);
+
+  let moved = 0;
+  let failed = 0;
+  for (const row of rows) {
+    try {
+      const hadThumbnail = !!row.thumbnailUrl;
+      const url = await moveDefinitionThumbnail(row);
+      if (url && !hadThumbnail) moved++;
+
+      // Only once the image is safe in storage
+      await db
+        .update(models)
+        .set({ definition: sql`${models.definition} - 'thumbnailUrl'` })
+        .where(sql`${models.id} = ${row.id}`);
+    } catch (error) {
+      // Left in place for the next run
+      failed++;
+      console.error(`Failed to move thumbnail of model ${row.id}:`, error);
+    }
+  }
+
+  // Old versions never show a thumbnail; the images can just go
+  await db
+    .update(modelVersions)
+    .set({ definition: sql`${modelVersions.definition} - 'thumbnailUrl'` })
+    .where(sql`${modelVersions.definition} ? 'thumbnailUrl'`);
+
+  console.log(`Moved ${moved} thumbnails to storage (${rows.length} models checked, ${failed} failed)`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error('Failed to migrate thumbnails:', error);
+  process.exit(1);
+});
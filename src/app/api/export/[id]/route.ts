@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { auth } from '@/lib/auth';
+import { getVisibleModel } from '@/lib/db/queries';
+import { generateModelCode, getExportFileName } from '@/lib/flocc/codegen';
+import { generateModelHtml } from '@/lib/flocc/htmlExport';
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+// Flocc's UMD build, inlined into HTML exports (read once per server instance)
+let floccSource: Promise<string> | null = null;
+
+function loadFloccSource(): Promise<string> {
+  floccSource ??= readFile(
+    path.join(process.cwd(), 'node_modules', 'flocc', 'dist', 'flocc.js'),
+    'utf8'
+  ).catch((error) => {
+    // Retry on the next request instead of caching the failure
+    floccSource = null;
+    throw error;
+  });
+  return floccSource;
+}
+
+/**
+ * GET /api/export/[id]
+ * Download a model as a standalone Flocc ES module,
+ * or with ?format=html as a self-contained page that runs offline
+ */
+export async function GET(request: NextRequest, { params }: Props) {
+  const { id } = await params;
+  const format = request.nextUrl.searchParams.get('format') ?? 'js';
+
+  if (format !== 'js' && format !== 'html') {
+    return NextResponse.json({ error: 'Unsupported format' }, { status: 400 });
+  }
+
+  try {
+    const session = await auth();
+    const model = await getVisibleModel(id, session?.user?.id);
+
+    if (!model) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const body = format === 'html'
+      ? generateModelHtml(model, await loadFloccSource())
+      : generateModelCode(model);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'html'
+          ? 'text/html; charset=utf-8'
+          : 'text/javascript; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${getExportFileName(model, format)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export model:', error);
+    return NextResponse.json({ error: 'Failed to export model' }, { status: 500 });
+  }
+}
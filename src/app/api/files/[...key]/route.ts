@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorage } from '@/lib/storage';
+
+interface Props {
+  params: Promise<{ key: string[] }>;
+}
+
+/**
+ * GET /api/files/[...key]
+ * Serve a file from local storage. Keys are never reused, so files can be
+ * cached for good. Other storages serve their own URLs.
+ */
+export async function GET(request: NextRequest, { params }: Props) {
+  const { key } = await params;
+
+  try {
+    const file = await getStorage().read?.(key.join('/'));
+    if (!file) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return new NextResponse(Buffer.from(file.data), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to read file:', error);
+    return NextResponse.json({ error: 'Failed to read file' }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { db } from '@/lib/db/client';
+import { models } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { getVisibleModel, syncTags } from '@/lib/db/queries';
+import { saveDataUrlThumbnail } from '@/lib/thumbnails';
+import { normalizeTags } from '@/lib/model/tags';
+import { migrateModel } from '@/lib/model/migrations';
+import { readModelPayload, validateModel } from '@/lib/model/validation';
+import { eq, sql } from 'drizzle-orm';
+import type { StudioModel } from '@/types';
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/models/[id]/fork
+ * Copy a model the caller can see into their account. With no body the
+ * copy is the model as it is; a body saves a changed copy instead (a
+ * scratch fork made while signed out), keeping the link to the source.
+ */
+export async function POST(request: NextRequest, { params }: Props) {
+  const { id } = await params;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const source = await getVisibleModel(id, session.user.id);
+    if (!source) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    let base: StudioModel = source;
+    let thumbnail: string | undefined;
+    if (request.body) {
+      const payload = await readModelPayload(request);
+      if (!payload.ok) {
+        return NextResponse.json({ error: payload.error }, { status: payload.status });
+      }
+      base = migrateModel(payload.data);
+      thumbnail = payload.thumbnail;
+      const fields = validateModel(base);
+      if (fields.length > 0) {
+        return NextResponse.json({ error: 'Invalid model', fields }, { status: 400 });
+      }
+    }
+
+    const forkId = nanoid();
+    const now = new Date();
+
+    const definition: StudioModel = {
+      ...base,
+      id: forkId,
+      slug: undefined,
+      // Saving the fork in the editor gives it a thumbnail of its own
+      thumbnailUrl: undefined,
+      tags: normalizeTags(base.tags ?? []),
+      userId: session.user.id,
+      forkOf: source.id,
+      isPublic: false,
+      isFeatured: false,
+      forkCount: 0,
+      viewCount: 0,
+      version: 1,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    // One batch, so the count can't drift from the forks that exist
+    await db.batch([
+      db.insert(models).values({
+        id: forkId,
+        userId: session.user.id,
+        name: definition.name,
+        description: definition.description,
+        definition,
+        isPublic: false,
+        isFeatured: false,
+        forkOf: source.id,
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      }),
+      db
+        .update(models)
+        .set({ forkCount: sql`coalesce(${models.forkCount}, 0) + 1` })
+        .where(eq(models.id, source.id)),
+      ...syncTags(forkId, definition.tags),
+    ]);
+
+    const thumbnailUrl = thumbnail ? await saveDataUrlThumbnail(forkId, thumbnail) : null;
+
+    return NextResponse.json(
+      { ...definition, thumbnailUrl: thumbnailUrl ?? undefined },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Failed to fork model:', error);
+    return NextResponse.json({ error: 'Failed to fork model' }, { status: 500 });
+  }
+}
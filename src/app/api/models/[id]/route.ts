@@ -2,7 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { models } from '@/lib/db/schema';
 import { auth } from '@/lib/auth';
-import { eq, and, or } from 'drizzle-orm';
+import { getVisibleModel, snapshotVersion, syncTags, atVersion, isUniqueViolation } from '@/lib/db/queries';
+import { deleteThumbnail, moveDefinitionThumbnail, saveDataUrlThumbnail } from '@/lib/thumbnails';
+import { normalizeTags } from '@/lib/model/tags';
+import { migrateModel } from '@/lib/model/migrations';
+import { readModelPayload, validateModel } from '@/lib/model/validation';
+import { eq } from 'drizzle-orm';
 import type { StudioModel } from '@/types';
 
 interface Props {
@@ -18,35 +23,12 @@ export async function GET(request: NextRequest, { params }: Props) {
 
   try {
     const session = await auth();
-    const currentUserId = session?.user?.id;
-
-    // Query model - must be public OR owned by current user
-    const conditions = [eq(models.id, id)];
-    if (currentUserId) {
-      conditions.push(or(eq(models.isPublic, true), eq(models.userId, currentUserId))!);
-    } else {
-      conditions.push(eq(models.isPublic, true));
-    }
+    const model = await getVisibleModel(id, session?.user?.id);
 
-    const result = await db
-      .select()
-      .from(models)
-      .where(and(...conditions))
-      .limit(1);
-
-    if (!result.length) {
+    if (!model) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
 
-    const row = result[0];
-    const model: StudioModel = {
-      ...row.definition,
-      id: row.id,
-      userId: row.userId ?? undefined,
-      isPublic: row.isPublic ?? false,
-      isFeatured: row.isFeatured ?? false,
-    };
-
     return NextResponse.json(model);
   } catch (error) {
     console.error('Failed to get model:', error);
@@ -82,36 +64,83 @@ export async function PUT(request: NextRequest, { params }: Props) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    const body: Partial<StudioModel> = await request.json();
+    const payload = await readModelPayload(request);
+    if (!payload.ok) {
+      return NextResponse.json({ error: payload.error }, { status: payload.status });
+    }
+
+    const body: Partial<StudioModel> = payload.data;
     const now = new Date();
 
-    // Update the model
-    await db
+    // Saves always store the current format, whatever the stored row or
+    // the client sent was in
+    const definition = migrateModel({
+      ...migrateModel(existing[0].definition),
+      ...body,
+      id,
+      userId: session.user.id,
+      updatedAt: now.toISOString(),
+    });
+
+    // Updates can be partial, so check the model they produce
+    const fields = validateModel(definition);
+    if (fields.length > 0) {
+      return NextResponse.json({ error: 'Invalid model', fields }, { status: 400 });
+    }
+
+    definition.tags = normalizeTags(definition.tags ?? []);
+
+    // Publishing or unpublishing doesn't change the model, so it doesn't
+    // make a new version
+    const contentChanged = Object.keys(body).some((key) => key !== 'isPublic');
+    const version = (existing[0].version ?? 1) + (contentChanged ? 1 : 0);
+
+    const update = db
       .update(models)
       .set({
         name: body.name ?? existing[0].name,
         description: body.description,
-        definition: {
-          ...existing[0].definition,
-          ...body,
-          id,
-          userId: session.user.id,
-          updatedAt: now.toISOString(),
-        },
+        definition,
         isPublic: body.isPublic ?? existing[0].isPublic,
-        version: (existing[0].version ?? 1) + 1,
+        version,
         updatedAt: now,
       })
-      .where(eq(models.id, id));
+      .where(atVersion(existing[0]))
+      .returning({ id: models.id });
+
+    // Keep the version being replaced in the history. A save racing this
+    // one from the same version fails here, on the snapshot or the update.
+    let updated: { id: string }[];
+    try {
+      updated = contentChanged
+        ? (await db.batch([snapshotVersion(existing[0]), update, ...syncTags(id, definition.tags)]))[1]
+        : await update;
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      updated = [];
+    }
+
+    if (!updated.length) {
+      return NextResponse.json(
+        { error: 'This model was changed elsewhere. Reload to get the latest version.' },
+        { status: 409 }
+      );
+    }
+
+    // Without a new thumbnail, one an older definition kept inline moves to
+    // storage, since the upgraded definition just saved dropped it
+    const thumbnailUrl = payload.thumbnail
+      ? await saveDataUrlThumbnail(id, payload.thumbnail, existing[0].thumbnailUrl)
+      : await moveDefinitionThumbnail(existing[0]).catch((error) => {
+          console.error('Failed to move thumbnail:', error);
+          return null;
+        });
 
     // Return updated model
     const updatedModel: StudioModel = {
-      ...existing[0].definition,
-      ...body,
-      id,
-      userId: session.user.id,
-      updatedAt: now.toISOString(),
-      version: (existing[0].version ?? 1) + 1,
+      ...definition,
+      thumbnailUrl: thumbnailUrl ?? existing[0].thumbnailUrl ?? undefined,
+      version,
     };
 
     return NextResponse.json(updatedModel);
@@ -151,6 +180,7 @@ export async function DELETE(request: NextRequest, { params }: Props) {
 
     // Delete
     await db.delete(models).where(eq(models.id, id));
+    if (existing[0].thumbnailUrl) await deleteThumbnail(existing[0].thumbnailUrl);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { models, modelVersions } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { snapshotVersion, syncTags, atVersion, isUniqueViolation } from '@/lib/db/queries';
+import { normalizeTags } from '@/lib/model/tags';
+import { migrateModel } from '@/lib/model/migrations';
+import { and, eq } from 'drizzle-orm';
+import type { StudioModel } from '@/types';
+
+interface Props {
+  params: Promise<{ id: string; version: string }>;
+}
+
+/**
+ * POST /api/models/[id]/versions/[version]/restore
+ * Make an earlier version current again. The restore is saved as a new
+ * version, so the version it replaces stays in the history too.
+ */
+export async function POST(request: NextRequest, { params }: Props) {
+  const { id, version: versionParam } = await params;
+  const version = Number(versionParam);
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check ownership
+    const existing = await db
+      .select()
+      .from(models)
+      .where(eq(models.id, id))
+      .limit(1);
+
+    if (!existing.length) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (existing[0].userId !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const snapshot = Number.isInteger(version)
+      ? await db
+          .select({ definition: modelVersions.definition })
+          .from(modelVersions)
+          .where(and(eq(modelVersions.modelId, id), eq(modelVersions.version, version)))
+          .limit(1)
+      : [];
+
+    if (!snapshot.length) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const now = new Date();
+    const nextVersion = (existing[0].version ?? 1) + 1;
+
+    // Old definitions aren't re-validated: they were accepted when saved,
+    // and getting work back matters more than today's limits. Visibility
+    // isn't part of the history, so it stays as it is.
+    const definition = migrateModel({
+      ...migrateModel(snapshot[0].definition),
+      id,
+      userId: session.user.id,
+      isPublic: existing[0].isPublic ?? false,
+      updatedAt: now.toISOString(),
+    });
+    definition.tags = normalizeTags(definition.tags ?? []);
+
+    // Conditional on the version read above, as in PUT /api/models/[id]
+    let updated: { id: string }[];
+    try {
+      [, updated] = await db.batch([
+        snapshotVersion(existing[0]),
+        db
+          .update(models)
+          .set({
+            name: definition.name,
+            description: definition.description,
+            definition,
+            version: nextVersion,
+            updatedAt: now,
+          })
+          .where(atVersion(existing[0]))
+          .returning({ id: models.id }),
+        ...syncTags(id, definition.tags),
+      ]);
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      updated = [];
+    }
+
+    if (!updated.length) {
+      return NextResponse.json(
+        { error: 'This model was changed elsewhere. Reload to get the latest version.' },
+        { status: 409 }
+      );
+    }
+
+    const restoredModel: StudioModel = {
+      ...definition,
+      version: nextVersion,
+    };
+
+    return NextResponse.json(restoredModel);
+  } catch (error) {
+    console.error('Failed to restore version:', error);
+    return NextResponse.json({ error: 'Failed to restore version' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { models, modelVersions } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { migrateModel } from '@/lib/model/migrations';
+import { and, eq } from 'drizzle-orm';
+import type { StudioModel } from '@/types';
+
+interface Props {
+  params: Promise<{ id: string; version: string }>;
+}
+
+/**
+ * GET /api/models/[id]/versions/[version]
+ * Get one version of a model, in the current format. Owner only.
+ */
+export async function GET(request: NextRequest, { params }: Props) {
+  const { id, version: versionParam } = await params;
+  const version = Number(versionParam);
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await db
+      .select()
+      .from(models)
+      .where(eq(models.id, id))
+      .limit(1);
+
+    if (!existing.length) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (existing[0].userId !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!Number.isInteger(version)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    let definition: StudioModel;
+    if (version === (existing[0].version ?? 1)) {
+      definition = existing[0].definition;
+    } else {
+      const snapshot = await db
+        .select({ definition: modelVersions.definition })
+        .from(modelVersions)
+        .where(and(eq(modelVersions.modelId, id), eq(modelVersions.version, version)))
+        .limit(1);
+
+      if (!snapshot.length) {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+      }
+      definition = snapshot[0].definition;
+    }
+
+    const model: StudioModel = {
+      ...migrateModel(definition),
+      id,
+      version,
+    };
+
+    return NextResponse.json(model);
+  } catch (error) {
+    console.error('Failed to get version:', error);
+    return NextResponse.json({ error: 'Failed to get version' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { models, modelVersions } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq, desc } from 'drizzle-orm';
+import type { ModelVersionInfo } from '@/types';
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/models/[id]/versions
+ * List a model's versions, newest (the current one) first. Owner only.
+ */
+export async function GET(request: NextRequest, { params }: Props) {
+  const { id } = await params;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await db
+      .select({ userId: models.userId, version: models.version, updatedAt: models.updatedAt })
+      .from(models)
+      .where(eq(models.id, id))
+      .limit(1);
+
+    if (!existing.length) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (existing[0].userId !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const history = await db
+      .select({ version: modelVersions.version, createdAt: modelVersions.createdAt })
+      .from(modelVersions)
+      .where(eq(modelVersions.modelId, id))
+      .orderBy(desc(modelVersions.version));
+
+    const versions: ModelVersionInfo[] = [
+      {
+        version: existing[0].version ?? 1,
+        savedAt: existing[0].updatedAt?.toISOString(),
+        current: true,
+      },
+      ...history.map((row) => ({
+        version: row.version,
+        savedAt: row.createdAt?.toISOString(),
+        current: false,
+      })),
+    ];
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Failed to list versions:', error);
+    return NextResponse.json({ error: 'Failed to list versions' }, { status: 500 });
+  }
+}
@@ -1,14 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { nanoid } from 'nanoid';
 import { db } from '@/lib/db/client';
-import { models } from '@/lib/db/schema';
+import { models, tags, modelTags } from '@/lib/db/schema';
 import { auth } from '@/lib/auth';
-import { eq, desc, or, and, ilike, sql } from 'drizzle-orm';
+import { syncTags } from '@/lib/db/queries';
+import { saveDataUrlThumbnail } from '@/lib/thumbnails';
+import { normalizeTags } from '@/lib/model/tags';
+import { migrateModel } from '@/lib/model/migrations';
+import { readModelPayload, validateModel } from '@/lib/model/validation';
+import { eq, desc, or, and, ilike, inArray, sql } from 'drizzle-orm';
 import type { StudioModel } from '@/types';
 
 /**
  * GET /api/models
- * List models with optional filters
+ * List models with optional filters. `tag` may be repeated or
+ * comma-separated; `tagMatch=any` finds models with any of the tags instead
+ * of all of them.
  */
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
@@ -17,6 +24,9 @@ export async function GET(request: NextRequest) {
   const userId = searchParams.get('userId');
   const featured = searchParams.get('featured') === 'true';
   const search = searchParams.get('search');
+  const forkOf = searchParams.get('forkOf');
+  const tagNames = normalizeTags(searchParams.getAll('tag').flatMap((t) => t.split(',')));
+  const matchAny = searchParams.get('tagMatch') === 'any';
 
   try {
     const session = await auth();
@@ -42,6 +52,27 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(models.isFeatured, true));
     }
 
+    // Forks of a model
+    if (forkOf) {
+      conditions.push(eq(models.forkOf, forkOf));
+    }
+
+    // Filter by tags
+    if (tagNames.length > 0) {
+      const tagged = db
+        .select({ modelId: modelTags.modelId })
+        .from(modelTags)
+        .innerJoin(tags, eq(tags.id, modelTags.tagId))
+        .where(inArray(tags.name, tagNames))
+        .groupBy(modelTags.modelId);
+      conditions.push(
+        inArray(
+          models.id,
+          matchAny ? tagged : tagged.having(sql`count(*) = ${tagNames.length}`)
+        )
+      );
+    }
+
     // Search by name
     if (search) {
       conditions.push(ilike(models.name, `%${search}%`));
@@ -64,13 +95,17 @@ export async function GET(request: NextRequest) {
       .where(and(...conditions));
     const total = Number(countResult[0]?.count ?? 0);
 
-    // Map to StudioModel format
+    // Map to StudioModel format (upgraded in memory; rows are written
+    // back when the model itself is opened)
     const modelList = results.map((row) => ({
-      ...row.definition,
+      ...migrateModel(row.definition),
       id: row.id,
       userId: row.userId,
       isPublic: row.isPublic ?? false,
       isFeatured: row.isFeatured ?? false,
+      thumbnailUrl: row.thumbnailUrl ?? undefined,
+      forkOf: row.forkOf ?? undefined,
+      forkCount: row.forkCount ?? 0,
     }));
 
     return NextResponse.json({
@@ -96,13 +131,24 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const body: StudioModel = await request.json();
+    const payload = await readModelPayload(request);
+    if (!payload.ok) {
+      return NextResponse.json({ error: payload.error }, { status: payload.status });
+    }
+
+    // Clients on an older version of the app may send an older format
+    const body = migrateModel(payload.data);
+    const fields = validateModel(body);
+    if (fields.length > 0) {
+      return NextResponse.json({ error: 'Invalid model', fields }, { status: 400 });
+    }
+    body.tags = normalizeTags(body.tags ?? []);
     
     const id = nanoid();
     const now = new Date();
 
     // Create the model record
-    await db.insert(models).values({
+    const insert = db.insert(models).values({
       id,
       userId: session.user.id,
       name: body.name,
@@ -120,6 +166,11 @@ export async function POST(request: NextRequest) {
       createdAt: now,
       updatedAt: now,
     });
+    await db.batch([insert, ...syncTags(id, body.tags)]);
+
+    const thumbnailUrl = payload.thumbnail
+      ? await saveDataUrlThumbnail(id, payload.thumbnail)
+      : null;
 
     // Return the created model
     const createdModel: StudioModel = {
@@ -128,6 +179,7 @@ export async function POST(request: NextRequest) {
       userId: session.user.id,
       createdAt: now.toISOString(),
       updatedAt: now.toISOString(),
+      thumbnailUrl: thumbnailUrl ?? undefined,
       version: 1,
     };
 
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { MODEL_JSON_SCHEMA } from '@/lib/model/schema';
+
+/**
+ * GET /api/schema
+ * JSON Schema for model definitions, for tools that generate models
+ */
+export async function GET() {
+  return NextResponse.json(MODEL_JSON_SCHEMA, {
+    headers: { 'Content-Type': 'application/schema+json' },
+  });
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { models, tags, modelTags } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { normalizeTag } from '@/lib/model/tags';
+import { eq, desc, asc, or, and, like, sql } from 'drizzle-orm';
+import type { TagCount } from '@/types';
+
+/**
+ * GET /api/tags
+ * Tags in use, with how many models the caller can see have each, most
+ * used first. `q` keeps tags starting with it (for autocomplete).
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const prefix = normalizeTag(searchParams.get('q') ?? '');
+  const limit = Math.min(Math.max(1, Number(searchParams.get('limit') ?? '30')), 100);
+
+  try {
+    const session = await auth();
+    const currentUserId = session?.user?.id;
+
+    // Same visibility as the model list: public models OR user's own models
+    const conditions = [
+      currentUserId
+        ? or(eq(models.isPublic, true), eq(models.userId, currentUserId))
+        : eq(models.isPublic, true),
+    ];
+    if (prefix) {
+      conditions.push(like(tags.name, `${prefix}%`));
+    }
+
+    const count = sql<number>`count(*)`;
+    const results = await db
+      .select({ name: tags.name, count })
+      .from(tags)
+      .innerJoin(modelTags, eq(modelTags.tagId, tags.id))
+      .innerJoin(models, eq(models.id, modelTags.modelId))
+      .where(and(...conditions))
+      .groupBy(tags.name)
+      .orderBy(desc(count), asc(tags.name))
+      .limit(limit);
+
+    const tagCounts: TagCount[] = results.map((row) => ({
+      name: row.name,
+      count: Number(row.count),
+    }));
+
+    return NextResponse.json({ tags: tagCounts });
+  } catch (error) {
+    console.error('Failed to list tags:', error);
+    return NextResponse.json({ error: 'Failed to list tags' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { models } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { saveThumbnail, MAX_THUMBNAIL_BYTES, THUMBNAIL_TYPES } from '@/lib/thumbnails';
+import { eq } from 'drizzle-orm';
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/thumbnail/[id]
+ * Replace a model's thumbnail. The body is the image itself (JPEG, PNG or
+ * WebP), with a matching Content-Type.
+ */
+export async function POST(request: NextRequest, { params }: Props) {
+  const { id } = await params;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check ownership
+    const existing = await db
+      .select({ userId: models.userId, thumbnailUrl: models.thumbnailUrl })
+      .from(models)
+      .where(eq(models.id, id))
+      .limit(1);
+
+    if (!existing.length) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (existing[0].userId !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const contentType = request.headers.get('content-type')?.split(';')[0].trim() ?? '';
+    if (!THUMBNAIL_TYPES[contentType]) {
+      return NextResponse.json(
+        { error: `Unsupported image type (use ${Object.keys(THUMBNAIL_TYPES).join(', ')})` },
+        { status: 415 }
+      );
+    }
+
+    const data = new Uint8Array(await request.arrayBuffer());
+    if (data.byteLength === 0) {
+      return NextResponse.json({ error: 'Empty image' }, { status: 400 });
+    }
+    if (data.byteLength > MAX_THUMBNAIL_BYTES) {
+      return NextResponse.json(
+        { error: `Thumbnail is too large (limit ${MAX_THUMBNAIL_BYTES / 1000} kB)` },
+        { status: 413 }
+      );
+    }
+
+    const thumbnailUrl = await saveThumbnail(id, { data, contentType }, existing[0].thumbnailUrl);
+
+    return NextResponse.json({ thumbnailUrl });
+  } catch (error) {
+    console.error('Failed to save thumbnail:', error);
+    return NextResponse.json({ error: 'Failed to save thumbnail' }, { status: 500 });
+  }
+}
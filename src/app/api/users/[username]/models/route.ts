@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserProfile, listPublicModelsByUser } from '@/lib/db/queries';
+
+interface Props {
+  params: Promise<{ username: string }>;
+}
+
+/**
+ * GET /api/users/[username]/models
+ * List a user's public models (paginated)
+ */
+export async function GET(request: NextRequest, { params }: Props) {
+  const { username } = await params;
+  const searchParams = request.nextUrl.searchParams;
+  const page = Math.max(1, Number(searchParams.get('page') ?? '1'));
+  const limit = Math.min(Math.max(1, Number(searchParams.get('limit') ?? '20')), 100);
+
+  try {
+    const profile = await getUserProfile(username);
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const { models, total } = await listPublicModelsByUser(profile.id, page, limit);
+
+    return NextResponse.json({
+      models,
+      total,
+      page,
+      limit,
+    });
+  } catch (error) {
+    console.error('Failed to list user models:', error);
+    return NextResponse.json({ error: 'Failed to list user models' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserProfile } from '@/lib/db/queries';
+
+interface Props {
+  params: Promise<{ username: string }>;
+}
+
+/**
+ * GET /api/users/[username]
+ * Get a user's public profile
+ */
+export async function GET(request: NextRequest, { params }: Props) {
+  const { username } = await params;
+
+  try {
+    const profile = await getUserProfile(username);
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error('Failed to get user:', error);
+    return NextResponse.json({ error: 'Failed to get user' }, { status: 500 });
+  }
+}
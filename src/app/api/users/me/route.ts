@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { users } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { validateUsername } from '@/lib/username';
+import { isUniqueViolation } from '@/lib/db/queries';
+import { and, eq, isNull } from 'drizzle-orm';
+
+/**
+ * PUT /api/users/me
+ * Claim a username for the signed-in user. A username is claimed once;
+ * profile links would break if it changed.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const username = typeof body?.username === 'string' ? body.username.trim().toLowerCase() : '';
+
+    const problem = validateUsername(username);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const taken = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.username, username))
+      .limit(1);
+
+    if (taken.length && taken[0].id !== session.user.id) {
+      return NextResponse.json({ error: 'That username is taken' }, { status: 409 });
+    }
+
+    let claimed;
+    try {
+      claimed = await db
+        .update(users)
+        .set({ username })
+        .where(and(eq(users.id, session.user.id), isNull(users.username)))
+        .returning({ username: users.username });
+    } catch (error) {
+      // Someone claimed it since the check above (unique violation)
+      if (isUniqueViolation(error)) {
+        return NextResponse.json({ error: 'That username is taken' }, { status: 409 });
+      }
+      throw error;
+    }
+
+    if (!claimed.length) {
+      return NextResponse.json({ error: 'You already have a username' }, { status: 409 });
+    }
+
+    return NextResponse.json({ username });
+  } catch (error) {
+    console.error('Failed to claim username:', error);
+    return NextResponse.json({ error: 'Failed to claim username' }, { status: 500 });
+  }
+}
@@ -0,0 +1,164 @@
+'use client';
+
+/**
+ * Choose Username Page
+ *
+ * Shown once, after the first sign-in: the username names the profile
+ * page at /user/[username] and can't be changed later.
+ */
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { claimUsername, isUsernameTaken } from '@/lib/api/users';
+import { validateUsername, suggestUsername, USERNAME_MAX_LENGTH } from '@/lib/username';
+
+type Availability = 'checking' | 'available' | 'taken' | 'unknown';
+
+function UsernameContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const callbackUrl = localPath(searchParams.get('callbackUrl'));
+  const { data: session, status, update } = useSession();
+
+  const [username, setUsername] = useState<string | null>(null);
+  const [availability, setAvailability] = useState<Availability>('unknown');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Until edited, the field shows a suggestion from the account's name
+  const value = username ?? suggestUsername(session?.user?.name, session?.user?.email);
+  const problem = value ? validateUsername(value) : null;
+
+  // Nothing to do when signed out or already named
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.replace(`/auth/signin?callbackUrl=${encodeURIComponent(callbackUrl)}`);
+    } else if (session?.user?.username) {
+      router.replace(callbackUrl);
+    }
+  }, [status, session, callbackUrl, router]);
+
+  // Check availability after a short pause
+  useEffect(() => {
+    if (!value || problem) return;
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setAvailability('checking');
+      const taken = await isUsernameTaken(value);
+      if (!cancelled) setAvailability(taken === null ? 'unknown' : taken ? 'taken' : 'available');
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [value, problem]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!value || problem) return;
+
+    setIsSaving(true);
+    setError(null);
+    const result = await claimUsername(value);
+
+    if (result.success) {
+      // Reload the session so it carries the username; the effect above
+      // then continues to callbackUrl
+      await update();
+    } else {
+      setIsSaving(false);
+      setError(result.error ?? 'Failed to claim username');
+    }
+  };
+
+  const hint = !value
+    ? null
+    : problem
+    ? { text: problem, className: 'text-red-400' }
+    : availability === 'taken'
+    ? { text: 'That username is taken', className: 'text-red-400' }
+    : availability === 'available'
+    ? { text: 'Available', className: 'text-green-400' }
+    : availability === 'checking'
+    ? { text: 'Checking…', className: 'text-gray-500' }
+    : null;
+
+  return (
+    <>
+      <div className="text-center mb-8">
+        <Link href="/" className="text-3xl font-bold">
+          Flocc Studio
+        </Link>
+        <p className="text-gray-400 mt-2">
+          Choose a username for your profile page
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 text-red-400 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-gray-900 rounded-xl p-6 space-y-4">
+        <div>
+          <div className="flex items-center bg-gray-800 border border-gray-700 rounded-lg focus-within:border-blue-500">
+            <span className="pl-4 text-gray-500">@</span>
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => {
+                setUsername(e.target.value.toLowerCase());
+                setAvailability('unknown');
+              }}
+              maxLength={USERNAME_MAX_LENGTH}
+              autoFocus
+              className="flex-1 bg-transparent px-2 py-3 text-white focus:outline-none"
+            />
+          </div>
+          {hint && <p className={`text-sm mt-2 ${hint.className}`}>{hint.text}</p>}
+        </div>
+
+        <button
+          type="submit"
+          disabled={!value || !!problem || availability === 'taken' || isSaving || status !== 'authenticated'}
+          className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed px-4 py-3 rounded-lg font-medium transition"
+        >
+          {isSaving ? 'Saving…' : 'Continue'}
+        </button>
+      </form>
+
+      <p className="text-center text-gray-500 text-sm mt-6">
+        Usernames can&apos;t be changed later.
+      </p>
+    </>
+  );
+}
+
+/**
+ * The callback URL if it's a path on this site, else the home page, so the
+ * page can't be used to send a newly signed-in user elsewhere
+ */
+function localPath(url: string | null): string {
+  if (!url || !url.startsWith('/') || url.startsWith('//') || url.startsWith('/\\')) return '/';
+  // Browsers drop tabs and newlines in URLs, so '/\t/host' would still leave;
+  // resolving it settles what it points at
+  const base = 'http://localhost';
+  const resolved = new URL(url, base);
+  if (resolved.origin !== base) return '/';
+  return resolved.pathname + resolved.search + resolved.hash;
+}
+
+export default function ChooseUsernamePage() {
+  return (
+    <div className="min-h-screen bg-gray-950 text-white flex items-center justify-center">
+      <div className="max-w-md w-full mx-4">
+        <Suspense fallback={<div className="text-center">Loading...</div>}>
+          <UsernameContent />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
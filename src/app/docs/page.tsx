@@ -60,8 +60,16 @@ export default function DocsPage() {
             <li><strong>Name</strong> — A label for the agent type</li>
             <li><strong>Appearance</strong> — Color, shape, and size</li>
             <li><strong>Properties</strong> — Custom data each agent carries</li>
+            <li><strong>Steering</strong> — Max speed, max turning force and drag; movement and flocking behaviors steer the agent smoothly within these limits instead of jumping it around, which keeps flocks stable</li>
             <li><strong>Behaviors</strong> — Rules that govern agent actions</li>
           </ul>
+          <p>
+            Each property also chooses what children made by the Reproduce behavior get:
+            a fresh value, a copy of the parent&apos;s, a copy with random mutation (so traits
+            like speed drift over generations), or half of the parent&apos;s value, with the
+            parent keeping the other half. Children also record their <code>parentId</code>{' '}
+            and <code>generation</code> number; expressions can use <code>generation</code>.
+          </p>
 
           <h2>Behaviors</h2>
           <p>
@@ -72,9 +80,25 @@ export default function DocsPage() {
             <li><strong>Random Walk</strong> — Move in a random direction</li>
             <li><strong>Move Toward</strong> — Move toward a target</li>
             <li><strong>Move Away</strong> — Flee from a target</li>
-            <li><strong>If Nearby</strong> — Conditional behavior based on proximity</li>
-            <li><strong>On Collision</strong> — React when touching another agent</li>
+            <li><strong>If / Else</strong> — Run nested behaviors when a property, nearby count, linked count, parameter or random chance meets a condition</li>
+            <li><strong>On Collision</strong> — React when touching another agent: remove it, take some of a property from it (a wolf gaining a sheep&apos;s energy), copy one of its properties, or set one</li>
+            <li><strong>Change Type</strong> — Turn into another agent type, e.g. susceptible → infected → recovered</li>
+            <li><strong>Read / Consume / Deposit Patch</strong> — Sense, eat or enrich the patch under the agent (set up patches in the Patches section)</li>
+            <li><strong>Emit Signal / Follow Gradient</strong> — Leave a spreading, fading trail (like an ant pheromone) and steer toward where it is strongest</li>
+            <li><strong>Connect / Disconnect / Adopt From Links</strong> — Build and break links between agents and copy values (like opinions) from linked agents; set up the starting network in the Network section</li>
           </ul>
+          <p>
+            Renaming a parameter or property updates every behavior, initial value and chart
+            series that uses it, so expressions like <code>$speed * energy</code> keep working.
+            Each one shows what uses it, and deleting one that&apos;s in use asks first. Custom
+            code isn&apos;t rewritten, so update <code>params.name</code> there yourself.
+          </p>
+          <p>
+            The <strong>Problems</strong> section lists anything that can&apos;t work, such as a
+            behavior aimed at a deleted agent type or an expression using a renamed parameter,
+            and settings left empty. Affected agent types and behaviors are marked, and many
+            problems have a one-click fix. The simulation won&apos;t start while there are errors.
+          </p>
 
           <h2>Sharing Models</h2>
           <p>
@@ -83,9 +107,16 @@ export default function DocsPage() {
           <ul>
             <li>Save it to your account</li>
             <li>Make it public for others to view and fork</li>
+            <li>Tag it (ecology, epidemiology, economics, ...) in the settings menu so people can find it by topic on Explore</li>
+            <li>Fork someone else&apos;s model to build on it; the copy links back to the original. You can fork without an account: the copy is kept in your browser until you sign in and save it.</li>
             <li>Embed it on other websites</li>
             <li>Export as standalone code</li>
           </ul>
+          <p>
+            Every save keeps the version before it. Open the <strong>History</strong> section
+            in the editor to see earlier versions, preview one in the canvas, or restore it.
+            Restoring saves it as a new version, so the version you had is kept too.
+          </p>
 
           <h2>Learn More</h2>
           <p>
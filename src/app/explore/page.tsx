@@ -3,7 +3,8 @@
 /**
  * Explore Page
  *
- * Browsable gallery of public models with search and pagination.
+ * Browsable gallery of public models with search, tag filters and
+ * pagination.
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react';
@@ -11,9 +12,10 @@ import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Suspense } from 'react';
 import { listModels } from '@/lib/api/models';
+import { listTags } from '@/lib/api/tags';
 import { ModelCard } from '@/components/models/ModelCard';
 import { AuthButtons } from '@/components/auth/AuthButtons';
-import type { StudioModel } from '@/types';
+import type { StudioModel, TagCount } from '@/types';
 
 const PAGE_SIZE = 12;
 
@@ -25,39 +27,70 @@ function ExploreContent() {
 
   const initialSearch = searchParams.get('q') ?? '';
   const initialPage = Math.max(1, Number(searchParams.get('page') ?? '1'));
+  const initialTags = searchParams.getAll('tag').flatMap((t) => t.split(',')).filter(Boolean);
+  const initialMatchAny = searchParams.get('match') === 'any';
 
   const [models, setModels] = useState<StudioModel[]>([]);
   const [total, setTotal] = useState(0);
   const [page, setPage] = useState(initialPage);
   const [search, setSearch] = useState(initialSearch);
   const [inputValue, setInputValue] = useState(initialSearch);
+  const [selectedTags, setSelectedTags] = useState<string[]>(initialTags);
+  const [matchAny, setMatchAny] = useState(initialMatchAny);
+  const [popularTags, setPopularTags] = useState<TagCount[]>([]);
   const [loading, setLoading] = useState(true);
 
   const searchTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
-  // Fetch models when page or search changes
-  const fetchModels = useCallback(async (q: string, p: number) => {
+  // Fetch models when page, search or tags change
+  const fetchModels = useCallback(async (q: string, p: number, t: string[], any: boolean) => {
     setLoading(true);
-    const result = await listModels({ search: q || undefined, page: p, limit: PAGE_SIZE });
+    const result = await listModels({
+      search: q || undefined,
+      tags: t,
+      tagMatch: any ? 'any' : 'all',
+      page: p,
+      limit: PAGE_SIZE,
+    });
     setModels(result.models);
     setTotal(result.total);
     setLoading(false);
   }, []);
 
   useEffect(() => {
-    fetchModels(search, page);
-  }, [search, page, fetchModels]);
+    fetchModels(search, page, selectedTags, matchAny);
+  }, [search, page, selectedTags, matchAny, fetchModels]);
 
-  // Sync URL when search/page change
+  // Tag browser
+  useEffect(() => {
+    listTags({ limit: 30 }).then(setPopularTags);
+  }, []);
+
+  // Sync URL when search/page/tags change
   useEffect(() => {
     const params = new URLSearchParams();
     if (search) params.set('q', search);
+    for (const tag of selectedTags) params.append('tag', tag);
+    if (matchAny && selectedTags.length > 1) params.set('match', 'any');
     if (page > 1) params.set('page', String(page));
     const qs = params.toString();
     router.replace(qs ? `/explore?${qs}` : '/explore', { scroll: false });
-  }, [search, page, router]);
+  }, [search, selectedTags, matchAny, page, router]);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags((current) =>
+      current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]
+    );
+    setPage(1);
+  };
+
+  // Selected tags stay listed even when they aren't among the most used
+  const browserTags = [
+    ...selectedTags.filter((tag) => !popularTags.some((t) => t.name === tag)).map((name) => ({ name, count: null })),
+    ...popularTags,
+  ];
 
   // Debounced search input
   const handleSearchInput = (value: string) => {
@@ -87,9 +120,70 @@ function ExploreContent() {
         />
       </div>
 
+      {/* Tag browser */}
+      {browserTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          {browserTags.map((tag) => {
+            const selected = selectedTags.includes(tag.name);
+            return (
+              <button
+                key={tag.name}
+                onClick={() => toggleTag(tag.name)}
+                className={`text-sm px-2.5 py-1 rounded-full border transition ${
+                  selected
+                    ? 'bg-blue-600 border-blue-500 text-white'
+                    : 'bg-gray-900 border-gray-700 text-gray-300 hover:border-gray-500'
+                }`}
+              >
+                {tag.name}
+                {tag.count !== null && (
+                  <span className={selected ? 'text-blue-200 ml-1.5' : 'text-gray-500 ml-1.5'}>{tag.count}</span>
+                )}
+              </button>
+            );
+          })}
+
+          {selectedTags.length > 1 && (
+            <div className="flex rounded-full border border-gray-700 overflow-hidden text-xs ml-2">
+              {[false, true].map((any) => (
+                <button
+                  key={String(any)}
+                  onClick={() => {
+                    setMatchAny(any);
+                    setPage(1);
+                  }}
+                  className={`px-2.5 py-1 transition ${
+                    matchAny === any ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                  title={any ? 'Models with any of the selected tags' : 'Models with all of the selected tags'}
+                >
+                  {any ? 'Any' : 'All'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {selectedTags.length > 0 && (
+            <button
+              onClick={() => {
+                setSelectedTags([]);
+                setPage(1);
+              }}
+              className="text-sm text-gray-500 hover:text-white ml-1"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Results count */}
       <p className="text-sm text-gray-500 mb-4">
-        {loading ? 'Loading…' : `${total} model${total !== 1 ? 's' : ''}${search ? ` for "${search}"` : ''}`}
+        {loading
+          ? 'Loading…'
+          : `${total} model${total !== 1 ? 's' : ''}${search ? ` for "${search}"` : ''}${
+              selectedTags.length > 0 ? ` tagged ${selectedTags.join(matchAny ? ' or ' : ' and ')}` : ''
+            }`}
       </p>
 
       {/* Grid */}
@@ -107,7 +201,13 @@ function ExploreContent() {
         <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 transition-opacity duration-150 ${loading ? 'opacity-40 pointer-events-none' : ''}`}>
           {(loading ? Array(PAGE_SIZE).fill(null) : models).map((model, i) =>
             model ? (
-              <ModelCard key={model.id} model={model} />
+              <ModelCard
+                key={model.id}
+                model={model}
+                onSelectTag={(tag) => {
+                  if (!selectedTags.includes(tag)) toggleTag(tag);
+                }}
+              />
             ) : (
               // Skeleton card while loading
               <div key={i} className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden animate-pulse">
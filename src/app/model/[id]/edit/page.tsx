@@ -4,6 +4,7 @@ import { useEffect, useState, useRef, use } from 'react';
 import { useRouter } from 'next/navigation';
 import { useModelStore } from '@/stores/model';
 import { loadModel } from '@/lib/api/models';
+import { loadScratch } from '@/lib/model/scratch';
 import { EditorLayout } from '@/components/editor/EditorLayout';
 
 interface Props {
@@ -45,9 +46,15 @@ export default function ModelEditPage({ params }: Props) {
         }
         setLoading(false);
       } else {
-        // Create a new model only if we don't have one
+        // Create a new model only if we don't have one, picking up work
+        // from before signing in
         if (!model) {
-          newModel();
+          const scratch = loadScratch();
+          if (scratch) {
+            setModel(scratch);
+          } else {
+            newModel();
+          }
         }
         loadedIdRef.current = id;
         setLoading(false);
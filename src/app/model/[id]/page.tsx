@@ -12,12 +12,14 @@ import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { useModelStore } from '@/stores/model';
 import { useSimulation } from '@/lib/flocc/useSimulation';
-import { loadModel } from '@/lib/api/models';
+import { loadModel, listModels } from '@/lib/api/models';
 import { Canvas } from '@/components/simulation/Canvas';
 import { Controls } from '@/components/simulation/Controls';
 import { RuntimeParameters } from '@/components/simulation/RuntimeParameters';
 import { LineChartList } from '@/components/simulation/LineChartDisplay';
 import { AuthButtons } from '@/components/auth/AuthButtons';
+import { ForkButton } from '@/components/models/ForkButton';
+import { ModelCard } from '@/components/models/ModelCard';
 import type { StudioModel } from '@/types';
 
 interface Props {
@@ -35,6 +37,11 @@ export default function ModelViewPage({ params }: Props) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [modelData, setModelData] = useState<StudioModel | null>(null);
+
+  // Lineage: the model this was forked from (null if it can't be seen) and
+  // forks of this one
+  const [parent, setParent] = useState<StudioModel | null>(null);
+  const [forks, setForks] = useState<{ models: StudioModel[]; total: number }>({ models: [], total: 0 });
   
   const loadedIdRef = useRef<string | null>(null);
 
@@ -73,6 +80,25 @@ export default function ModelViewPage({ params }: Props) {
     load();
   }, [id, setModel]);
 
+  // Load lineage once the model is loaded
+  useEffect(() => {
+    if (!modelData) return;
+    let cancelled = false;
+
+    if (modelData.forkOf) {
+      loadModel(modelData.forkOf).then((loaded) => {
+        if (!cancelled) setParent(loaded);
+      });
+    }
+    listModels({ forkOf: modelData.id, limit: 12 }).then((result) => {
+      if (!cancelled) setForks(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [modelData]);
+
   // Initialize simulation when model is loaded
   useEffect(() => {
     if (modelData && !loading) {
@@ -119,6 +145,15 @@ export default function ModelViewPage({ params }: Props) {
             Flocc Studio
           </Link>
           <nav className="flex items-center gap-4">
+            <a
+              href={`/api/export/${id}?format=html`}
+              download
+              title="Single HTML file that runs without a network connection"
+              className="text-sm text-gray-400 hover:text-white transition"
+            >
+              Download for offline use
+            </a>
+            <ForkButton model={modelData} />
             {isOwner && (
               <Link
                 href={`/model/${id}/edit`}
@@ -136,6 +171,18 @@ export default function ModelViewPage({ params }: Props) {
       <div className="border-b border-gray-800 shrink-0">
         <div className="max-w-7xl mx-auto px-4 py-6">
           <h1 className="text-3xl font-bold mb-2">{modelData.name}</h1>
+          {modelData.forkOf && (
+            <p className="text-sm text-gray-500 mb-2">
+              Forked from{' '}
+              {parent ? (
+                <Link href={`/model/${parent.id}`} className="text-blue-400 hover:underline">
+                  {parent.name}
+                </Link>
+              ) : (
+                'a private or deleted model'
+              )}
+            </p>
+          )}
           {modelData.description && (
             <p className="text-gray-400">{modelData.description}</p>
           )}
@@ -168,6 +215,27 @@ export default function ModelViewPage({ params }: Props) {
           </aside>
         )}
       </div>
+
+      {/* Forks */}
+      {forks.total > 0 && (
+        <div className="border-t border-gray-800">
+          <div className="max-w-7xl mx-auto px-4 py-6">
+            <h2 className="text-lg font-semibold mb-4">
+              Forks <span className="text-gray-500 font-normal">({forks.total})</span>
+            </h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {forks.models.map((fork) => (
+                <ModelCard key={fork.id} model={fork} />
+              ))}
+            </div>
+            {forks.total > forks.models.length && (
+              <p className="text-sm text-gray-500 mt-4">
+                And {forks.total - forks.models.length} more
+              </p>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,23 +1,51 @@
+/**
+ * User Profile Page
+ *
+ * Server-rendered profile: who the user is and their public models.
+ */
+
+import { cache } from 'react';
+import Image from 'next/image';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
+import { getUserProfile, listPublicModelsByUser } from '@/lib/db/queries';
+import { ModelCard } from '@/components/models/ModelCard';
+import { AuthButtons } from '@/components/auth/AuthButtons';
+
+const PAGE_SIZE = 12;
+
+// Metadata and page share one lookup per request
+const loadProfile = cache(getUserProfile);
 
 interface Props {
   params: Promise<{ username: string }>;
+  searchParams: Promise<{ page?: string }>;
 }
 
 export async function generateMetadata({ params }: Props) {
   const { username } = await params;
+  const profile = await loadProfile(username);
   return {
-    title: `@${username} | Flocc Studio`,
+    title: profile?.displayName
+      ? `${profile.displayName} (@${profile.username}) | Flocc Studio`
+      : `@${username} | Flocc Studio`,
   };
 }
 
-export default async function UserProfilePage({ params }: Props) {
+export default async function UserProfilePage({ params, searchParams }: Props) {
   const { username } = await params;
-  
-  // TODO: Fetch user and their models from database
-  const user = null;
-  const models: any[] = [];
+  const page = Math.max(1, Number((await searchParams).page ?? '1') || 1);
+
+  const profile = await loadProfile(username);
+  if (!profile) notFound();
+
+  const { models, total } = await listPublicModelsByUser(profile.id, page, PAGE_SIZE);
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const joined = new Date(profile.createdAt).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+  });
 
   return (
     <main className="min-h-screen bg-gray-950 text-white">
@@ -37,6 +65,7 @@ export default async function UserProfilePage({ params }: Props) {
             >
               Create Model
             </Link>
+            <AuthButtons />
           </nav>
         </div>
       </header>
@@ -44,12 +73,33 @@ export default async function UserProfilePage({ params }: Props) {
       <div className="max-w-7xl mx-auto px-4 py-8">
         {/* Profile Header */}
         <div className="flex items-center gap-6 mb-8">
-          <div className="w-24 h-24 rounded-full bg-gray-800 flex items-center justify-center text-4xl">
-            👤
-          </div>
+          {profile.image ? (
+            <Image
+              src={profile.image}
+              alt={profile.displayName ?? profile.username}
+              width={96}
+              height={96}
+              className="w-24 h-24 rounded-full"
+            />
+          ) : (
+            <div className="w-24 h-24 rounded-full bg-blue-600 flex items-center justify-center text-4xl font-medium">
+              {(profile.displayName ?? profile.username)[0].toUpperCase()}
+            </div>
+          )}
           <div>
-            <h1 className="text-3xl font-bold">@{username}</h1>
-            <p className="text-gray-400">Member since 2024</p>
+            {profile.displayName && (
+              <h1 className="text-3xl font-bold">{profile.displayName}</h1>
+            )}
+            <p className={profile.displayName ? 'text-gray-400' : 'text-3xl font-bold'}>
+              @{profile.username}
+            </p>
+            <p className="text-sm text-gray-500 mt-1">
+              Joined {joined}
+              {' · '}
+              {profile.modelCount} public model{profile.modelCount !== 1 ? 's' : ''}
+              {' · '}
+              {profile.forksReceived} fork{profile.forksReceived !== 1 ? 's' : ''} received
+            </p>
           </div>
         </div>
 
@@ -60,15 +110,37 @@ export default async function UserProfilePage({ params }: Props) {
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {models.map((model) => (
+              <ModelCard key={model.id} model={model} />
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-4 mt-10 text-sm">
+            {page > 1 ? (
               <Link
-                key={model.id}
-                href={`/model/${model.id}`}
-                className="bg-gray-800 rounded-lg p-4 hover:bg-gray-750 transition"
+                href={`/user/${profile.username}?page=${page - 1}`}
+                className="px-3 py-2 rounded bg-gray-800 hover:bg-gray-700 transition"
               >
-                <div className="aspect-video bg-gray-700 rounded mb-4" />
-                <h3 className="font-semibold">{model.name}</h3>
+                ← Prev
               </Link>
-            ))}
+            ) : (
+              <span className="px-3 py-2 rounded bg-gray-800 opacity-30">← Prev</span>
+            )}
+            <span className="text-gray-500">
+              Page {Math.min(page, totalPages)} of {totalPages}
+            </span>
+            {page < totalPages ? (
+              <Link
+                href={`/user/${profile.username}?page=${page + 1}`}
+                className="px-3 py-2 rounded bg-gray-800 hover:bg-gray-700 transition"
+              >
+                Next →
+              </Link>
+            ) : (
+              <span className="px-3 py-2 rounded bg-gray-800 opacity-30">Next →</span>
+            )}
           </div>
         )}
       </div>
@@ -31,17 +31,22 @@ export function AuthButtons() {
         >
           Sign Out
         </button>
-        {session.user.image ? (
-          <img
-            src={session.user.image}
-            alt={session.user.name ?? 'User'}
-            className="w-8 h-8 rounded-full"
-          />
-        ) : (
-          <div className="w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center text-sm font-medium">
-            {session.user.name?.[0] ?? session.user.email?.[0] ?? '?'}
-          </div>
-        )}
+        <Link
+          href={session.user.username ? `/user/${session.user.username}` : '/auth/username'}
+          title="Your profile"
+        >
+          {session.user.image ? (
+            <img
+              src={session.user.image}
+              alt={session.user.name ?? 'User'}
+              className="w-8 h-8 rounded-full"
+            />
+          ) : (
+            <div className="w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center text-sm font-medium">
+              {session.user.name?.[0] ?? session.user.email?.[0] ?? '?'}
+            </div>
+          )}
+        </Link>
       </div>
     );
   }
@@ -6,11 +6,17 @@
 
 import { SessionProvider as NextAuthSessionProvider } from 'next-auth/react';
 import { ReactNode } from 'react';
+import { UsernameGate } from './UsernameGate';
 
 interface Props {
   children: ReactNode;
 }
 
 export function SessionProvider({ children }: Props) {
-  return <NextAuthSessionProvider>{children}</NextAuthSessionProvider>;
+  return (
+    <NextAuthSessionProvider>
+      <UsernameGate />
+      {children}
+    </NextAuthSessionProvider>
+  );
 }
@@ -0,0 +1,28 @@
+'use client';
+
+/**
+ * UsernameGate — Sends signed-in users without a username to claim one
+ *
+ * Accounts are created by the OAuth sign-in without a username, so the
+ * first page after it redirects here and comes back afterwards.
+ */
+
+import { useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { usePathname, useRouter } from 'next/navigation';
+
+export function UsernameGate() {
+  const { data: session, status } = useSession();
+  const pathname = usePathname();
+  const router = useRouter();
+
+  const needsUsername = status === 'authenticated' && !session?.user?.username;
+
+  useEffect(() => {
+    if (!needsUsername || pathname.startsWith('/auth')) return;
+    const callbackUrl = pathname + window.location.search;
+    router.replace(`/auth/username?callbackUrl=${encodeURIComponent(callbackUrl)}`);
+  }, [needsUsername, pathname, router]);
+
+  return null;
+}
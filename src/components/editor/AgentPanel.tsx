@@ -11,8 +11,11 @@ import { useState, useRef, useEffect } from 'react';
 import { nanoid } from 'nanoid';
 import { useModelStore } from '@/stores/model';
 import { Accordion } from '@/components/ui/Accordion';
-import type { AgentType, Population } from '@/types';
+import type { AgentType, Population, Position } from '@/types';
 import { useEditStore } from '@/stores/edit';
+import { DEFAULT_CLUSTER_COUNT, DEFAULT_CLUSTER_SPREAD } from '@/lib/flocc/distributions';
+import { DEFAULT_KINEMATICS } from '@/lib/flocc/steering';
+import { lintModel } from '@/lib/flocc/validation';
 
 const COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6', '#ec4899'];
 
@@ -47,6 +50,7 @@ export function AgentPanel({ selectedAgentId, onSelectAgent }: AgentPanelProps)
       size: 10,
       properties: [],
       behaviors: [],
+      kinematics: { ...DEFAULT_KINEMATICS },
     };
     addAgentType(newAgent);
 
@@ -65,6 +69,9 @@ export function AgentPanel({ selectedAgentId, onSelectAgent }: AgentPanelProps)
     setEditingId(id);
   };
 
+  // Problems in each agent type, from the model's diagnostics
+  const diagnostics = lintModel(model);
+
   // Get population for an agent type
   const getPopulation = (agentTypeId: string): Population | undefined => {
     return model.populations.find((p) => p.agentTypeId === agentTypeId);
@@ -95,6 +102,8 @@ export function AgentPanel({ selectedAgentId, onSelectAgent }: AgentPanelProps)
             const pop = getPopulation(agent.id);
             const isSelected = selectedAgentId === agent.id;
             const isEditing = editingId === agent.id;
+            const problems = diagnostics.filter((d) => d.location.agentTypeId === agent.id);
+            const hasErrors = problems.some((d) => d.severity === 'error');
 
             return (
               <div
@@ -128,6 +137,18 @@ export function AgentPanel({ selectedAgentId, onSelectAgent }: AgentPanelProps)
                       </div>
                     </div>
 
+                    {/* Problem count */}
+                    {problems.length > 0 && (
+                      <span
+                        title={problems.map((d) => d.message).join('\n')}
+                        className={`text-xs px-1.5 py-0.5 rounded ${
+                          hasErrors ? 'bg-red-900/60 text-red-300' : 'bg-yellow-900/60 text-yellow-300'
+                        }`}
+                      >
+                        {problems.length}
+                      </span>
+                    )}
+
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -158,6 +179,12 @@ export function AgentPanel({ selectedAgentId, onSelectAgent }: AgentPanelProps)
                           onClick={(e) => e.stopPropagation()}
                         />
                       </label>
+                      <PopulationPlacement
+                        population={pop}
+                        envWidth={model.environment.width}
+                        envHeight={model.environment.height}
+                        onChange={(changes) => updatePopulation(pop.id, changes)}
+                      />
                     </div>
                   )}
                 </div>
@@ -185,6 +212,193 @@ export function AgentPanel({ selectedAgentId, onSelectAgent }: AgentPanelProps)
   );
 }
 
+// ============================================================================
+// PopulationPlacement
+// ============================================================================
+
+interface PopulationPlacementProps {
+  population: Population;
+  envWidth: number;
+  envHeight: number;
+  onChange: (changes: Partial<Population>) => void;
+}
+
+const inputClass =
+  'w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500';
+
+function PopulationPlacement({ population, envWidth, envHeight, onChange }: PopulationPlacementProps) {
+  const { distribution, region, clusters } = population;
+
+  const updateRegion = (changes: Partial<NonNullable<Population['region']>>) => {
+    if (!region) return;
+    onChange({ region: { ...region, ...changes } });
+  };
+
+  const updateClusters = (changes: Partial<NonNullable<Population['clusters']>>) => {
+    onChange({
+      clusters: {
+        count: clusters?.count ?? DEFAULT_CLUSTER_COUNT,
+        spread: clusters?.spread ?? DEFAULT_CLUSTER_SPREAD,
+        centers: clusters?.centers,
+        ...changes,
+      },
+    });
+  };
+
+  return (
+    <div className="mt-3 space-y-3 text-sm" onClick={(e) => e.stopPropagation()}>
+      {/* Distribution mode */}
+      <label className="flex items-center gap-2">
+        <span className="text-gray-400">Placement:</span>
+        <select
+          value={distribution}
+          onChange={(e) => onChange({ distribution: e.target.value as Population['distribution'] })}
+          className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+        >
+          <option value="random">Random</option>
+          <option value="grid">Grid</option>
+          <option value="cluster">Clusters</option>
+          <option value="custom">Custom positions</option>
+        </select>
+      </label>
+
+      {/* Cluster options */}
+      {distribution === 'cluster' && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="block text-xs text-gray-500 mb-1">Clusters</span>
+              <input
+                type="number"
+                value={clusters?.count ?? DEFAULT_CLUSTER_COUNT}
+                onChange={(e) => updateClusters({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                min={1}
+                max={50}
+                disabled={(clusters?.centers?.length ?? 0) > 0}
+                className={`${inputClass} disabled:opacity-50`}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-500 mb-1">Spread (px)</span>
+              <input
+                type="number"
+                value={clusters?.spread ?? DEFAULT_CLUSTER_SPREAD}
+                onChange={(e) => updateClusters({ spread: Math.max(0, parseFloat(e.target.value) || 0) })}
+                min={0}
+                step={5}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <PositionListInput
+            label="Centers (optional)"
+            placeholder={'One "x, y" per line.\nLeave empty for random centers.'}
+            positions={clusters?.centers ?? []}
+            onChange={(centers) => updateClusters({ centers: centers.length > 0 ? centers : undefined })}
+          />
+        </div>
+      )}
+
+      {/* Custom positions */}
+      {distribution === 'custom' && (
+        <PositionListInput
+          label="Positions"
+          placeholder={'One "x, y" per line.\nExtra agents are placed randomly.'}
+          positions={population.positions ?? []}
+          onChange={(positions) => onChange({ positions })}
+        />
+      )}
+
+      {/* Region */}
+      <div>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!region}
+            onChange={(e) =>
+              onChange({
+                region: e.target.checked
+                  ? { x: 0, y: 0, width: Math.round(envWidth / 2), height: Math.round(envHeight / 2) }
+                  : undefined,
+              })
+            }
+            className="w-4 h-4 accent-blue-500"
+          />
+          <span className="text-gray-400">Limit to region</span>
+        </label>
+        {region && (
+          <div className="grid grid-cols-4 gap-2 mt-2">
+            {(['x', 'y', 'width', 'height'] as const).map((key) => (
+              <label key={key} className="block">
+                <span className="block text-xs text-gray-500 mb-1">{key === 'width' ? 'W' : key === 'height' ? 'H' : key.toUpperCase()}</span>
+                <input
+                  type="number"
+                  value={region[key]}
+                  onChange={(e) => updateRegion({ [key]: parseInt(e.target.value) || 0 })}
+                  min={0}
+                  max={key === 'x' || key === 'width' ? envWidth : envHeight}
+                  step={10}
+                  className={`${inputClass} px-1`}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// PositionListInput
+// ============================================================================
+
+interface PositionListInputProps {
+  label: string;
+  placeholder: string;
+  positions: Position[];
+  onChange: (positions: Position[]) => void;
+}
+
+/**
+ * Textarea of "x, y" lines. Parsed on blur so partially typed lines aren't dropped.
+ */
+function PositionListInput({ label, placeholder, positions, onChange }: PositionListInputProps) {
+  const formatted = positions.map((p) => `${p.x}, ${p.y}`).join('\n');
+  const [text, setText] = useState(formatted);
+
+  // Pick up changes made elsewhere (e.g. undo, loading a model)
+  useEffect(() => {
+    setText(formatted);
+  }, [formatted]);
+
+  const commit = () => {
+    const parsed: Position[] = [];
+    for (const line of text.split('\n')) {
+      const [x, y] = line.split(',').map((v) => parseFloat(v.trim()));
+      if (Number.isFinite(x) && Number.isFinite(y)) {
+        parsed.push({ x, y });
+      }
+    }
+    onChange(parsed);
+    setText(parsed.map((p) => `${p.x}, ${p.y}`).join('\n'));
+  };
+
+  return (
+    <label className="block">
+      <span className="block text-xs text-gray-500 mb-1">{label}</span>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        placeholder={placeholder}
+        rows={3}
+        className={`${inputClass} font-mono resize-y`}
+      />
+    </label>
+  );
+}
+
 // ============================================================================
 // ShapeIndicator
 // ============================================================================
@@ -3,27 +3,71 @@
 /**
  * BehaviorBuilder
  * 
- * UI for adding and configuring behaviors on an agent type.
+ * UI for adding and configuring behaviors on an agent type. If/else
+ * behaviors hold nested behavior lists for their branches.
  */
 
+import { useState, useEffect, useMemo } from 'react';
 import { nanoid } from 'nanoid';
 import { useModelStore } from '@/stores/model';
+import { useSimulationStore } from '@/stores/simulation';
 import { 
   BEHAVIOR_LIBRARY, 
   getBehaviorDef, 
   createBehavior,
+  isParamShown,
   ACTION_OPTIONS,
   CONDITION_OPTIONS,
-  type ParamDef,
+  TEST_OPTIONS,
+  ADOPT_MODE_OPTIONS,
+  sharedPropertyMap,
+  type BehaviorDef,
 } from '@/lib/flocc/behaviors';
-import type { AgentType, Behavior, BehaviorType } from '@/types';
+import { checkCustomCodeSyntax } from '@/lib/flocc/customCode';
+import { lintModel } from '@/lib/flocc/validation';
+import type { AgentType, Behavior, BehaviorBranch, BehaviorType, PropertyMap } from '@/types';
 import { ParamInput } from './ParamInput';
+import { SeverityIcon, QuickFixButton, useApplyQuickFix } from './ProblemsPanel';
 
 interface BehaviorBuilderProps {
   agentType: AgentType;
 }
 
 export function BehaviorBuilder({ agentType }: BehaviorBuilderProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-400">Behaviors</h3>
+      </div>
+
+      <BehaviorList behaviors={agentType.behaviors} agentType={agentType} />
+    </div>
+  );
+}
+
+// ============================================================================
+// BehaviorList
+// ============================================================================
+
+const CATEGORIES: { category: BehaviorDef['category']; label: string }[] = [
+  { category: 'movement', label: 'Movement' },
+  { category: 'flocking', label: 'Flocking' },
+  { category: 'events', label: 'Events' },
+  { category: 'lifecycle', label: 'Lifecycle' },
+  { category: 'environment', label: 'Environment' },
+  { category: 'network', label: 'Network' },
+  { category: 'control', label: 'Control' },
+  { category: 'advanced', label: 'Advanced' },
+];
+
+interface BehaviorListProps {
+  behaviors: Behavior[];
+  agentType: AgentType;
+  // Set for the branches of an 'if' behavior
+  parent?: { behaviorId: string; branch: BehaviorBranch };
+}
+
+function BehaviorList({ behaviors, agentType, parent }: BehaviorListProps) {
   const model = useModelStore((s) => s.model);
   const addBehavior = useModelStore((s) => s.addBehavior);
   const updateBehavior = useModelStore((s) => s.updateBehavior);
@@ -31,21 +75,17 @@ export function BehaviorBuilder({ agentType }: BehaviorBuilderProps) {
 
   const handleAddBehavior = (type: BehaviorType) => {
     const behavior = createBehavior(type, nanoid());
-    addBehavior(agentType.id, behavior);
+    addBehavior(agentType.id, behavior, parent);
   };
 
   return (
-    <div className="space-y-3">
-      <div className="flex items-center justify-between">
-        <h3 className="text-sm font-medium text-gray-400">Behaviors</h3>
-      </div>
-
+    <>
       {/* Behavior list */}
       <div className="space-y-2">
-        {agentType.behaviors.length === 0 ? (
+        {behaviors.length === 0 ? (
           <p className="text-xs text-gray-500">No behaviors yet</p>
         ) : (
-          agentType.behaviors.map((behavior, index) => (
+          behaviors.map((behavior) => (
             <BehaviorCard
               key={behavior.id}
               behavior={behavior}
@@ -61,7 +101,9 @@ export function BehaviorBuilder({ agentType }: BehaviorBuilderProps) {
       {/* Add behavior dropdown - grouped by category */}
       <div className="relative">
         <select
-          className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+          className={`w-full bg-gray-700 border border-gray-600 rounded focus:outline-none focus:border-blue-500 ${
+            parent ? 'px-2 py-1 text-xs' : 'px-3 py-2 text-sm'
+          }`}
           value=""
           onChange={(e) => {
             if (e.target.value) {
@@ -70,37 +112,18 @@ export function BehaviorBuilder({ agentType }: BehaviorBuilderProps) {
           }}
         >
           <option value="">+ Add Behavior</option>
-          <optgroup label="Movement">
-            {BEHAVIOR_LIBRARY.filter(d => d.category === 'movement').map((def) => (
-              <option key={def.type} value={def.type}>
-                {def.name}
-              </option>
-            ))}
-          </optgroup>
-          <optgroup label="Flocking">
-            {BEHAVIOR_LIBRARY.filter(d => d.category === 'flocking').map((def) => (
-              <option key={def.type} value={def.type}>
-                {def.name}
-              </option>
-            ))}
-          </optgroup>
-          <optgroup label="Events">
-            {BEHAVIOR_LIBRARY.filter(d => d.category === 'events').map((def) => (
-              <option key={def.type} value={def.type}>
-                {def.name}
-              </option>
-            ))}
-          </optgroup>
-          <optgroup label="Lifecycle">
-            {BEHAVIOR_LIBRARY.filter(d => d.category === 'lifecycle').map((def) => (
-              <option key={def.type} value={def.type}>
-                {def.name}
-              </option>
-            ))}
-          </optgroup>
+          {CATEGORIES.map(({ category, label }) => (
+            <optgroup key={category} label={label}>
+              {BEHAVIOR_LIBRARY.filter(d => d.category === category).map((def) => (
+                <option key={def.type} value={def.type}>
+                  {def.name}
+                </option>
+              ))}
+            </optgroup>
+          ))}
         </select>
       </div>
-    </div>
+    </>
   );
 }
 
@@ -117,23 +140,60 @@ interface BehaviorCardProps {
 }
 
 function BehaviorCard({ behavior, agentType, allAgentTypes, onUpdate, onRemove }: BehaviorCardProps) {
+  const model = useModelStore((s) => s.model);
+  const parameters = useModelStore((s) => s.model?.parameters ?? []);
+  const patches = useModelStore((s) => s.model?.environment.patches);
+  const applyFix = useApplyQuickFix();
+
+  // Problems the linter found in this behavior
+  const diagnostics = useMemo(
+    () => (model ? lintModel(model).filter((d) => d.location.behaviorId === behavior.id) : []),
+    [model, behavior.id]
+  );
+  const hasErrors = diagnostics.some((d) => d.severity === 'error');
+
+  // Compile and runtime errors the simulation reported for this behavior.
+  // Lint errors stop the model before it runs, so they'd only repeat here.
+  const error = useSimulationStore((s) =>
+    s.error?.behaviorId === behavior.id ? s.error.message : null
+  );
+  const runtimeError = hasErrors ? null : error;
+
   const def = getBehaviorDef(behavior.type);
   if (!def) return null;
 
+  // Properties of target-side params come from the type the event targets
+  const targetType = allAgentTypes.find((t) => t.id === behavior.params.target);
+
   const updateParam = (key: string, value: any) => {
     onUpdate({
       params: { ...behavior.params, [key]: value },
     });
   };
 
-  // Check if a param should be shown based on showWhen condition
-  const shouldShowParam = (param: ParamDef): boolean => {
-    if (!param.showWhen) return true;
-    return behavior.params[param.showWhen.param] === param.showWhen.value;
+  // Properties carried over on a change of type depend on the new type, so
+  // picking one starts its mapping afresh
+  const newType = allAgentTypes.find((t) => t.id === behavior.params.newType);
+  const updateNewType = (typeId: string | null) => {
+    onUpdate({
+      params: {
+        ...behavior.params,
+        newType: typeId,
+        propertyMap: sharedPropertyMap(agentType, allAgentTypes.find((t) => t.id === typeId)),
+      },
+    });
   };
 
   return (
-    <div className="bg-gray-800 rounded-lg p-3 group">
+    <div
+      className={`bg-gray-800 rounded-lg p-3 group ${
+        hasErrors || runtimeError
+          ? 'ring-1 ring-red-500'
+          : diagnostics.length > 0
+          ? 'ring-1 ring-yellow-500/70'
+          : ''
+      }`}
+    >
       <div className="flex items-center justify-between mb-2">
         <div className="flex items-center gap-2">
           <input
@@ -154,7 +214,21 @@ function BehaviorCard({ behavior, agentType, allAgentTypes, onUpdate, onRemove }
 
       {/* Parameters */}
       <div className="space-y-2 pl-6">
-        {def.params.filter(shouldShowParam).map((param) => (
+        {def.params.filter((param) => isParamShown(param, behavior.params)).map((param) => param.type === 'code' ? (
+          <CodeInput
+            key={param.key}
+            value={behavior.params[param.key] ?? param.default}
+            onChange={(val) => updateParam(param.key, val)}
+          />
+        ) : param.type === 'propertyMap' ? (
+          <PropertyMapInput
+            key={param.key}
+            value={behavior.params[param.key] ?? param.default}
+            from={agentType}
+            to={newType}
+            onChange={(val) => updateParam(param.key, val)}
+          />
+        ) : (
           <div key={param.key} className="flex items-center gap-2">
             <label className="text-xs text-gray-400 w-20 shrink-0">{param.name}</label>
             
@@ -167,16 +241,21 @@ function BehaviorCard({ behavior, agentType, allAgentTypes, onUpdate, onRemove }
                 max={param.max}
                 step={param.step}
                 defaultValue={param.default}
+                properties={agentType.properties.map((p) => p.name)}
               />
             )}
             
             {param.type === 'agentType' && (
               <select
                 value={behavior.params[param.key] ?? ''}
-                onChange={(e) => updateParam(param.key, e.target.value || null)}
+                onChange={(e) =>
+                  param.key === 'newType'
+                    ? updateNewType(e.target.value || null)
+                    : updateParam(param.key, e.target.value || null)
+                }
                 className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
               >
-                <option value="">Select type...</option>
+                <option value="">{param.emptyLabel ?? 'Select type...'}</option>
                 {allAgentTypes.map((at) => (
                   <option key={at.id} value={at.id}>
                     {at.name}
@@ -200,7 +279,7 @@ function BehaviorCard({ behavior, agentType, allAgentTypes, onUpdate, onRemove }
                 onChange={(e) => updateParam(param.key, e.target.value)}
                 className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
               >
-                {ACTION_OPTIONS.map((opt) => (
+                {ACTION_OPTIONS.filter((opt) => !opt.needsTarget || behavior.type === 'on-collision').map((opt) => (
                   <option key={opt.value} value={opt.value}>
                     {opt.label}
                   </option>
@@ -228,7 +307,7 @@ function BehaviorCard({ behavior, agentType, allAgentTypes, onUpdate, onRemove }
                 onChange={(e) => updateParam(param.key, e.target.value || null)}
                 className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
               >
-                <option value="">Select property...</option>
+                <option value="">{param.emptyLabel ?? 'Select property...'}</option>
                 {agentType.properties.map((prop) => (
                   <option key={prop.id} value={prop.name}>
                     {prop.name}
@@ -236,9 +315,247 @@ function BehaviorCard({ behavior, agentType, allAgentTypes, onUpdate, onRemove }
                 ))}
               </select>
             )}
+
+            {param.type === 'targetProperty' && (
+              <select
+                value={behavior.params[param.key] ?? ''}
+                onChange={(e) => updateParam(param.key, e.target.value || null)}
+                className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+              >
+                <option value="">{targetType ? 'Select property...' : 'Select a target type first'}</option>
+                {targetType?.properties.map((prop) => (
+                  <option key={prop.id} value={prop.name}>
+                    {prop.name}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {param.type === 'adoptMode' && (
+              <select
+                value={behavior.params[param.key] ?? param.default}
+                onChange={(e) => updateParam(param.key, e.target.value)}
+                className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+              >
+                {ADOPT_MODE_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {param.type === 'test' && (
+              <select
+                value={behavior.params[param.key] ?? param.default}
+                onChange={(e) => updateParam(param.key, e.target.value)}
+                className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+              >
+                {TEST_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {param.type === 'parameter' && (
+              <select
+                value={behavior.params[param.key] ?? ''}
+                onChange={(e) => updateParam(param.key, e.target.value || null)}
+                className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+              >
+                <option value="">Select parameter...</option>
+                {parameters.map((p) => (
+                  <option key={p.id} value={p.name}>
+                    ${p.name}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {param.type === 'patchProperty' && (
+              <select
+                value={behavior.params[param.key] ?? ''}
+                onChange={(e) => updateParam(param.key, e.target.value || null)}
+                className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+              >
+                <option value="">Select patch...</option>
+                {patches?.properties.map((p) => (
+                  <option key={p.id} value={p.name}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {param.type === 'signal' && (
+              <select
+                value={behavior.params[param.key] ?? ''}
+                onChange={(e) => updateParam(param.key, e.target.value || null)}
+                className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+              >
+                <option value="">Select signal...</option>
+                {patches?.signals?.map((s) => (
+                  <option key={s.id} value={s.name}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
         ))}
       </div>
+
+      {/* Branches of an if/else block */}
+      {behavior.type === 'if' && (
+        <div className="mt-3 pl-6 space-y-3">
+          {(['then', 'else'] as const).map((branch) => (
+            <div key={branch} className="border-l-2 border-gray-700 pl-3 space-y-2">
+              <h4 className="text-xs font-medium text-gray-400">{branch === 'then' ? 'Then' : 'Else'}</h4>
+              <BehaviorList
+                behaviors={behavior[branch] ?? []}
+                agentType={agentType}
+                parent={{ behaviorId: behavior.id, branch }}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {diagnostics.length > 0 && (
+        <div className="mt-2 pl-6 space-y-1">
+          {diagnostics.map((diagnostic) => (
+            <div key={diagnostic.message} className="flex items-start gap-2">
+              <SeverityIcon severity={diagnostic.severity} />
+              <div className="flex-1 min-w-0">
+                <p className={`text-xs break-words ${diagnostic.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+                  {diagnostic.message}
+                </p>
+                {diagnostic.fix && (
+                  <QuickFixButton fix={diagnostic.fix} onApply={applyFix} className="mt-1" />
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {runtimeError && (
+        <p className="text-xs text-red-400 mt-2 pl-6 break-words">{runtimeError}</p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// PropertyMapInput
+// ============================================================================
+
+interface PropertyMapInputProps {
+  value: PropertyMap;
+  from: AgentType;
+  to: AgentType | undefined;
+  onChange: (value: PropertyMap) => void;
+}
+
+/**
+ * What each property of the new type starts with on a change of type: one
+ * of the agent's current properties, or its initial value
+ */
+function PropertyMapInput({ value, from, to, onChange }: PropertyMapInputProps) {
+  if (!to || to.properties.length === 0) return null;
+
+  const update = (target: string, source: string) => {
+    const next = { ...value };
+    if (source) {
+      next[target] = source;
+    } else {
+      delete next[target];
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-gray-400">Properties of {to.name}</div>
+      {to.properties.map((prop) => (
+        <div key={prop.id} className="flex items-center gap-2">
+          <label className="text-xs text-gray-400 w-20 shrink-0 truncate" title={prop.name}>
+            {prop.name}
+          </label>
+          <select
+            value={value[prop.name] ?? ''}
+            onChange={(e) => update(prop.name, e.target.value)}
+            className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+          >
+            <option value="">Reset to initial value</option>
+            {from.properties.map((source) => (
+              <option key={source.id} value={source.name}>
+                From {source.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// CodeInput
+// ============================================================================
+
+interface CodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Editor for custom code. Syntax is checked as you type; the code is
+ * saved on blur so the simulation doesn't restart on every keystroke.
+ */
+function CodeInput({ value, onChange }: CodeInputProps) {
+  const [text, setText] = useState(value);
+
+  // Pick up changes made elsewhere (e.g. undo, loading a model)
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  const syntaxError = checkCustomCodeSyntax(text);
+
+  return (
+    <div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => {
+          if (text !== value) onChange(text);
+        }}
+        onKeyDown={(e) => {
+          // Indent with Tab instead of leaving the field
+          if (e.key === 'Tab' && !e.shiftKey) {
+            e.preventDefault();
+            const el = e.currentTarget;
+            const { selectionStart, selectionEnd } = el;
+            setText(text.slice(0, selectionStart) + '  ' + text.slice(selectionEnd));
+            requestAnimationFrame(() => el.setSelectionRange(selectionStart + 2, selectionStart + 2));
+          }
+        }}
+        rows={8}
+        spellCheck={false}
+        className={`w-full bg-gray-900 border rounded px-2 py-1 text-xs font-mono resize-y focus:outline-none ${
+          syntaxError ? 'border-red-500' : 'border-gray-600 focus:border-blue-500'
+        }`}
+      />
+      {syntaxError ? (
+        <p className="text-xs text-red-400 mt-1">Syntax error: {syntaxError}</p>
+      ) : (
+        <p className="text-xs text-gray-500 mt-1">
+          Use agent.get/set/neighbors/nearest/remove/spawn, params.name and env.tick/random()
+        </p>
+      )}
     </div>
   );
 }
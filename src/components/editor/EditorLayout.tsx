@@ -14,11 +14,16 @@ import { useRouter } from 'next/navigation';
 import { useModelStore, useCanUndo, useCanRedo, useModelUndo, useModelRedo } from '@/stores/model';
 import { useSimulationStore } from '@/stores/simulation';
 import { useSimulation } from '@/lib/flocc/useSimulation';
-import { saveModel } from '@/lib/api/models';
+import { saveModel, uploadThumbnail } from '@/lib/api/models';
+import { saveScratch, clearScratch } from '@/lib/model/scratch';
 import { AgentPanel } from './AgentPanel';
 import { ParametersAccordion } from './ParametersAccordion';
 import { EnvironmentAccordion } from './EnvironmentAccordion';
+import { PatchesAccordion } from './PatchesAccordion';
+import { NetworkAccordion } from './NetworkAccordion';
 import { VisualizationsAccordion } from './VisualizationsAccordion';
+import { ProblemsPanel } from './ProblemsPanel';
+import { HistoryPanel, useRestoreVersion } from './HistoryPanel';
 import { PropertyPanel } from './PropertyPanel';
 import { VisualizationPanel } from './VisualizationPanel';
 import { ModelSettingsDropdown } from './ModelSettingsDropdown';
@@ -42,6 +47,9 @@ export function EditorLayout({ modelId }: EditorLayoutProps) {
   const setModel = useModelStore((s) => s.setModel);
 
   const activeAccordion = useEditStore((s) => s.activeAccordion);
+  const preview = useEditStore((s) => s.preview);
+  const setPreview = useEditStore((s) => s.setPreview);
+  const restoreVersion = useRestoreVersion(modelId);
 
   const canUndo = useCanUndo();
   const canRedo = useCanRedo();
@@ -70,8 +78,18 @@ export function EditorLayout({ modelId }: EditorLayoutProps) {
   // Track if this is a new model (not yet saved to DB)
   const isNewModel = modelId === 'new';
 
-  // Simulation hook
-  const { setContainer, initializeSimulation } = useSimulation();
+  // Simulation hook; runs the previewed version instead, if there is one
+  const { setContainer, initializeSimulation } = useSimulation(preview?.model);
+
+  // Keep unsaved work of signed-out users, so it survives signing in
+  useEffect(() => {
+    if (isNewModel && model && !session?.user) saveScratch(model);
+  }, [isNewModel, model, session]);
+
+  // Previews don't outlive the editor
+  useEffect(() => {
+    return () => setPreview(null);
+  }, [setPreview]);
 
   // Handle canvas container ready
   const handleContainerReady = useCallback((container: HTMLDivElement) => {
@@ -116,31 +134,37 @@ export function EditorLayout({ modelId }: EditorLayoutProps) {
     setIsSaving(true);
     setSaveError(null);
 
-    // Capture thumbnail before saving
-    const thumbnailUrl = captureThumbnail(400);
-    const modelWithThumbnail = thumbnailUrl 
-      ? { ...model, thumbnailUrl } 
-      : model;
+    // Capture the thumbnail while the canvas still shows this model (not a
+    // version being previewed)
+    const thumbnail = preview ? null : captureThumbnail(400);
 
-    const result = await saveModel(modelWithThumbnail, isNewModel);
+    const result = await saveModel(model, isNewModel);
 
     setIsSaving(false);
 
     if (result.success && result.model) {
+      // Uploaded separately, once the model has an id; a missing thumbnail
+      // isn't worth failing the save over
+      if (thumbnail) uploadThumbnail(result.model.id, thumbnail);
+
+      setPreview(null);
       setModel(result.model);
       markClean();
       
       // If it was a new model, redirect to the saved model's edit page
       if (isNewModel) {
+        clearScratch();
         router.replace(`/model/${result.model.id}/edit`);
       }
     } else {
       setSaveError(result.error ?? 'Failed to save');
     }
-  }, [model, session, isNewModel, setModel, markClean, router, captureThumbnail]);
+  }, [model, preview, session, isNewModel, setModel, setPreview, markClean, router, captureThumbnail]);
 
   if (!model) return null;
 
+  const displayedModel = preview?.model ?? model;
+
   const sidePanelOpen = (activeAccordion === 'Agent Types' && selectedAgentId) || (activeAccordion === 'Visualizations' && selectedVisualizationId);
 
   return (
@@ -228,6 +252,13 @@ export function EditorLayout({ modelId }: EditorLayoutProps) {
               onSelectVisualization={handleSelectVisualization}
             />
             <EnvironmentAccordion />
+            <PatchesAccordion />
+            <NetworkAccordion />
+            <ProblemsPanel
+              onSelectAgent={handleSelectAgent}
+              onSelectVisualization={handleSelectVisualization}
+            />
+            {!isNewModel && <HistoryPanel modelId={modelId} />}
           </div>
 
           {/* Side Panel - Slides out when agent or visualization selected */}
@@ -272,13 +303,34 @@ export function EditorLayout({ modelId }: EditorLayoutProps) {
 
         {/* Right - Canvas + Charts */}
         <main className="flex-1 flex flex-col overflow-hidden">
+          {/* Version preview banner */}
+          {preview && (
+            <div className="flex items-center gap-3 px-4 py-2 bg-blue-950/60 border-b border-blue-900 text-sm">
+              <span className="flex-1 text-blue-200">
+                Previewing version {preview.version}. Edits still apply to the current version.
+              </span>
+              <button
+                onClick={() => restoreVersion(preview.version).then((error) => error && setSaveError(error))}
+                className="px-2 py-1 rounded bg-blue-600 hover:bg-blue-500 text-xs"
+              >
+                Restore this version
+              </button>
+              <button
+                onClick={() => setPreview(null)}
+                className="px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-xs"
+              >
+                Back to editing
+              </button>
+            </div>
+          )}
+
           <div className="flex-1 p-4 overflow-y-auto">
-            <Canvas onContainerReady={handleContainerReady} />
+            <Canvas model={displayedModel} onContainerReady={handleContainerReady} />
             
             {/* Line Charts */}
-            {model.visualizations && model.visualizations.length > 0 && (
+            {displayedModel.visualizations && displayedModel.visualizations.length > 0 && (
               <div className="mt-4">
-                <LineChartList visualizations={model.visualizations} />
+                <LineChartList visualizations={displayedModel.visualizations} />
               </div>
             )}
           </div>
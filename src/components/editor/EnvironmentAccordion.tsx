@@ -4,11 +4,13 @@
  * EnvironmentAccordion
  * 
  * Accordion section for environment configuration.
- * Width, height, wraparound, background color.
+ * Width, height, wraparound, background color, random seed.
  */
 
 import { useModelStore } from '@/stores/model';
 import { Accordion } from '@/components/ui/Accordion';
+import { DEFAULT_SEED } from '@/lib/flocc/compiler';
+import type { SeedConfig } from '@/types';
 
 export function EnvironmentAccordion() {
   const model = useModelStore((s) => s.model);
@@ -17,6 +19,7 @@ export function EnvironmentAccordion() {
   if (!model) return null;
 
   const env = model.environment;
+  const seed: SeedConfig = env.seed ?? { mode: 'fixed' };
 
   return (
     <Accordion title="Environment">
@@ -87,6 +90,42 @@ export function EnvironmentAccordion() {
           </div>
         </div>
 
+        {/* Random seed */}
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Random Seed</label>
+          <select
+            value={seed.mode}
+            onChange={(e) => {
+              const mode = e.target.value as SeedConfig['mode'];
+              updateEnvironment({
+                seed: mode === 'custom' ? { mode, value: seed.value ?? DEFAULT_SEED } : { mode },
+              });
+            }}
+            className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+          >
+            <option value="fixed">Fixed (same every run)</option>
+            <option value="random">Random each run</option>
+            <option value="custom">Custom value</option>
+          </select>
+          {seed.mode === 'custom' && (
+            <input
+              type="number"
+              value={seed.value ?? DEFAULT_SEED}
+              onChange={(e) => updateEnvironment({
+                seed: { mode: 'custom', value: parseInt(e.target.value) || 0 },
+              })}
+              min={0}
+              step={1}
+              className="w-full mt-2 bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm font-mono focus:outline-none focus:border-blue-500"
+            />
+          )}
+          <p className="text-xs text-gray-500 mt-1">
+            {seed.mode === 'random'
+              ? 'Each run draws a new seed, shown in the controls bar.'
+              : 'Runs with the same seed and parameters are identical.'}
+          </p>
+        </div>
+
         {/* Info note */}
         <p className="text-xs text-gray-600 italic">
           Changing dimensions requires restarting the simulation.
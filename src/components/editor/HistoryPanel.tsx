@@ -0,0 +1,168 @@
+'use client';
+
+/**
+ * HistoryPanel
+ *
+ * Accordion section listing the model's saved versions. Previewing a
+ * version runs it in the canvas without touching the model being edited;
+ * restoring makes it current again (saved as a new version, so nothing is
+ * lost either way).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useModelStore } from '@/stores/model';
+import { useEditStore } from '@/stores/edit';
+import { Accordion } from '@/components/ui/Accordion';
+import { listVersions, loadVersion, restoreVersion } from '@/lib/api/models';
+import type { ModelVersionInfo } from '@/types';
+
+interface HistoryPanelProps {
+  modelId: string;
+}
+
+export function HistoryPanel({ modelId }: HistoryPanelProps) {
+  const currentVersion = useModelStore((s) => s.model?.version);
+  const activeAccordion = useEditStore((s) => s.activeAccordion);
+  const preview = useEditStore((s) => s.preview);
+  const setPreview = useEditStore((s) => s.setPreview);
+  const restore = useRestoreVersion(modelId);
+
+  const [versions, setVersions] = useState<ModelVersionInfo[] | null>(null);
+  const [loadingVersion, setLoadingVersion] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOpen = activeAccordion === 'History';
+
+  // Load when opened, and again after each save or restore
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    listVersions(modelId).then((result) => {
+      if (!cancelled) setVersions(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, modelId, currentVersion]);
+
+  const handlePreview = async (version: number) => {
+    if (preview?.version === version) {
+      setPreview(null);
+      return;
+    }
+
+    setLoadingVersion(version);
+    setError(null);
+    const model = await loadVersion(modelId, version);
+    setLoadingVersion(null);
+
+    if (model) {
+      setPreview({ version, model });
+    } else {
+      setError(`Couldn't load version ${version}`);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    setError(null);
+    const result = await restore(version);
+    if (result) setError(result);
+  };
+
+  return (
+    <Accordion title="History">
+      <div className="space-y-2">
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {versions === null ? (
+          <p className="text-xs text-gray-500">Loading...</p>
+        ) : versions.length <= 1 ? (
+          <p className="text-xs text-gray-500">
+            Earlier versions appear here once you save changes
+          </p>
+        ) : null}
+
+        {versions?.map((info) => (
+          <div
+            key={info.version}
+            className={`bg-gray-800 rounded px-3 py-2 ${
+              preview?.version === info.version ? 'ring-1 ring-blue-500' : ''
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-gray-200">Version {info.version}</span>
+              {info.current && (
+                <span className="text-xs px-1.5 py-0.5 rounded bg-gray-700 text-gray-400">Current</span>
+              )}
+            </div>
+            {info.savedAt && (
+              <p className="text-xs text-gray-500 mt-0.5">{formatSavedAt(info.savedAt)}</p>
+            )}
+
+            {!info.current && (
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={() => handlePreview(info.version)}
+                  disabled={loadingVersion !== null}
+                  className="text-xs px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+                >
+                  {loadingVersion === info.version
+                    ? 'Loading...'
+                    : preview?.version === info.version
+                    ? 'Stop preview'
+                    : 'Preview'}
+                </button>
+                <button
+                  onClick={() => handleRestore(info.version)}
+                  className="text-xs px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-blue-300"
+                >
+                  Restore
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Accordion>
+  );
+}
+
+// ============================================================================
+// Shared Pieces
+// ============================================================================
+
+/**
+ * Restore a saved version and load it into the editor. Resolves to an error
+ * message, or null once restored (or when the user cancels).
+ */
+export function useRestoreVersion(modelId: string): (version: number) => Promise<string | null> {
+  const setModel = useModelStore((s) => s.setModel);
+  const setPreview = useEditStore((s) => s.setPreview);
+
+  return useCallback(
+    async (version: number) => {
+      const { isDirty } = useModelStore.getState();
+      const message = isDirty
+        ? `Restore version ${version}? Your unsaved changes will be lost.`
+        : `Restore version ${version}? The current version stays in the history.`;
+      if (!confirm(message)) return null;
+
+      const result = await restoreVersion(modelId, version);
+      if (!result.success || !result.model) {
+        return result.error ?? 'Failed to restore';
+      }
+
+      setPreview(null);
+      setModel(result.model);
+      return null;
+    },
+    [modelId, setModel, setPreview]
+  );
+}
+
+export function formatSavedAt(savedAt: string): string {
+  return new Date(savedAt).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
@@ -4,12 +4,16 @@
  * ModelSettingsDropdown
  *
  * Gear icon that opens a dropdown of top-level model settings.
- * Currently: Make Public toggle.
- * Future: tags, license, collaborators, etc.
+ * Currently: Make Public toggle, tags, code and offline HTML export.
+ * Future: license, collaborators, etc.
  */
 
 import { useRef, useState, useEffect, useCallback } from 'react';
 import { useModelStore } from '@/stores/model';
+import { TagInput } from './TagInput';
+
+// Selected stably so the selector doesn't return a new array each render
+const NO_TAGS: string[] = [];
 
 interface Props {
   modelId: string;
@@ -26,6 +30,8 @@ export function ModelSettingsDropdown({ modelId, disabled = false }: Props) {
 
   const isPublic = useModelStore((s) => s.model?.isPublic ?? false);
   const setIsPublic = useModelStore((s) => s.setIsPublic);
+  const tags = useModelStore((s) => s.model?.tags ?? NO_TAGS);
+  const updateTags = useModelStore((s) => s.updateTags);
 
   // Close on outside click
   useEffect(() => {
@@ -107,7 +113,7 @@ export function ModelSettingsDropdown({ modelId, disabled = false }: Props) {
 
       {/* Dropdown panel */}
       {open && (
-        <div className="absolute right-0 top-full mt-2 w-56 bg-gray-900 border border-gray-700 rounded-lg shadow-xl z-50 py-1">
+        <div className="absolute right-0 top-full mt-2 w-64 bg-gray-900 border border-gray-700 rounded-lg shadow-xl z-50 py-1">
           {/* Section header */}
           <div className="px-3 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wider border-b border-gray-800">
             Visibility
@@ -144,6 +150,50 @@ export function ModelSettingsDropdown({ modelId, disabled = false }: Props) {
               {error}
             </div>
           )}
+
+          {/* Section header */}
+          <div className="px-3 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wider border-y border-gray-800">
+            Tags
+          </div>
+
+          {/* Tags (saved with the model) */}
+          <div className="px-3 py-3">
+            <TagInput tags={tags} onChange={updateTags} />
+            <div className="text-xs text-gray-500 mt-1.5">
+              Helps people find this model on Explore. Saved with the model.
+            </div>
+          </div>
+
+          {/* Section header */}
+          <div className="px-3 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wider border-y border-gray-800">
+            Export
+          </div>
+
+          {/* Export code */}
+          <a
+            href={`/api/export/${modelId}`}
+            download
+            onClick={() => setOpen(false)}
+            className="block px-3 py-3 hover:bg-gray-800 transition"
+          >
+            <div className="text-sm font-medium">Export code</div>
+            <div className="text-xs text-gray-500 mt-0.5">
+              Standalone Flocc JavaScript of the last saved version.
+            </div>
+          </a>
+
+          {/* Export offline HTML */}
+          <a
+            href={`/api/export/${modelId}?format=html`}
+            download
+            onClick={() => setOpen(false)}
+            className="block px-3 py-3 hover:bg-gray-800 transition"
+          >
+            <div className="text-sm font-medium">Download offline page</div>
+            <div className="text-xs text-gray-500 mt-0.5">
+              Single HTML file that runs without a network connection.
+            </div>
+          </a>
         </div>
       )}
     </div>
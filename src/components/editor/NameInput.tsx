@@ -0,0 +1,75 @@
+'use client';
+
+/**
+ * NameInput
+ *
+ * Text field for renaming a parameter or property. The name is committed
+ * on blur or Enter rather than per keystroke, since a rename rewrites every
+ * reference to it; empty names, names already taken and names expressions
+ * can't refer to (`max speed`) are rejected and the field goes back to the
+ * current name. Escape cancels.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { isIdentifier } from '@/lib/flocc/references';
+
+interface NameInputProps {
+  value: string;
+  onRename: (name: string) => void;
+  /** Whether another item already has this name */
+  isTaken: (name: string) => boolean;
+  /** Called once editing ends, committed or not */
+  onDone?: () => void;
+  autoFocus?: boolean;
+  className?: string;
+}
+
+export function NameInput({ value, onRename, isTaken, onDone, autoFocus, className }: NameInputProps) {
+  const [text, setText] = useState(value);
+  // Set on Escape so the blur that follows doesn't commit
+  const cancelled = useRef(false);
+
+  // Pick up renames made elsewhere (e.g. undo)
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  const name = text.trim();
+  const problem =
+    name === value || name === ''
+      ? null
+      : !isIdentifier(name)
+      ? 'Use letters, digits and _ only, not starting with a digit'
+      : isTaken(name)
+      ? 'That name is already used'
+      : null;
+
+  const commit = () => {
+    if (!cancelled.current && name && name !== value && !problem) {
+      onRename(name);
+    } else {
+      setText(value);
+    }
+    cancelled.current = false;
+    onDone?.();
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          cancelled.current = true;
+          e.currentTarget.blur();
+        }
+      }}
+      autoFocus={autoFocus}
+      title={problem ?? undefined}
+      className={`${className ?? ''} ${problem ? 'text-red-400' : ''}`}
+    />
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+/**
+ * NetworkAccordion
+ *
+ * Accordion section for links between agents: how the initial agents are
+ * wired up and the color links are drawn in. Behaviors in the Network
+ * category connect, disconnect and read links during the run.
+ */
+
+import { useModelStore } from '@/stores/model';
+import { Accordion } from '@/components/ui/Accordion';
+import { DEFAULT_LINK_COLOR } from '@/lib/flocc/network';
+import type { NetworkConfig, NetworkTopology } from '@/types';
+
+const TOPOLOGY_OPTIONS: { value: NetworkTopology; label: string; description: string }[] = [
+  { value: 'none', label: 'None', description: 'Agents start unlinked; behaviors create links.' },
+  { value: 'random', label: 'Random', description: 'Every pair of agents is linked with the same chance.' },
+  { value: 'small-world', label: 'Small world', description: 'A ring of close neighbours with a few random shortcuts.' },
+  { value: 'nearest-k', label: 'Nearest k', description: 'Each agent links to the agents closest to it.' },
+];
+
+const fieldClass =
+  'flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500';
+
+export function NetworkAccordion() {
+  const model = useModelStore((s) => s.model);
+  const updateEnvironment = useModelStore((s) => s.updateEnvironment);
+
+  if (!model) return null;
+
+  const network: NetworkConfig = model.environment.network ?? { topology: 'none' };
+  const topology = TOPOLOGY_OPTIONS.find((t) => t.value === network.topology);
+
+  const setNetwork = (changes: Partial<NetworkConfig>) => {
+    updateEnvironment({ network: { ...network, ...changes } });
+  };
+
+  const handleTopologyChange = (value: NetworkTopology) => {
+    const updates: Partial<NetworkConfig> = { topology: value };
+    // Fill in the settings the new topology uses
+    if (value === 'random') {
+      updates.probability = network.probability ?? 0.05;
+    } else if (value === 'small-world') {
+      updates.degree = network.degree ?? 4;
+      updates.rewire = network.rewire ?? 0.1;
+    } else if (value === 'nearest-k') {
+      updates.degree = network.degree ?? 4;
+    }
+    setNetwork(updates);
+  };
+
+  return (
+    <Accordion title="Network">
+      <div className="space-y-4">
+        {/* Initial topology */}
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Initial links</label>
+          <select
+            value={network.topology}
+            onChange={(e) => handleTopologyChange(e.target.value as NetworkTopology)}
+            className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+          >
+            {TOPOLOGY_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+          {topology && <p className="text-xs text-gray-500 mt-1">{topology.description}</p>}
+        </div>
+
+        {network.topology === 'random' && (
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-500 w-20">Link chance</label>
+            <input
+              type="number"
+              value={network.probability ?? 0.05}
+              onChange={(e) => setNetwork({ probability: Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 1) })}
+              min={0}
+              max={1}
+              step={0.01}
+              className={fieldClass}
+            />
+          </div>
+        )}
+
+        {(network.topology === 'small-world' || network.topology === 'nearest-k') && (
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-500 w-20">Links each</label>
+            <input
+              type="number"
+              value={network.degree ?? 4}
+              onChange={(e) => setNetwork({ degree: Math.max(1, parseInt(e.target.value) || 1) })}
+              min={1}
+              max={50}
+              step={network.topology === 'small-world' ? 2 : 1}
+              className={fieldClass}
+            />
+          </div>
+        )}
+
+        {network.topology === 'small-world' && (
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-500 w-20">Rewire</label>
+            <input
+              type="number"
+              value={network.rewire ?? 0.1}
+              onChange={(e) => setNetwork({ rewire: Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 1) })}
+              min={0}
+              max={1}
+              step={0.05}
+              title="Chance that each ring link is moved to a random agent"
+              className={fieldClass}
+            />
+          </div>
+        )}
+
+        {/* Link color */}
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-gray-500 w-20">Link color</label>
+          <input
+            type="color"
+            value={network.color ?? DEFAULT_LINK_COLOR}
+            onChange={(e) => setNetwork({ color: e.target.value })}
+            className="w-10 h-8 rounded cursor-pointer bg-transparent"
+          />
+        </div>
+      </div>
+    </Accordion>
+  );
+}
@@ -2,14 +2,16 @@
 
 /**
  * ParamInput
- * 
+ *
  * Input for behavior parameters that can toggle between:
  * - Literal value (direct input)
  * - Parameter reference (select from model parameters)
+ * - Expression (numbers only, e.g. "$baseSpeed * 2" or "energy / 10")
  */
 
 import { useState, useEffect } from 'react';
 import { useModelStore } from '@/stores/model';
+import { validateExpression, EXPRESSION_FUNCTIONS } from '@/lib/flocc/expressions';
 
 interface ParamInputProps {
   value: any;
@@ -19,6 +21,18 @@ interface ParamInputProps {
   max?: number;
   step?: number;
   defaultValue?: any;
+  // The agent type's property names, readable in expressions
+  properties?: string[];
+}
+
+type Mode = 'value' | 'param' | 'expression';
+
+/**
+ * Strings are parameter references ("$name") or expressions
+ */
+function getMode(value: unknown): Mode {
+  if (typeof value !== 'string') return 'value';
+  return /^\$[A-Za-z_][A-Za-z0-9_]*$/.test(value.trim()) ? 'param' : 'expression';
 }
 
 export function ParamInput({
@@ -29,21 +43,14 @@ export function ParamInput({
   max,
   step,
   defaultValue,
+  properties = [],
 }: ParamInputProps) {
   const model = useModelStore((s) => s.model);
   const parameters = model?.parameters ?? [];
 
-  // Check if current value is a parameter reference (starts with $)
-  const isParamRef = typeof value === 'string' && value.startsWith('$');
-  const [mode, setMode] = useState<'value' | 'param'>(isParamRef ? 'param' : 'value');
-
-  // When value changes externally, sync the mode
-  useEffect(() => {
-    const shouldBeParamMode = typeof value === 'string' && value.startsWith('$');
-    if (shouldBeParamMode !== (mode === 'param')) {
-      setMode(shouldBeParamMode ? 'param' : 'value');
-    }
-  }, [value, mode]);
+  // Set while editing an expression that hasn't been saved yet
+  const [expressionRequested, setExpressionRequested] = useState(false);
+  const mode = expressionRequested ? 'expression' : getMode(value);
 
   // Filter parameters by compatible type
   const compatibleParams = parameters.filter((p) => {
@@ -54,15 +61,24 @@ export function ParamInput({
 
   const handleToggle = () => {
     if (mode === 'value') {
-      // Switch to param mode - select first compatible param or clear
+      // Switch to param mode - select first compatible param
       if (compatibleParams.length > 0) {
         onChange(`$${compatibleParams[0].name}`);
       }
-      setMode('param');
     } else {
       // Switch to value mode - use default
       onChange(defaultValue ?? (type === 'number' ? 0 : false));
-      setMode('value');
+    }
+  };
+
+  const handleExpressionToggle = () => {
+    if (mode === 'expression') {
+      setExpressionRequested(false);
+      if (getMode(value) === 'expression') {
+        onChange(defaultValue ?? 0);
+      }
+    } else {
+      setExpressionRequested(true);
     }
   };
 
@@ -75,11 +91,11 @@ export function ParamInput({
   };
 
   // Get the current param name if in param mode
-  const currentParamName = isParamRef ? value.slice(1) : null;
+  const currentParamName = mode === 'param' ? value.trim().slice(1) : null;
 
   return (
-    <div className="flex items-center gap-1 flex-1">
-      {mode === 'value' ? (
+    <div className="flex items-center gap-1 flex-1 min-w-0">
+      {mode === 'value' && (
         <>
           {type === 'number' && (
             <input
@@ -89,7 +105,7 @@ export function ParamInput({
               min={min}
               max={max}
               step={step}
-              className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+              className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
             />
           )}
           {type === 'boolean' && (
@@ -101,26 +117,39 @@ export function ParamInput({
             />
           )}
         </>
-      ) : (
+      )}
+
+      {mode === 'param' && (
         <select
           value={currentParamName ?? ''}
           onChange={(e) => handleParamSelect(e.target.value)}
-          className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+          className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
         >
-          {compatibleParams.length === 0 ? (
-            <option value="" disabled>No {type} parameters</option>
-          ) : (
-            compatibleParams.map((p) => (
-              <option key={p.id} value={p.name}>
-                ${p.name}
-              </option>
-            ))
+          {!compatibleParams.some((p) => p.name === currentParamName) && (
+            <option value={currentParamName ?? ''} disabled>
+              ${currentParamName} (missing)
+            </option>
           )}
+          {compatibleParams.map((p) => (
+            <option key={p.id} value={p.name}>
+              ${p.name}
+            </option>
+          ))}
         </select>
       )}
 
+      {mode === 'expression' && (
+        // Starts from the current value; nothing is saved until it's edited
+        <ExpressionInput
+          value={String(value ?? defaultValue ?? 0)}
+          onChange={onChange}
+          parameters={parameters.map((p) => p.name)}
+          properties={properties}
+        />
+      )}
+
       {/* Toggle button - only show if there are compatible parameters */}
-      {compatibleParams.length > 0 && (
+      {mode !== 'expression' && compatibleParams.length > 0 && (
         <button
           onClick={handleToggle}
           className={`p-1 rounded text-xs transition shrink-0 ${
@@ -141,6 +170,74 @@ export function ParamInput({
           </svg>
         </button>
       )}
+
+      {/* Expression toggle - numeric params only */}
+      {type === 'number' && (
+        <button
+          onClick={handleExpressionToggle}
+          className={`px-1.5 py-1 rounded text-xs italic font-serif transition shrink-0 ${
+            mode === 'expression'
+              ? 'bg-blue-600 text-white'
+              : 'bg-gray-700 text-gray-400 hover:text-white'
+          }`}
+          title={mode === 'expression' ? 'Use literal value' : 'Use expression'}
+        >
+          fx
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// ExpressionInput
+// ============================================================================
+
+interface ExpressionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  parameters: string[];
+  properties: string[];
+}
+
+/**
+ * Text input validated as you type. Only valid expressions are saved,
+ * on blur or Enter, so the simulation never sees a broken one.
+ */
+function ExpressionInput({ value, onChange, parameters, properties }: ExpressionInputProps) {
+  const [text, setText] = useState(value);
+
+  // Pick up changes made elsewhere (e.g. undo, loading a model)
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  const error = validateExpression(text, { parameters, properties });
+
+  const commit = () => {
+    if (!error && text.trim() !== value) {
+      onChange(text.trim());
+    }
+  };
+
+  return (
+    <div className="flex-1 min-w-0">
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+        }}
+        placeholder="e.g. $speed * 2"
+        spellCheck={false}
+        title={`Use $parameter, property names, tick and ${EXPRESSION_FUNCTIONS.join(', ')}()`}
+        className={`w-full bg-gray-700 border rounded px-2 py-1 text-sm font-mono focus:outline-none ${
+          error ? 'border-red-500' : 'border-gray-600 focus:border-blue-500'
+        }`}
+      />
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
     </div>
   );
 }
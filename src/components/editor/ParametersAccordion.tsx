@@ -11,13 +11,16 @@ import { useState } from 'react';
 import { nanoid } from 'nanoid';
 import { useModelStore } from '@/stores/model';
 import { Accordion } from '@/components/ui/Accordion';
+import { findParameterUses, describeUses } from '@/lib/flocc/references';
 import type { Parameter } from '@/types';
+import { NameInput } from './NameInput';
 
 export function ParametersAccordion() {
   const model = useModelStore((s) => s.model);
   const addParameter = useModelStore((s) => s.addParameter);
   const updateParameter = useModelStore((s) => s.updateParameter);
   const removeParameter = useModelStore((s) => s.removeParameter);
+  const renameParameter = useModelStore((s) => s.renameParameter);
 
   const [editingId, setEditingId] = useState<string | null>(null);
 
@@ -38,6 +41,12 @@ export function ParametersAccordion() {
     setEditingId(id);
   };
 
+  // Deleting a parameter that's in use breaks whatever uses it, so ask first
+  const handleRemove = (param: Parameter, usage: string | null) => {
+    if (usage && !confirm(`Delete "$${param.name}"? ${usage}, which will stop working.`)) return;
+    removeParameter(param.id);
+  };
+
   const addButton = (
     <button
       onClick={handleAddParameter}
@@ -59,17 +68,23 @@ export function ParametersAccordion() {
         </p>
       ) : (
         <div className="space-y-3">
-          {model.parameters.map((param) => (
-            <ParameterItem
-              key={param.id}
-              param={param}
-              isEditing={editingId === param.id}
-              onStartEdit={() => setEditingId(param.id)}
-              onEndEdit={() => setEditingId(null)}
-              onUpdate={(changes) => updateParameter(param.id, changes)}
-              onRemove={() => removeParameter(param.id)}
-            />
-          ))}
+          {model.parameters.map((param) => {
+            const usage = describeUses(findParameterUses(model, param.name));
+            return (
+              <ParameterItem
+                key={param.id}
+                param={param}
+                usage={usage}
+                isEditing={editingId === param.id}
+                isNameTaken={(name) => model.parameters.some((p) => p.id !== param.id && p.name === name)}
+                onStartEdit={() => setEditingId(param.id)}
+                onEndEdit={() => setEditingId(null)}
+                onUpdate={(changes) => updateParameter(param.id, changes)}
+                onRename={(name) => renameParameter(param.id, name)}
+                onRemove={() => handleRemove(param, usage)}
+              />
+            );
+          })}
         </div>
       )}
     </Accordion>
@@ -82,19 +97,26 @@ export function ParametersAccordion() {
 
 interface ParameterItemProps {
   param: Parameter;
+  /** What refers to the parameter, e.g. "Used by 2 behaviors" */
+  usage: string | null;
   isEditing: boolean;
+  isNameTaken: (name: string) => boolean;
   onStartEdit: () => void;
   onEndEdit: () => void;
   onUpdate: (changes: Partial<Parameter>) => void;
+  onRename: (name: string) => void;
   onRemove: () => void;
 }
 
 function ParameterItem({ 
   param, 
+  usage,
   isEditing, 
+  isNameTaken,
   onStartEdit, 
   onEndEdit, 
   onUpdate, 
+  onRename,
   onRemove 
 }: ParameterItemProps) {
   const [showConfig, setShowConfig] = useState(false);
@@ -105,14 +127,11 @@ function ParameterItem({
       <div className="flex items-center gap-2">
         {/* Name */}
         {isEditing ? (
-          <input
-            type="text"
+          <NameInput
             value={param.name}
-            onChange={(e) => onUpdate({ name: e.target.value })}
-            onBlur={onEndEdit}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter' || e.key === 'Escape') onEndEdit();
-            }}
+            onRename={onRename}
+            isTaken={isNameTaken}
+            onDone={onEndEdit}
             autoFocus
             className="flex-1 bg-gray-700 border border-blue-500 rounded px-2 py-1 text-sm focus:outline-none"
           />
@@ -150,6 +169,8 @@ function ParameterItem({
         </button>
       </div>
 
+      {usage && <p className="text-xs text-gray-500 mt-1">{usage}</p>}
+
       {/* Value control */}
       {param.type === 'number' && (
         <div className="mt-2 flex items-center gap-2">
@@ -0,0 +1,467 @@
+'use client';
+
+/**
+ * PatchesAccordion
+ *
+ * Accordion section for the patch grid: a layer of cells under the agents,
+ * each holding numeric properties (grass, nutrients, ...) that agents can
+ * read, consume and deposit, and that regrow every tick, plus signals
+ * (pheromones) that agents emit and follow, which diffuse and evaporate.
+ */
+
+import { useState } from 'react';
+import { nanoid } from 'nanoid';
+import { useModelStore } from '@/stores/model';
+import { Accordion } from '@/components/ui/Accordion';
+import { InitialValueEditor } from './PropertyBuilder';
+import { DEFAULT_CELL_SIZE, getGridSize } from '@/lib/flocc/patches';
+import type { PatchConfig, PatchPropertyDef, SignalDef } from '@/types';
+
+const fieldClass =
+  'flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500';
+
+export function PatchesAccordion() {
+  const model = useModelStore((s) => s.model);
+  const updateEnvironment = useModelStore((s) => s.updateEnvironment);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  if (!model) return null;
+
+  const env = model.environment;
+  const patches: PatchConfig = env.patches ?? { cellSize: DEFAULT_CELL_SIZE, properties: [] };
+  const grid = getGridSize(patches, env.width, env.height);
+
+  const signals = patches.signals ?? [];
+  const layerCount = patches.properties.length + signals.length;
+
+  const setPatches = (changes: Partial<PatchConfig>) => {
+    const next = { ...patches, ...changes };
+    // A grid without properties or signals does nothing; drop it from the model
+    const isEmpty = next.properties.length === 0 && !next.signals?.length;
+    updateEnvironment({ patches: isEmpty ? undefined : next });
+  };
+
+  const updateProperty = (id: string, changes: Partial<PatchPropertyDef>) => {
+    setPatches({
+      properties: patches.properties.map((p) => (p.id === id ? { ...p, ...changes } : p)),
+    });
+  };
+
+  const updateSignal = (id: string, changes: Partial<SignalDef>) => {
+    setPatches({
+      signals: signals.map((s) => (s.id === id ? { ...s, ...changes } : s)),
+    });
+  };
+
+  const handleAddSignal = () => {
+    const id = nanoid();
+    const newSignal: SignalDef = {
+      id,
+      name: `signal${signals.length + 1}`,
+      diffusion: 0.5,
+      decay: 0.05,
+      color: '#c026d3',
+      max: 5,
+    };
+    setPatches({ signals: [...signals, newSignal] });
+    setEditingId(id);
+  };
+
+  const handleAddProperty = () => {
+    const id = nanoid();
+    const newProp: PatchPropertyDef = {
+      id,
+      name: `patch${patches.properties.length + 1}`,
+      defaultValue: 0,
+      min: 0,
+      max: 10,
+      color: '#3a7d44',
+    };
+    setPatches({ properties: [...patches.properties, newProp] });
+    setEditingId(id);
+  };
+
+  return (
+    <Accordion title="Patches" badge={layerCount}>
+      <div className="space-y-4">
+        {/* Cell size */}
+        {layerCount > 0 && (
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-500 w-16">Cell size</label>
+            <input
+              type="number"
+              value={patches.cellSize}
+              onChange={(e) => setPatches({ cellSize: Math.max(1, parseInt(e.target.value) || DEFAULT_CELL_SIZE) })}
+              min={1}
+              max={100}
+              className={fieldClass}
+            />
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {grid.columns} × {grid.rows} cells
+            </span>
+          </div>
+        )}
+
+        {/* Properties */}
+        <div className="space-y-3">
+          <SectionHeader title="Properties" onAdd={handleAddProperty} />
+          {patches.properties.length === 0 ? (
+            <p className="text-gray-500 text-sm">
+              Give every cell a value agents can graze, deplete or enrich.
+            </p>
+          ) : (
+            patches.properties.map((prop) => (
+              <PatchPropertyItem
+                key={prop.id}
+                prop={prop}
+                isEditing={editingId === prop.id}
+                onStartEdit={() => setEditingId(prop.id)}
+                onEndEdit={() => setEditingId(null)}
+                onUpdate={(changes) => updateProperty(prop.id, changes)}
+                onRemove={() => setPatches({
+                  properties: patches.properties.filter((p) => p.id !== prop.id),
+                })}
+              />
+            ))
+          )}
+        </div>
+
+        {/* Signals */}
+        <div className="space-y-3">
+          <SectionHeader title="Signals" onAdd={handleAddSignal} />
+          {signals.length === 0 ? (
+            <p className="text-gray-500 text-sm">
+              Trails agents emit and follow, like ant pheromones, that spread and fade.
+            </p>
+          ) : (
+            signals.map((signal) => (
+              <SignalItem
+                key={signal.id}
+                signal={signal}
+                isEditing={editingId === signal.id}
+                onStartEdit={() => setEditingId(signal.id)}
+                onEndEdit={() => setEditingId(null)}
+                onUpdate={(changes) => updateSignal(signal.id, changes)}
+                onRemove={() => setPatches({
+                  signals: signals.filter((s) => s.id !== signal.id),
+                })}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </Accordion>
+  );
+}
+
+// ============================================================================
+// SectionHeader
+// ============================================================================
+
+function SectionHeader({ title, onAdd }: { title: string; onAdd: () => void }) {
+  return (
+    <div className="flex items-center justify-between">
+      <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wide">{title}</h4>
+      <button
+        onClick={onAdd}
+        className="text-xs px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-300"
+      >
+        + Add
+      </button>
+    </div>
+  );
+}
+
+// ============================================================================
+// PatchPropertyItem
+// ============================================================================
+
+interface PatchPropertyItemProps {
+  prop: PatchPropertyDef;
+  isEditing: boolean;
+  onStartEdit: () => void;
+  onEndEdit: () => void;
+  onUpdate: (changes: Partial<PatchPropertyDef>) => void;
+  onRemove: () => void;
+}
+
+function PatchPropertyItem({
+  prop,
+  isEditing,
+  onStartEdit,
+  onEndEdit,
+  onUpdate,
+  onRemove,
+}: PatchPropertyItemProps) {
+  const [showConfig, setShowConfig] = useState(false);
+
+  const parseOptional = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-3 group">
+      {/* Header row: color + name + config + delete */}
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={prop.color ?? '#3a7d44'}
+          onChange={(e) => onUpdate({ color: e.target.value })}
+          disabled={!prop.color}
+          className="w-6 h-6 rounded cursor-pointer bg-transparent disabled:opacity-30"
+          title="Color on the canvas"
+        />
+
+        {isEditing ? (
+          <input
+            type="text"
+            value={prop.name}
+            onChange={(e) => onUpdate({ name: e.target.value })}
+            onBlur={onEndEdit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === 'Escape') onEndEdit();
+            }}
+            autoFocus
+            className="flex-1 bg-gray-700 border border-blue-500 rounded px-2 py-1 text-sm focus:outline-none"
+          />
+        ) : (
+          <span
+            className="flex-1 font-medium text-sm cursor-pointer hover:text-blue-400"
+            onDoubleClick={onStartEdit}
+            title="Double-click to rename"
+          >
+            {prop.name}
+          </span>
+        )}
+
+        <button
+          onClick={() => setShowConfig(!showConfig)}
+          className={`px-1.5 py-0.5 rounded text-xs transition ${
+            showConfig ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'
+          }`}
+          title="Configure"
+        >
+          {showConfig ? 'Done' : 'Edit'}
+        </button>
+
+        <button
+          onClick={onRemove}
+          className="opacity-0 group-hover:opacity-100 p-1 text-gray-500 hover:text-red-400 transition"
+          title="Remove"
+        >
+          ×
+        </button>
+      </div>
+
+      {showConfig && (
+        <div className="mt-3 pt-3 border-t border-gray-700 space-y-2">
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-400 w-16">Default</label>
+            <input
+              type="number"
+              value={prop.defaultValue}
+              onChange={(e) => onUpdate({ defaultValue: parseFloat(e.target.value) || 0 })}
+              className={fieldClass}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-400 w-16">Range</label>
+            <input
+              type="number"
+              value={prop.min ?? ''}
+              onChange={(e) => onUpdate({ min: parseOptional(e.target.value) })}
+              placeholder="min"
+              title="Min"
+              className={fieldClass}
+            />
+            <span className="text-gray-500">–</span>
+            <input
+              type="number"
+              value={prop.max ?? ''}
+              onChange={(e) => onUpdate({ max: parseOptional(e.target.value) })}
+              placeholder="max"
+              title="Max"
+              className={fieldClass}
+            />
+          </div>
+
+          <InitialValueEditor
+            property={{ ...prop, type: 'number' }}
+            onChange={(initial) => onUpdate({ initial })}
+          />
+
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-400 w-16">Regrowth</label>
+            <input
+              type="number"
+              value={prop.regrowth ?? 0}
+              onChange={(e) => onUpdate({ regrowth: parseFloat(e.target.value) || 0 })}
+              step={0.1}
+              title="Added to every cell each tick (negative values decay)"
+              className={fieldClass}
+            />
+            <select
+              value={prop.regrowTo ?? 'max'}
+              onChange={(e) => onUpdate({ regrowTo: e.target.value as PatchPropertyDef['regrowTo'] })}
+              title="Regrow up to"
+              className={fieldClass}
+            >
+              <option value="max">up to max</option>
+              <option value="initial">up to initial</option>
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!prop.color}
+              onChange={(e) => onUpdate({ color: e.target.checked ? '#3a7d44' : undefined })}
+              className="accent-blue-500"
+            />
+            <span className="text-xs text-gray-400">Draw on canvas (shaded by value / max)</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// SignalItem
+// ============================================================================
+
+interface SignalItemProps {
+  signal: SignalDef;
+  isEditing: boolean;
+  onStartEdit: () => void;
+  onEndEdit: () => void;
+  onUpdate: (changes: Partial<SignalDef>) => void;
+  onRemove: () => void;
+}
+
+function SignalItem({
+  signal,
+  isEditing,
+  onStartEdit,
+  onEndEdit,
+  onUpdate,
+  onRemove,
+}: SignalItemProps) {
+  const [showConfig, setShowConfig] = useState(false);
+
+  // Rates are fractions of the cell's value per tick
+  const parseRate = (value: string) => Math.min(Math.max(parseFloat(value) || 0, 0), 1);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-3 group">
+      {/* Header row: color + name + config + delete */}
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={signal.color ?? '#c026d3'}
+          onChange={(e) => onUpdate({ color: e.target.value })}
+          disabled={!signal.color}
+          className="w-6 h-6 rounded cursor-pointer bg-transparent disabled:opacity-30"
+          title="Color on the canvas"
+        />
+
+        {isEditing ? (
+          <input
+            type="text"
+            value={signal.name}
+            onChange={(e) => onUpdate({ name: e.target.value })}
+            onBlur={onEndEdit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === 'Escape') onEndEdit();
+            }}
+            autoFocus
+            className="flex-1 bg-gray-700 border border-blue-500 rounded px-2 py-1 text-sm focus:outline-none"
+          />
+        ) : (
+          <span
+            className="flex-1 font-medium text-sm cursor-pointer hover:text-blue-400"
+            onDoubleClick={onStartEdit}
+            title="Double-click to rename"
+          >
+            {signal.name}
+          </span>
+        )}
+
+        <button
+          onClick={() => setShowConfig(!showConfig)}
+          className={`px-1.5 py-0.5 rounded text-xs transition ${
+            showConfig ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'
+          }`}
+          title="Configure"
+        >
+          {showConfig ? 'Done' : 'Edit'}
+        </button>
+
+        <button
+          onClick={onRemove}
+          className="opacity-0 group-hover:opacity-100 p-1 text-gray-500 hover:text-red-400 transition"
+          title="Remove"
+        >
+          ×
+        </button>
+      </div>
+
+      {showConfig && (
+        <div className="mt-3 pt-3 border-t border-gray-700 space-y-2">
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-400 w-16">Diffusion</label>
+            <input
+              type="number"
+              value={signal.diffusion}
+              onChange={(e) => onUpdate({ diffusion: parseRate(e.target.value) })}
+              min={0}
+              max={1}
+              step={0.05}
+              title="Fraction spread to the 8 neighbouring cells each tick"
+              className={fieldClass}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-400 w-16">Decay</label>
+            <input
+              type="number"
+              value={signal.decay}
+              onChange={(e) => onUpdate({ decay: parseRate(e.target.value) })}
+              min={0}
+              max={1}
+              step={0.01}
+              title="Fraction that evaporates each tick"
+              className={fieldClass}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!signal.color}
+              onChange={(e) => onUpdate({ color: e.target.checked ? '#c026d3' : undefined })}
+              className="accent-blue-500"
+            />
+            <span className="text-xs text-gray-400">Draw on canvas</span>
+          </label>
+
+          {signal.color && (
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-gray-400 w-16">Full at</label>
+              <input
+                type="number"
+                value={signal.max ?? 1}
+                onChange={(e) => onUpdate({ max: parseFloat(e.target.value) || 1 })}
+                min={0}
+                step={0.5}
+                title="Signal strength drawn at full color"
+                className={fieldClass}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
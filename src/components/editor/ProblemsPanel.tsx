@@ -0,0 +1,211 @@
+'use client';
+
+/**
+ * ProblemsPanel
+ *
+ * Accordion section listing what's wrong with the model (see validation):
+ * references to deleted agent types, parameters and properties, and
+ * settings left empty. Clicking a problem opens the agent type or chart it
+ * is in; problems with a quick fix get a button that applies it.
+ */
+
+import { useMemo } from 'react';
+import { nanoid } from 'nanoid';
+import { useModelStore } from '@/stores/model';
+import { useSimulationStore } from '@/stores/simulation';
+import { useEditStore } from '@/stores/edit';
+import { Accordion } from '@/components/ui/Accordion';
+import { lintModel, type Diagnostic, type QuickFix } from '@/lib/flocc/validation';
+import type { StudioModel } from '@/types';
+
+interface ProblemsPanelProps {
+  onSelectAgent: (id: string | null) => void;
+  onSelectVisualization: (id: string | null) => void;
+}
+
+export function ProblemsPanel({ onSelectAgent, onSelectVisualization }: ProblemsPanelProps) {
+  const model = useModelStore((s) => s.model);
+  const setActiveAccordion = useEditStore((s) => s.setActiveAccordion);
+  const applyFix = useApplyQuickFix();
+
+  // Errors from the simulation that no behavior card shows
+  const simulationError = useSimulationStore((s) =>
+    s.error && !s.error.behaviorId ? s.error.message : null
+  );
+
+  const diagnostics = useMemo(() => (model ? lintModel(model) : []), [model]);
+
+  if (!model) return null;
+
+  const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+
+  const handleSelect = (diagnostic: Diagnostic) => {
+    const { agentTypeId, populationId, visualizationId } = diagnostic.location;
+    if (agentTypeId) {
+      setActiveAccordion('Agent Types');
+      onSelectAgent(agentTypeId);
+    } else if (populationId) {
+      setActiveAccordion('Agent Types');
+    } else if (visualizationId) {
+      setActiveAccordion('Visualizations');
+      onSelectVisualization(visualizationId);
+    }
+  };
+
+  return (
+    <Accordion
+      title="Problems"
+      badge={diagnostics.length}
+      badgeTone={errorCount > 0 ? 'error' : 'warning'}
+    >
+      <div className="space-y-2">
+        {errorCount > 0 && (
+          <p className="text-xs text-red-400">
+            The simulation won&apos;t run until the errors below are fixed.
+          </p>
+        )}
+        {simulationError && errorCount === 0 && (
+          <p className="text-xs text-red-400 break-words">Simulation stopped: {simulationError}</p>
+        )}
+
+        {diagnostics.length === 0 ? (
+          <p className="text-xs text-gray-500">No problems found</p>
+        ) : (
+          diagnostics.map((diagnostic, i) => (
+            <div
+              key={i}
+              onClick={() => handleSelect(diagnostic)}
+              className="bg-gray-800 rounded px-3 py-2 cursor-pointer hover:bg-gray-700/70 transition"
+            >
+              <div className="flex items-start gap-2">
+                <SeverityIcon severity={diagnostic.severity} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-gray-300 break-words">{diagnostic.message}</p>
+                  <p className="text-xs text-gray-500 mt-0.5">{describeLocation(model, diagnostic)}</p>
+                </div>
+              </div>
+              {diagnostic.fix && (
+                <QuickFixButton fix={diagnostic.fix} onApply={applyFix} className="mt-2 ml-5" />
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </Accordion>
+  );
+}
+
+// ============================================================================
+// Shared Pieces
+// ============================================================================
+
+export function SeverityIcon({ severity }: { severity: Diagnostic['severity'] }) {
+  return severity === 'error' ? (
+    <span className="text-red-400 text-xs leading-4" title="Error">●</span>
+  ) : (
+    <span className="text-yellow-400 text-xs leading-4" title="Warning">▲</span>
+  );
+}
+
+interface QuickFixButtonProps {
+  fix: QuickFix;
+  onApply: (fix: QuickFix) => void;
+  className?: string;
+}
+
+export function QuickFixButton({ fix, onApply, className = '' }: QuickFixButtonProps) {
+  return (
+    <button
+      onClick={(e) => {
+        // Don't also select the problem's location
+        e.stopPropagation();
+        onApply(fix);
+      }}
+      className={`text-xs px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-blue-300 ${className}`}
+    >
+      {fix.label}
+    </button>
+  );
+}
+
+/**
+ * Apply a quick fix to the model
+ */
+export function useApplyQuickFix(): (fix: QuickFix) => void {
+  const updateBehavior = useModelStore((s) => s.updateBehavior);
+  const removeBehavior = useModelStore((s) => s.removeBehavior);
+  const updateAgentType = useModelStore((s) => s.updateAgentType);
+  const addParameter = useModelStore((s) => s.addParameter);
+  const removePopulation = useModelStore((s) => s.removePopulation);
+  const removeSeries = useModelStore((s) => s.removeSeries);
+
+  return (fix: QuickFix) => {
+    // Read the latest model so fixes applied in a row don't undo each other
+    const model = useModelStore.getState().model;
+    if (!model) return;
+
+    switch (fix.type) {
+      case 'update-behavior':
+        updateBehavior(fix.agentTypeId, fix.behaviorId, fix.changes);
+        break;
+      case 'remove-behavior':
+        removeBehavior(fix.agentTypeId, fix.behaviorId);
+        break;
+      case 'add-property': {
+        const agentType = model.agentTypes.find((t) => t.id === fix.agentTypeId);
+        if (!agentType || agentType.properties.some((p) => p.name === fix.name)) return;
+        updateAgentType(agentType.id, {
+          properties: [
+            ...agentType.properties,
+            { id: nanoid(), name: fix.name, type: 'number', defaultValue: 0 },
+          ],
+        });
+        break;
+      }
+      case 'update-property': {
+        const agentType = model.agentTypes.find((t) => t.id === fix.agentTypeId);
+        if (!agentType) return;
+        updateAgentType(agentType.id, {
+          properties: agentType.properties.map((p) =>
+            p.id === fix.propertyId ? { ...p, ...fix.changes } : p
+          ),
+        });
+        break;
+      }
+      case 'add-parameter':
+        if (model.parameters.some((p) => p.name === fix.name)) return;
+        addParameter({
+          id: nanoid(),
+          name: fix.name,
+          type: typeof fix.value === 'boolean' ? 'boolean' : 'number',
+          value: fix.value,
+        });
+        break;
+      case 'remove-population':
+        removePopulation(fix.populationId);
+        break;
+      case 'remove-series':
+        removeSeries(fix.visualizationId, fix.seriesId);
+        break;
+    }
+  };
+}
+
+/**
+ * Where a problem is, for display: "Sheep", "Populations chart", ...
+ */
+function describeLocation(model: StudioModel, diagnostic: Diagnostic): string {
+  const { agentTypeId, propertyId, populationId, visualizationId } = diagnostic.location;
+
+  if (agentTypeId) {
+    const agentType = model.agentTypes.find((t) => t.id === agentTypeId);
+    const prop = agentType?.properties.find((p) => p.id === propertyId);
+    return [agentType?.name ?? 'Unknown type', prop?.name].filter(Boolean).join(' › ');
+  }
+  if (populationId) return 'Populations';
+  if (visualizationId) {
+    const viz = model.visualizations.find((v) => v.id === visualizationId);
+    return viz ? `${viz.name} chart` : 'Charts';
+  }
+  return 'Model';
+}
@@ -9,19 +9,27 @@
 import { useState } from 'react';
 import { nanoid } from 'nanoid';
 import { useModelStore } from '@/stores/model';
-import type { AgentType, PropertyDef } from '@/types';
+import { DEFAULT_MUTATION } from '@/lib/flocc/compiler';
+import { findPropertyUses, describeUses, isIdentifier } from '@/lib/flocc/references';
+import type { AgentType, InheritanceMode, PropertyDef, PropertyInitializer } from '@/types';
+import { NameInput } from './NameInput';
 
 interface PropertyBuilderProps {
   agentType: AgentType;
 }
 
 export function PropertyBuilder({ agentType }: PropertyBuilderProps) {
+  const model = useModelStore((s) => s.model);
   const updateAgentType = useModelStore((s) => s.updateAgentType);
+  const renameProperty = useModelStore((s) => s.renameProperty);
   const [isAdding, setIsAdding] = useState(false);
   const [newPropName, setNewPropName] = useState('');
 
+  // Expressions refer to properties by name, so it has to be an identifier
+  const canAdd = isIdentifier(newPropName.trim());
+
   const addProperty = () => {
-    if (!newPropName.trim()) return;
+    if (!canAdd) return;
     
     const newProp: PropertyDef = {
       id: nanoid(),
@@ -46,9 +54,11 @@ export function PropertyBuilder({ agentType }: PropertyBuilderProps) {
     });
   };
 
-  const removeProperty = (propId: string) => {
+  const removeProperty = (prop: PropertyDef, usage: string | null) => {
+    // Deleting a property that's in use breaks whatever uses it, so ask first
+    if (usage && !confirm(`Delete "${prop.name}"? ${usage}, which will stop working.`)) return;
     updateAgentType(agentType.id, {
-      properties: agentType.properties.filter((p) => p.id !== propId),
+      properties: agentType.properties.filter((p) => p.id !== prop.id),
     });
   };
 
@@ -63,14 +73,20 @@ export function PropertyBuilder({ agentType }: PropertyBuilderProps) {
         {agentType.properties.length === 0 && !isAdding ? (
           <p className="text-xs text-gray-500">No custom properties</p>
         ) : (
-          agentType.properties.map((prop) => (
-            <PropertyCard
-              key={prop.id}
-              property={prop}
-              onUpdate={(changes) => updateProperty(prop.id, changes)}
-              onRemove={() => removeProperty(prop.id)}
-            />
-          ))
+          agentType.properties.map((prop) => {
+            const usage = model && describeUses(findPropertyUses(model, agentType.id, prop.name));
+            return (
+              <PropertyCard
+                key={prop.id}
+                property={prop}
+                usage={usage ?? null}
+                isNameTaken={(name) => agentType.properties.some((p) => p.id !== prop.id && p.name === name)}
+                onUpdate={(changes) => updateProperty(prop.id, changes)}
+                onRename={(name) => renameProperty(agentType.id, prop.id, name)}
+                onRemove={() => removeProperty(prop, usage ?? null)}
+              />
+            );
+          })
         )}
       </div>
 
@@ -89,12 +105,13 @@ export function PropertyBuilder({ agentType }: PropertyBuilderProps) {
               }
             }}
             placeholder="Property name..."
+            title={newPropName.trim() && !canAdd ? 'Use letters, digits and _ only, not starting with a digit' : undefined}
             className="flex-1 bg-gray-700 border border-gray-600 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-blue-500"
             autoFocus
           />
           <button
             onClick={addProperty}
-            disabled={!newPropName.trim()}
+            disabled={!canAdd}
             className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed rounded text-sm transition"
           >
             Add
@@ -127,20 +144,25 @@ export function PropertyBuilder({ agentType }: PropertyBuilderProps) {
 
 interface PropertyCardProps {
   property: PropertyDef;
+  /** What refers to the property, e.g. "Used by 2 behaviors" */
+  usage: string | null;
+  isNameTaken: (name: string) => boolean;
   onUpdate: (changes: Partial<PropertyDef>) => void;
+  onRename: (name: string) => void;
   onRemove: () => void;
 }
 
-function PropertyCard({ property, onUpdate, onRemove }: PropertyCardProps) {
+function PropertyCard({ property, usage, isNameTaken, onUpdate, onRename, onRemove }: PropertyCardProps) {
   return (
     <div className="bg-gray-800 rounded-lg p-3 group">
       <div className="flex items-center justify-between mb-2">
-        <input
-          type="text"
+        <NameInput
           value={property.name}
-          onChange={(e) => onUpdate({ name: e.target.value })}
+          onRename={onRename}
+          isTaken={isNameTaken}
           className="text-sm font-medium bg-transparent border-none focus:outline-none focus:bg-gray-700 px-1 -ml-1 rounded"
         />
+        {usage && <span className="text-xs text-gray-500 ml-auto mr-2 truncate">{usage}</span>}
         <button
           onClick={onRemove}
           className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400 transition text-sm"
@@ -158,6 +180,10 @@ function PropertyCard({ property, onUpdate, onRemove }: PropertyCardProps) {
             onChange={(e) => onUpdate({ 
               type: e.target.value as 'number' | 'boolean',
               defaultValue: e.target.value === 'number' ? 0 : false,
+              initial: undefined,
+              // Mutate and split only apply to numbers
+              inheritance: property.inheritance === 'copy' ? 'copy' : undefined,
+              mutation: undefined,
             })}
             className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
           >
@@ -186,6 +212,12 @@ function PropertyCard({ property, onUpdate, onRemove }: PropertyCardProps) {
           )}
         </div>
 
+        {/* Per-agent initial value */}
+        <InitialValueEditor
+          property={property}
+          onChange={(initial) => onUpdate({ initial })}
+        />
+
         {/* Min/Max for numbers */}
         {property.type === 'number' && (
           <div className="flex items-center gap-2">
@@ -207,7 +239,240 @@ function PropertyCard({ property, onUpdate, onRemove }: PropertyCardProps) {
             />
           </div>
         )}
+
+        {/* What reproduced children get */}
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-gray-400 w-16">Offspring</label>
+          <select
+            value={property.inheritance ?? 'default'}
+            onChange={(e) => {
+              const inheritance = e.target.value as InheritanceMode;
+              onUpdate({
+                inheritance: inheritance === 'default' ? undefined : inheritance,
+                mutation: inheritance === 'mutate' ? property.mutation ?? DEFAULT_MUTATION : undefined,
+              });
+            }}
+            title="Value a child gets from the Reproduce behavior"
+            className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+          >
+            <option value="default">Start fresh</option>
+            <option value="copy">Copy parent</option>
+            {property.type === 'number' && <option value="mutate">Copy with mutation</option>}
+            {property.type === 'number' && <option value="split">Split with parent</option>}
+          </select>
+        </div>
+
+        {property.inheritance === 'mutate' && (
+          <div className="flex items-center gap-2 pl-[72px]">
+            <span className="text-xs text-gray-500">σ</span>
+            <input
+              type="number"
+              value={property.mutation ?? DEFAULT_MUTATION}
+              onChange={(e) => onUpdate({ mutation: Math.max(0, parseFloat(e.target.value) || 0) })}
+              min={0}
+              step={0.01}
+              title="Standard deviation of the change from the parent's value"
+              className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+            />
+          </div>
+        )}
       </div>
     </div>
   );
 }
+
+// ============================================================================
+// InitialValueEditor
+// ============================================================================
+
+interface InitialValueEditorProps {
+  property: PropertyDef;
+  onChange: (initial: PropertyInitializer | undefined) => void;
+}
+
+const fieldClass =
+  'flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500';
+
+/**
+ * Choose how each agent's starting value is drawn
+ */
+export function InitialValueEditor({ property, onChange }: InitialValueEditorProps) {
+  const parameters = useModelStore((s) => s.model?.parameters ?? []);
+  const initial = property.initial;
+  const isNumber = property.type === 'number';
+
+  const changeMode = (mode: string) => {
+    const base = isNumber ? Number(property.defaultValue) || 0 : !!property.defaultValue;
+
+    switch (mode) {
+      case 'uniform':
+        onChange({ type: 'uniform', min: property.min ?? 0, max: property.max ?? 100 });
+        break;
+      case 'normal':
+        onChange({ type: 'normal', mean: base as number, sd: 1 });
+        break;
+      case 'choice':
+        onChange({
+          type: 'choice',
+          options: isNumber
+            ? [{ value: base, weight: 1 }]
+            : [{ value: true, weight: 1 }, { value: false, weight: 1 }],
+        });
+        break;
+      case 'parameter':
+        onChange({ type: 'parameter', parameter: parameters[0]?.name ?? '' });
+        break;
+      default:
+        onChange(undefined);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <label className="text-xs text-gray-400 w-16">Initial</label>
+        <select
+          value={initial?.type ?? 'default'}
+          onChange={(e) => changeMode(e.target.value)}
+          className={fieldClass}
+        >
+          <option value="default">Default value</option>
+          {isNumber && <option value="uniform">Uniform range</option>}
+          {isNumber && <option value="normal">Normal (bell curve)</option>}
+          <option value="choice">Weighted choice</option>
+          <option value="parameter">From parameter</option>
+        </select>
+      </div>
+
+      {initial?.type === 'uniform' && (
+        <div className="flex items-center gap-2 pl-[72px]">
+          <input
+            type="number"
+            value={initial.min}
+            onChange={(e) => onChange({ ...initial, min: parseFloat(e.target.value) || 0 })}
+            title="Min"
+            className={fieldClass}
+          />
+          <span className="text-gray-500">–</span>
+          <input
+            type="number"
+            value={initial.max}
+            onChange={(e) => onChange({ ...initial, max: parseFloat(e.target.value) || 0 })}
+            title="Max"
+            className={fieldClass}
+          />
+        </div>
+      )}
+
+      {initial?.type === 'normal' && (
+        <div className="flex items-center gap-2 pl-[72px]">
+          <span className="text-xs text-gray-500">μ</span>
+          <input
+            type="number"
+            value={initial.mean}
+            onChange={(e) => onChange({ ...initial, mean: parseFloat(e.target.value) || 0 })}
+            title="Mean"
+            className={fieldClass}
+          />
+          <span className="text-xs text-gray-500">σ</span>
+          <input
+            type="number"
+            value={initial.sd}
+            onChange={(e) => onChange({ ...initial, sd: Math.max(0, parseFloat(e.target.value) || 0) })}
+            min={0}
+            title="Standard deviation"
+            className={fieldClass}
+          />
+        </div>
+      )}
+
+      {initial?.type === 'choice' && (
+        <div className="space-y-1 pl-[72px]">
+          {initial.options.map((option, i) => (
+            <div key={i} className="flex items-center gap-2">
+              {isNumber ? (
+                <input
+                  type="number"
+                  value={Number(option.value)}
+                  onChange={(e) => onChange({
+                    ...initial,
+                    options: initial.options.map((o, j) =>
+                      j === i ? { ...o, value: parseFloat(e.target.value) || 0 } : o
+                    ),
+                  })}
+                  title="Value"
+                  className={fieldClass}
+                />
+              ) : (
+                <select
+                  value={String(option.value)}
+                  onChange={(e) => onChange({
+                    ...initial,
+                    options: initial.options.map((o, j) =>
+                      j === i ? { ...o, value: e.target.value === 'true' } : o
+                    ),
+                  })}
+                  className={fieldClass}
+                >
+                  <option value="true">true</option>
+                  <option value="false">false</option>
+                </select>
+              )}
+              <span className="text-xs text-gray-500">×</span>
+              <input
+                type="number"
+                value={option.weight}
+                onChange={(e) => onChange({
+                  ...initial,
+                  options: initial.options.map((o, j) =>
+                    j === i ? { ...o, weight: Math.max(0, parseFloat(e.target.value) || 0) } : o
+                  ),
+                })}
+                min={0}
+                title="Weight"
+                className="w-14 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+              />
+              <button
+                onClick={() => onChange({
+                  ...initial,
+                  options: initial.options.filter((_, j) => j !== i),
+                })}
+                disabled={initial.options.length <= 1}
+                className="text-gray-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-500 text-sm"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => onChange({
+              ...initial,
+              options: [...initial.options, { value: isNumber ? 0 : true, weight: 1 }],
+            })}
+            className="text-xs text-blue-400 hover:text-blue-300"
+          >
+            + Add option
+          </button>
+        </div>
+      )}
+
+      {initial?.type === 'parameter' && (
+        <div className="flex items-center gap-2 pl-[72px]">
+          {parameters.length === 0 ? (
+            <p className="text-xs text-gray-500">Add a parameter to the model first</p>
+          ) : (
+            <select
+              value={initial.parameter}
+              onChange={(e) => onChange({ type: 'parameter', parameter: e.target.value })}
+              className={fieldClass}
+            >
+              {parameters.map((p) => (
+                <option key={p.id} value={p.name}>${p.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -3,12 +3,14 @@
 /**
  * PropertyPanel
  * 
- * Sliding panel for editing the selected agent type's properties and behaviors.
+ * Sliding panel for editing the selected agent type's properties, steering
+ * and behaviors.
  */
 
 import { useModelStore } from '@/stores/model';
 import { BehaviorBuilder } from './BehaviorBuilder';
 import { PropertyBuilder } from './PropertyBuilder';
+import { SteeringEditor } from './SteeringEditor';
 
 const COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6', '#ec4899', '#ffffff'];
 const SHAPES = [
@@ -97,6 +99,12 @@ export function PropertyPanel({ selectedAgentId }: PropertyPanelProps) {
       {/* Divider */}
       <div className="border-t border-gray-700 my-4" />
 
+      {/* Kinematics */}
+      <SteeringEditor agentType={agentType} />
+
+      {/* Divider */}
+      <div className="border-t border-gray-700 my-4" />
+
       {/* Behaviors */}
       <BehaviorBuilder agentType={agentType} />
     </div>
@@ -0,0 +1,59 @@
+'use client';
+
+/**
+ * SteeringEditor
+ *
+ * Kinematics settings for an agent type. Movement and flocking behaviors
+ * nudge the agent's velocity within these limits; it never moves directly.
+ */
+
+import { useModelStore } from '@/stores/model';
+import type { AgentType, Kinematics } from '@/types';
+
+interface SteeringEditorProps {
+  agentType: AgentType;
+}
+
+const FIELDS: { key: keyof Kinematics; label: string; step: number; max?: number; title: string }[] = [
+  { key: 'maxSpeed', label: 'Max speed', step: 0.1, title: 'Fastest the agent can move, in pixels per tick' },
+  { key: 'maxForce', label: 'Max force', step: 0.01, title: 'Largest change in velocity per tick; lower turns more smoothly' },
+  { key: 'drag', label: 'Drag', step: 0.01, max: 1, title: 'Fraction of velocity lost each tick' },
+];
+
+export function SteeringEditor({ agentType }: SteeringEditorProps) {
+  const updateAgentType = useModelStore((s) => s.updateAgentType);
+  const kinematics = agentType.kinematics;
+
+  const setField = (key: keyof Kinematics, value: number) => {
+    updateAgentType(agentType.id, { kinematics: { ...kinematics, [key]: value } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-gray-400">Steering</h3>
+      <div className="bg-gray-800 rounded-lg p-3 space-y-2">
+        {FIELDS.map((field) => (
+          <div key={field.key} className="flex items-center gap-2">
+            <label className="text-xs text-gray-400 w-20">{field.label}</label>
+            <input
+              type="number"
+              value={kinematics[field.key]}
+              onChange={(e) => {
+                const value = Math.max(0, parseFloat(e.target.value) || 0);
+                setField(field.key, field.max !== undefined ? Math.min(value, field.max) : value);
+              }}
+              min={0}
+              max={field.max}
+              step={field.step}
+              title={field.title}
+              className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+            />
+          </div>
+        ))}
+        <p className="text-xs text-gray-500">
+          Movement and flocking behaviors steer the velocity; the agent moves once per tick.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+/**
+ * TagInput
+ *
+ * Chips for a model's tags plus a text field that suggests tags already in
+ * use. Enter or comma adds the typed tag, Backspace in an empty field
+ * removes the last one, arrow keys move through the suggestions.
+ */
+
+import { useState, useEffect } from 'react';
+import { listTags } from '@/lib/api/tags';
+import { normalizeTag, MAX_TAGS } from '@/lib/model/tags';
+import type { TagCount } from '@/types';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export function TagInput({ tags, onChange }: TagInputProps) {
+  const [text, setText] = useState('');
+  const [suggestions, setSuggestions] = useState<TagCount[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const query = normalizeTag(text);
+  const shown = query ? suggestions : [];
+
+  // Suggest tags starting with what's typed, after a short pause
+  useEffect(() => {
+    if (!query) return;
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const result = await listTags({ query, limit: 8 });
+      if (!cancelled) {
+        setSuggestions(result.filter((t) => !tags.includes(t.name)));
+        setHighlighted(0);
+      }
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, tags]);
+
+  const addTag = (name: string) => {
+    const tag = normalizeTag(name);
+    if (tag && !tags.includes(tag) && tags.length < MAX_TAGS) {
+      onChange([...tags, tag]);
+    }
+    setText('');
+    setSuggestions([]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(shown[highlighted]?.name ?? text);
+    } else if (e.key === 'Backspace' && text === '' && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === 'ArrowDown' && shown.length > 0) {
+      e.preventDefault();
+      setHighlighted((i) => (i + 1) % shown.length);
+    } else if (e.key === 'ArrowUp' && shown.length > 0) {
+      e.preventDefault();
+      setHighlighted((i) => (i - 1 + shown.length) % shown.length);
+    } else if (e.key === 'Escape' && shown.length > 0) {
+      // Close the suggestions, not the dropdown around this
+      e.stopPropagation();
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap gap-1 bg-gray-800 border border-gray-700 rounded px-2 py-1.5 focus-within:border-blue-500">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 text-xs px-1.5 py-0.5 rounded bg-gray-700 text-gray-200"
+          >
+            {tag}
+            <button
+              onClick={() => removeTag(tag)}
+              className="text-gray-400 hover:text-white"
+              title={`Remove ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {tags.length < MAX_TAGS && (
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setSuggestions([])}
+            placeholder={tags.length === 0 ? 'ecology, epidemiology…' : ''}
+            className="flex-1 min-w-[4rem] bg-transparent text-xs text-white placeholder-gray-500 focus:outline-none"
+          />
+        )}
+      </div>
+
+      {shown.length > 0 && (
+        <div className="absolute left-0 right-0 top-full mt-1 bg-gray-800 border border-gray-700 rounded shadow-lg z-10 py-1">
+          {shown.map((suggestion, i) => (
+            <button
+              key={suggestion.name}
+              // Before the input's blur hides the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(suggestion.name);
+              }}
+              className={`w-full flex items-center justify-between px-2 py-1 text-xs text-left ${
+                i === highlighted ? 'bg-gray-700 text-white' : 'text-gray-300'
+              }`}
+            >
+              <span>{suggestion.name}</span>
+              <span className="text-gray-500">{suggestion.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
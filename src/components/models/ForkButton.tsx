@@ -0,0 +1,66 @@
+'use client';
+
+/**
+ * ForkButton
+ *
+ * Copies a model and opens the copy in the editor. Signed-in users get a
+ * fork in their account; anyone else gets a scratch copy kept in the
+ * browser, which becomes a fork once they sign in and save it.
+ */
+
+import { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useModelStore, createScratchFork } from '@/stores/model';
+import { forkModel } from '@/lib/api/models';
+import { saveScratch } from '@/lib/model/scratch';
+import type { StudioModel } from '@/types';
+
+interface ForkButtonProps {
+  model: StudioModel;
+  className?: string;
+}
+
+export function ForkButton({ model, className = '' }: ForkButtonProps) {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const setModel = useModelStore((s) => s.setModel);
+
+  const [isForking, setIsForking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFork = async () => {
+    if (!session?.user) {
+      const scratch = createScratchFork(model);
+      saveScratch(scratch);
+      setModel(scratch);
+      router.push('/model/new/edit');
+      return;
+    }
+
+    setIsForking(true);
+    setError(null);
+    const result = await forkModel(model.id);
+
+    if (result.success && result.model) {
+      router.push(`/model/${result.model.id}/edit`);
+    } else {
+      setIsForking(false);
+      setError(result.error ?? 'Failed to fork');
+    }
+  };
+
+  return (
+    <>
+      {error && <span className="text-red-400 text-sm">{error}</span>}
+      <button
+        onClick={handleFork}
+        disabled={isForking}
+        title={session?.user ? 'Copy this model to your account' : 'Edit a copy of this model (sign in to save it)'}
+        className={`bg-gray-800 hover:bg-gray-700 disabled:opacity-50 px-4 py-2 rounded-lg transition ${className}`}
+      >
+        {isForking ? 'Forking...' : 'Fork'}
+      </button>
+    </>
+  );
+}
@@ -10,15 +10,20 @@
 import Link from 'next/link';
 import type { StudioModel } from '@/types';
 
+const TAG_CHIP =
+  'text-xs px-1.5 py-0.5 rounded bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-white transition';
+
 interface ModelCardProps {
   model: StudioModel;
   /** Show owner-only actions (Edit / Delete) */
   showActions?: boolean;
   onDelete?: (id: string, name: string) => void;
   isDeleting?: boolean;
+  /** Handle tag clicks in place (Explore) instead of linking to Explore */
+  onSelectTag?: (tag: string) => void;
 }
 
-export function ModelCard({ model, showActions = false, onDelete, isDeleting }: ModelCardProps) {
+export function ModelCard({ model, showActions = false, onDelete, isDeleting, onSelectTag }: ModelCardProps) {
   const agentCount = model.agentTypes?.length ?? 0;
   const updatedAt = model.updatedAt
     ? new Date(model.updatedAt).toLocaleDateString()
@@ -55,6 +60,22 @@ export function ModelCard({ model, showActions = false, onDelete, isDeleting }:
           </p>
         )}
 
+        {model.tags?.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {model.tags.map((tag) =>
+              onSelectTag ? (
+                <button key={tag} onClick={() => onSelectTag(tag)} className={TAG_CHIP}>
+                  {tag}
+                </button>
+              ) : (
+                <Link key={tag} href={`/explore?tag=${encodeURIComponent(tag)}`} className={TAG_CHIP}>
+                  {tag}
+                </Link>
+              )
+            )}
+          </div>
+        )}
+
         <div className="text-xs text-gray-600 mt-auto">
           {agentCount} agent type{agentCount !== 1 ? 's' : ''}
           {updatedAt && <> · {updatedAt}</>}
@@ -10,15 +10,19 @@
 import { useRef, useEffect } from 'react';
 import { useModelStore } from '@/stores/model';
 import { useSimulationStore } from '@/stores/simulation';
+import type { StudioModel } from '@/types';
 
 interface CanvasProps {
   onContainerReady?: (container: HTMLDivElement) => void;
+  /** The model being run, when it isn't the one in the model store */
+  model?: StudioModel | null;
 }
 
-export function Canvas({ onContainerReady }: CanvasProps) {
+export function Canvas({ onContainerReady, model: modelProp }: CanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   
-  const model = useModelStore((s) => s.model);
+  const storeModel = useModelStore((s) => s.model);
+  const model = modelProp ?? storeModel;
   const status = useSimulationStore((s) => s.status);
   const agentCount = useSimulationStore((s) => s.agentCount);
 
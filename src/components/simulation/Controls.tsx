@@ -17,6 +17,7 @@ export function Controls({ onReset }: ControlsProps) {
   const tick = useSimulationStore((s) => s.tick);
   const speed = useSimulationStore((s) => s.speed);
   const agentCount = useSimulationStore((s) => s.agentCount);
+  const seed = useSimulationStore((s) => s.seed);
   const play = useSimulationStore((s) => s.play);
   const pause = useSimulationStore((s) => s.pause);
   const step = useSimulationStore((s) => s.step);
@@ -80,6 +81,17 @@ export function Controls({ onReset }: ControlsProps) {
         Agents: <span className="font-mono text-white">{agentCount}</span>
       </div>
 
+      {seed !== null && (
+        <>
+          <div className="h-6 w-px bg-gray-700" />
+
+          {/* Active random seed */}
+          <div className="text-sm text-gray-400" title="Random seed for this run">
+            Seed: <span className="font-mono text-white select-all">{seed}</span>
+          </div>
+        </>
+      )}
+
       <div className="h-6 w-px bg-gray-700" />
 
       {/* Speed control */}
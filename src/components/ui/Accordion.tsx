@@ -16,13 +16,22 @@ interface AccordionProps {
   action?: ReactNode;
   /** Badge/count to show next to title */
   badge?: number;
+  /** Badge color: errors red, warnings yellow */
+  badgeTone?: 'default' | 'error' | 'warning';
 }
 
+const BADGE_TONES = {
+  default: 'bg-gray-700 text-gray-400',
+  error: 'bg-red-900/60 text-red-300',
+  warning: 'bg-yellow-900/60 text-yellow-300',
+};
+
 export function Accordion({ 
   title,
   children,
   action,
   badge,
+  badgeTone = 'default',
 }: AccordionProps) {
   const [isOpen, setIsOpen] = useState(false);
   const { activeAccordion, setActiveAccordion } = useEditStore();
@@ -59,7 +68,7 @@ export function Accordion({
 
         {/* Badge */}
         {badge !== undefined && badge > 0 && (
-          <span className="text-xs bg-gray-700 text-gray-400 px-1.5 py-0.5 rounded">
+          <span className={`text-xs px-1.5 py-0.5 rounded ${BADGE_TONES[badgeTone]}`}>
             {badge}
           </span>
         )}
@@ -2,7 +2,8 @@
  * Models API Client
  */
 
-import type { StudioModel } from '@/types';
+import type { ModelListParams, ModelVersionInfo, StudioModel } from '@/types';
+import { migrateModel } from '@/lib/model/migrations';
 
 export interface SaveModelResult {
   success: boolean;
@@ -11,11 +12,16 @@ export interface SaveModelResult {
 }
 
 /**
- * Save a model (create or update)
+ * Save a model (create or update). New models forked while signed out are
+ * created as forks, so they stay linked to their source.
  */
 export async function saveModel(model: StudioModel, isNew: boolean): Promise<SaveModelResult> {
   try {
-    const url = isNew ? '/api/models' : `/api/models/${model.id}`;
+    const url = !isNew
+      ? `/api/models/${model.id}`
+      : model.forkOf
+      ? `/api/models/${model.forkOf}/fork`
+      : '/api/models';
     const method = isNew ? 'POST' : 'PUT';
 
     const response = await fetch(url, {
@@ -26,9 +32,13 @@ export async function saveModel(model: StudioModel, isNew: boolean): Promise<Sav
 
     if (!response.ok) {
       const data = await response.json().catch(() => ({}));
+      // Invalid models come back with the fields at fault; show the first
+      const field = data.fields?.[0];
       return { 
         success: false, 
-        error: data.error ?? `Failed to save (${response.status})` 
+        error: field
+          ? `${data.error}: ${field.path} ${field.message}`
+          : data.error ?? `Failed to save (${response.status})` 
       };
     }
 
@@ -41,19 +51,105 @@ export async function saveModel(model: StudioModel, isNew: boolean): Promise<Sav
 }
 
 /**
- * Load a model by ID
+ * Fork a model into the current user's account
+ */
+export async function forkModel(id: string): Promise<SaveModelResult> {
+  try {
+    const response = await fetch(`/api/models/${id}/fork`, { method: 'POST' });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      return { success: false, error: data.error ?? `Failed to fork (${response.status})` };
+    }
+    return { success: true, model: await response.json() };
+  } catch (error) {
+    console.error('Failed to fork model:', error);
+    return { success: false, error: 'Network error' };
+  }
+}
+
+/**
+ * Load a model by ID, upgraded to the current format
  */
 export async function loadModel(id: string): Promise<StudioModel | null> {
   try {
     const response = await fetch(`/api/models/${id}`);
     if (!response.ok) return null;
-    return await response.json();
+    // The server migrates too; this covers responses cached from before a
+    // format change
+    return migrateModel(await response.json());
   } catch (error) {
     console.error('Failed to load model:', error);
     return null;
   }
 }
 
+/**
+ * List a model's saved versions, newest first
+ */
+export async function listVersions(id: string): Promise<ModelVersionInfo[]> {
+  try {
+    const response = await fetch(`/api/models/${id}/versions`);
+    if (!response.ok) return [];
+    const data = await response.json();
+    return data.versions;
+  } catch (error) {
+    console.error('Failed to list versions:', error);
+    return [];
+  }
+}
+
+/**
+ * Load one saved version of a model, upgraded to the current format
+ */
+export async function loadVersion(id: string, version: number): Promise<StudioModel | null> {
+  try {
+    const response = await fetch(`/api/models/${id}/versions/${version}`);
+    if (!response.ok) return null;
+    return migrateModel(await response.json());
+  } catch (error) {
+    console.error('Failed to load version:', error);
+    return null;
+  }
+}
+
+/**
+ * Make an earlier version current again. Returns the model as saved.
+ */
+export async function restoreVersion(id: string, version: number): Promise<SaveModelResult> {
+  try {
+    const response = await fetch(`/api/models/${id}/versions/${version}/restore`, { method: 'POST' });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      return { success: false, error: data.error ?? `Failed to restore (${response.status})` };
+    }
+    return { success: true, model: await response.json() };
+  } catch (error) {
+    console.error('Failed to restore version:', error);
+    return { success: false, error: 'Network error' };
+  }
+}
+
+/**
+ * Upload a model's thumbnail, given as an image data URL (from
+ * captureThumbnail). Returns the stored image's URL.
+ */
+export async function uploadThumbnail(id: string, dataUrl: string): Promise<string | null> {
+  try {
+    const image = await (await fetch(dataUrl)).blob();
+    const response = await fetch(`/api/thumbnail/${id}`, {
+      method: 'POST',
+      headers: { 'Content-Type': image.type },
+      body: image,
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.thumbnailUrl;
+  } catch (error) {
+    console.error('Failed to upload thumbnail:', error);
+    return null;
+  }
+}
+
 /**
  * Delete a model
  */
@@ -70,13 +166,7 @@ export async function deleteModel(id: string): Promise<boolean> {
 /**
  * List models
  */
-export async function listModels(params?: {
-  page?: number;
-  limit?: number;
-  userId?: string;
-  featured?: boolean;
-  search?: string;
-}): Promise<{ models: StudioModel[]; total: number }> {
+export async function listModels(params?: ModelListParams): Promise<{ models: StudioModel[]; total: number }> {
   try {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.set('page', String(params.page));
@@ -84,6 +174,9 @@ export async function listModels(params?: {
     if (params?.userId) searchParams.set('userId', params.userId);
     if (params?.featured) searchParams.set('featured', 'true');
     if (params?.search) searchParams.set('search', params.search);
+    if (params?.forkOf) searchParams.set('forkOf', params.forkOf);
+    for (const tag of params?.tags ?? []) searchParams.append('tag', tag);
+    if (params?.tagMatch === 'any') searchParams.set('tagMatch', 'any');
 
     const response = await fetch(`/api/models?${searchParams}`);
     if (!response.ok) return { models: [], total: 0 };
@@ -0,0 +1,25 @@
+/**
+ * Tags API Client
+ */
+
+import type { TagCount } from '@/types';
+
+/**
+ * Tags in use, most used first; `query` keeps those starting with it
+ */
+export async function listTags(params?: { query?: string; limit?: number }): Promise<TagCount[]> {
+  try {
+    const searchParams = new URLSearchParams();
+    if (params?.query) searchParams.set('q', params.query);
+    if (params?.limit) searchParams.set('limit', String(params.limit));
+
+    const response = await fetch(`/api/tags?${searchParams}`);
+    if (!response.ok) return [];
+
+    const data = await response.json();
+    return data.tags;
+  } catch (error) {
+    console.error('Failed to list tags:', error);
+    return [];
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Users API Client
+ */
+
+export interface ClaimUsernameResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Whether a username belongs to someone. Null when it couldn't be checked.
+ */
+export async function isUsernameTaken(username: string): Promise<boolean | null> {
+  try {
+    const response = await fetch(`/api/users/${encodeURIComponent(username)}`);
+    if (response.status === 404) return false;
+    return response.ok ? true : null;
+  } catch (error) {
+    console.error('Failed to check username:', error);
+    return null;
+  }
+}
+
+/**
+ * Claim a username for the signed-in user
+ */
+export async function claimUsername(username: string): Promise<ClaimUsernameResult> {
+  try {
+    const response = await fetch('/api/users/me', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      return { success: false, error: data.error ?? `Failed to claim username (${response.status})` };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to claim username:', error);
+    return { success: false, error: 'Network error' };
+  }
+}
@@ -32,9 +32,11 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
   ],
   callbacks: {
     async session({ session, user }) {
-      // Add user ID to session
+      // Add user ID and username to session (the adapter loads the whole
+      // users row, username included)
       if (session.user) {
         session.user.id = user.id;
+        session.user.username = (user as { username?: string | null }).username ?? null;
       }
       return session;
     },
@@ -50,6 +52,8 @@ declare module 'next-auth' {
   interface Session {
     user: {
       id: string;
+      /** Null until claimed after the first sign-in */
+      username: string | null;
       name?: string | null;
       email?: string | null;
       image?: string | null;
@@ -0,0 +1,179 @@
+/**
+ * Shared Database Queries
+ *
+ * Lookups reused by several API routes and server-rendered pages, so they
+ * apply the same rules.
+ */
+
+import { eq, and, or, desc, inArray, sql } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { nanoid } from 'nanoid';
+import { db } from './client';
+import { users, models, modelVersions, tags, modelTags, type Model } from './schema';
+import { migrateModel } from '@/lib/model/migrations';
+import type { StudioModel, UserProfile } from '@/types';
+
+/**
+ * Load a model the current user may see: public, or owned by them.
+ * Returns the same StudioModel shape the /model/[id] view page receives.
+ */
+export async function getVisibleModel(
+  id: string,
+  currentUserId?: string
+): Promise<StudioModel | null> {
+  const conditions = [eq(models.id, id)];
+  if (currentUserId) {
+    conditions.push(or(eq(models.isPublic, true), eq(models.userId, currentUserId))!);
+  } else {
+    conditions.push(eq(models.isPublic, true));
+  }
+
+  const result = await db
+    .select()
+    .from(models)
+    .where(and(...conditions))
+    .limit(1);
+
+  if (!result.length) return null;
+
+  const row = result[0];
+  return {
+    ...migrateModel(row.definition),
+    id: row.id,
+    userId: row.userId ?? undefined,
+    isPublic: row.isPublic ?? false,
+    isFeatured: row.isFeatured ?? false,
+    thumbnailUrl: row.thumbnailUrl ?? undefined,
+    forkOf: row.forkOf ?? undefined,
+    forkCount: row.forkCount ?? 0,
+  };
+}
+
+/**
+ * Copy a row's definition into its version history. Batch it with the
+ * update that replaces the definition, so a save never loses the previous
+ * version. The snapshot keeps the row's version number and the time that
+ * version was saved.
+ */
+export function snapshotVersion(row: Model) {
+  return db.insert(modelVersions).values({
+    id: nanoid(),
+    modelId: row.id,
+    version: row.version ?? 1,
+    definition: row.definition,
+    createdAt: row.updatedAt ?? new Date(),
+  });
+}
+
+/**
+ * Match a model row only while it's still at the version it was read at.
+ * Writes that make a new version use it, so of two saves based on the same
+ * version only the first lands; the other updates nothing and is reported
+ * as a conflict (its snapshot also collides on (model_id, version)).
+ */
+export function atVersion(row: Model) {
+  return and(eq(models.id, row.id), sql`coalesce(${models.version}, 1) = ${row.version ?? 1}`);
+}
+
+/**
+ * Whether a failed query broke a unique constraint
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  // Drizzle wraps the driver's error, which carries the Postgres code
+  const cause = error instanceof Error ? error.cause : undefined;
+  return (cause as { code?: string } | undefined)?.code === '23505';
+}
+
+/**
+ * Point a model's model_tags rows at exactly these tags, creating tags that
+ * don't exist yet. Batch them with the write that stores the definition.
+ */
+export function syncTags(modelId: string, names: string[]): BatchItem<'pg'>[] {
+  const unlink = db.delete(modelTags).where(eq(modelTags.modelId, modelId));
+  if (names.length === 0) return [unlink];
+
+  return [
+    db
+      .insert(tags)
+      .values(names.map((name) => ({ id: nanoid(), name })))
+      .onConflictDoNothing({ target: tags.name }),
+    unlink,
+    db.insert(modelTags).select(
+      db
+        .select({ modelId: sql<string>`${modelId}`.as('model_id'), tagId: tags.id })
+        .from(tags)
+        .where(inArray(tags.name, names))
+    ),
+  ];
+}
+
+/**
+ * A user's public profile, by username (case-insensitive)
+ */
+export async function getUserProfile(username: string): Promise<UserProfile | null> {
+  const result = await db
+    .select()
+    .from(users)
+    .where(eq(users.username, username.toLowerCase()))
+    .limit(1);
+
+  if (!result.length || !result[0].username) return null;
+  const user = result[0];
+
+  const stats = await db
+    .select({
+      modelCount: sql<number>`count(*)`,
+      forksReceived: sql<number>`coalesce(sum(${models.forkCount}), 0)`,
+    })
+    .from(models)
+    .where(and(eq(models.userId, user.id), eq(models.isPublic, true)));
+
+  return {
+    id: user.id,
+    username: user.username!,
+    displayName: user.name ?? undefined,
+    image: user.image ?? undefined,
+    createdAt: (user.createdAt ?? new Date()).toISOString(),
+    modelCount: Number(stats[0]?.modelCount ?? 0),
+    forksReceived: Number(stats[0]?.forksReceived ?? 0),
+  };
+}
+
+/**
+ * A page of a user's public models, most recently updated first
+ */
+export async function listPublicModelsByUser(
+  userId: string,
+  page: number,
+  limit: number
+): Promise<{ models: StudioModel[]; total: number }> {
+  const condition = and(eq(models.userId, userId), eq(models.isPublic, true));
+
+  const results = await db
+    .select()
+    .from(models)
+    .where(condition)
+    .orderBy(desc(models.updatedAt))
+    .limit(limit)
+    .offset((page - 1) * limit);
+
+  const countResult = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(models)
+    .where(condition);
+
+  return {
+    // Upgraded in memory, as in the model list
+    models: results.map((row) => ({
+      ...migrateModel(row.definition),
+      id: row.id,
+      userId: row.userId ?? undefined,
+      isPublic: true,
+      isFeatured: row.isFeatured ?? false,
+      thumbnailUrl: row.thumbnailUrl ?? undefined,
+      forkOf: row.forkOf ?? undefined,
+      forkCount: row.forkCount ?? 0,
+    })),
+    total: Number(countResult[0]?.count ?? 0),
+  };
+}
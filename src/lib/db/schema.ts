@@ -10,6 +10,7 @@ import {
   integer,
   jsonb,
   primaryKey,
+  uniqueIndex,
 } from 'drizzle-orm/pg-core';
 import type { StudioModel } from '@/types';
 
@@ -94,15 +95,20 @@ export const models = pgTable('models', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
-export const modelVersions = pgTable('model_versions', {
-  id: text('id').primaryKey(),
-  modelId: text('model_id')
-    .notNull()
-    .references(() => models.id, { onDelete: 'cascade' }),
-  version: integer('version').notNull(),
-  definition: jsonb('definition').$type<StudioModel>().notNull(),
-  createdAt: timestamp('created_at').defaultNow(),
-});
+export const modelVersions = pgTable(
+  'model_versions',
+  {
+    id: text('id').primaryKey(),
+    modelId: text('model_id')
+      .notNull()
+      .references(() => models.id, { onDelete: 'cascade' }),
+    version: integer('version').notNull(),
+    definition: jsonb('definition').$type<StudioModel>().notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  // One snapshot per version: concurrent saves can't both record the same one
+  (t) => [uniqueIndex('model_versions_model_id_version_idx').on(t.modelId, t.version)]
+);
 
 export const tags = pgTable('tags', {
   id: text('id').primaryKey(),
@@ -1,12 +1,33 @@
 /**
  * SimulationEngine
- * 
- * Runs Flocc simulations on the main thread with CanvasRenderer.
- * Manages the Environment, rendering, and animation loop.
+ *
+ * Main-thread side of the simulation. Ticks run in a Web Worker
+ * (see worker.ts); the engine sends it commands and mirrors the agent
+ * snapshots it sends back into a render-only Environment, which is drawn
+ * with CanvasRenderer and LineChartRenderer.
  */
 
-import { Environment, Agent, CanvasRenderer, LineChartRenderer, utils, KDTree } from 'flocc';
-import type { StudioModel, AgentType, Parameter, Visualization } from '@/types';
+import { Environment, Agent, CanvasRenderer, LineChartRenderer, Network, Terrain } from 'flocc';
+import type {
+  StudioModel,
+  Parameter,
+  Visualization,
+  AgentSnapshot,
+  PatchPropertyDef,
+  PatchSnapshot,
+  SignalDef,
+  ToWorker,
+  FromWorker,
+} from '@/types';
+import { getAgentTypeMetadata } from './compiler';
+import { getMetricKey } from './metrics';
+import { BehaviorError } from './customCode';
+import { getGridSize, paintPatches } from './patches';
+import { DEFAULT_LINK_COLOR, usesNetwork } from './network';
+
+// A busy worker that sends nothing for this long is assumed to be stuck,
+// e.g. in an infinite loop in custom code, and is stopped
+const WORKER_TIMEOUT = 10000;
 
 // ============================================================================
 // Types
@@ -15,6 +36,7 @@ import type { StudioModel, AgentType, Parameter, Visualization } from '@/types';
 export interface SimulationEngineOptions {
   container: HTMLDivElement;
   onTick?: (tick: number, agentCount: number) => void;
+  onSeed?: (seed: number) => void;
   onError?: (error: Error) => void;
 }
 
@@ -31,77 +53,85 @@ export interface AgentTypeMetadata {
 // ============================================================================
 
 export class SimulationEngine {
+  private worker: Worker | null = null;
   private env: Environment | null = null;
   private renderer: CanvasRenderer | null = null;
   private container: HTMLDivElement;
   private isRunning: boolean = false;
+  private isPausing: boolean = false;
   private tickCount: number = 0;
+  private agentCount: number = 0;
   private ticksPerFrame: number = 1;
   private animationId: number | null = null;
-  private agentIdCounter: number = 0;
+  private watchdogId: ReturnType<typeof setTimeout> | null = null;
   private agentTypeMetadata: Map<string, AgentTypeMetadata> = new Map();
-  private setupFn: ((env: Environment) => void) | null = null;
+  private mirrorAgents: Map<string, Agent> = new Map();
+  private pendingAgents: AgentSnapshot[] | null = null;
+  private pendingPatches: PatchSnapshot | null = null;
+  private pendingLinks: [string, string][] | null = null;
+  private network: Network | null = null;
+  private patchLayers: (PatchPropertyDef | SignalDef)[] = [];
+  private background: string = '#1a1a2e';
+  private latestMetrics: Record<string, number> = {};
   private parameters: Parameter[] = [];
   private visualizations: Visualization[] = [];
   private chartRenderers: Map<string, LineChartRenderer> = new Map();
-  
+
   private onTick?: (tick: number, agentCount: number) => void;
+  private onSeed?: (seed: number) => void;
   private onError?: (error: Error) => void;
 
   constructor(options: SimulationEngineOptions) {
     this.container = options.container;
     this.onTick = options.onTick;
+    this.onSeed = options.onSeed;
     this.onError = options.onError;
   }
 
   /**
-   * Initialize the simulation with a compiled model
+   * Initialize the simulation with a model.
+   * Compilation and setup happen in the worker; errors are reported via onError.
    */
-  initialize(
-    setupFn: (env: Environment) => void,
-    agentTypes: Map<string, AgentTypeMetadata>,
-    envConfig: { width: number; height: number; wraparound: boolean; backgroundColor?: string },
-    parameters: Parameter[] = [],
-    visualizations: Visualization[] = []
-  ): void {
+  initialize(model: StudioModel): void {
     this.cleanup();
 
     try {
-      // Store setup function for reset
-      this.setupFn = setupFn;
-      this.agentTypeMetadata = agentTypes;
-      this.parameters = parameters;
+      const { width, height, wraparound, backgroundColor } = model.environment;
+
+      this.agentTypeMetadata = getAgentTypeMetadata(model);
+      this.parameters = model.parameters.map((p) => ({ ...p }));
 
       // Reset counters
       this.tickCount = 0;
-      this.agentIdCounter = 0;
-
-      // Create environment with torus option
-      this.env = new Environment({
-        torus: envConfig.wraparound,
-        width: envConfig.width,
-        height: envConfig.height,
-      });
-
-      // Store parameters on the environment for runtime access
-      this.syncParametersToEnv();
-
-      // Run setup to create agents
-      setupFn(this.env);
-
-      // Assign IDs and apply visual properties to agents
-      for (const agent of this.env.getAgents()) {
-        agent.set('_id', `agent_${this.agentIdCounter++}`);
-        this.applyAgentVisuals(agent);
+      this.agentCount = 0;
+
+      // Render-only environment, populated from worker snapshots
+      this.env = new Environment({ torus: wraparound, width, height });
+      this.background = backgroundColor || '#1a1a2e';
+
+      // Patches are drawn under the agents through a Flocc Terrain,
+      // one terrain cell per patch, with signals painted over properties
+      const patches = model.environment.patches;
+      this.patchLayers = patches ? [...patches.properties, ...(patches.signals ?? [])] : [];
+      if (patches && this.patchLayers.some((p) => p.color)) {
+        const { columns, rows, cellSize } = getGridSize(patches, width, height);
+        this.env.use(new Terrain(columns, rows, { scale: cellSize }));
       }
 
-      this.env.use(new KDTree(this.env.getAgents()));
+      // Links are drawn by the renderer through a Flocc Network whose
+      // adjacency lists are replaced with the worker's links every frame
+      if (usesNetwork(model)) {
+        this.network = new Network();
+        this.env.use(this.network);
+      }
 
       // Create renderer
       this.renderer = new CanvasRenderer(this.env, {
-        width: envConfig.width,
-        height: envConfig.height,
-        background: envConfig.backgroundColor || '#1a1a2e',
+        width,
+        height,
+        background: this.background,
+        connectionColor: model.environment.network?.color ?? DEFAULT_LINK_COLOR,
+        connectionOpacity: 0.6,
       });
 
       // Mount canvas
@@ -109,15 +139,17 @@ export class SimulationEngine {
       this.container.appendChild(this.renderer.canvas);
 
       // Initialize visualizations (line charts)
-      this.visualizations = visualizations;
+      this.visualizations = model.visualizations ?? [];
       this.initializeCharts();
 
-      // Initial render
-      this.renderer.render();
-      this.renderCharts();
+      // Start the worker and hand it the model
+      this.worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', this.handleMessage);
+      this.worker.addEventListener('error', this.handleWorkerError);
 
-      // Notify
-      this.onTick?.(this.tickCount, this.env.getAgents().length);
+      this.post({ type: 'set-speed', ticksPerFrame: this.ticksPerFrame });
+      this.post({ type: 'init', model });
+      this.armWatchdog();
     } catch (error) {
       this.onError?.(error as Error);
     }
@@ -129,11 +161,11 @@ export class SimulationEngine {
   private applyAgentVisuals(agent: Agent): void {
     const typeId = agent.get('typeId') as string;
     const metadata = this.agentTypeMetadata.get(typeId);
-    
+
     if (metadata) {
       agent.set('color', metadata.color);
       agent.set('size', metadata.size);
-      
+
       // Map studio shapes to Flocc renderer shapes
       if (metadata.shape === 'square') {
         agent.set('shape', 'rect');
@@ -150,80 +182,57 @@ export class SimulationEngine {
    * Start the simulation loop
    */
   play(): void {
-    if (!this.env || this.isRunning) return;
+    if (!this.worker || this.isRunning) return;
     this.isRunning = true;
-    this.runLoop();
+    this.isPausing = false;
+    this.post({ type: 'play' });
+    this.armWatchdog();
   }
 
   /**
-   * Pause the simulation
+   * Pause the simulation. The watchdog stays armed until the worker
+   * confirms, since one stuck in a tick never reads the pause.
    */
   pause(): void {
+    if (!this.worker) return;
     this.isRunning = false;
-    if (this.animationId !== null) {
-      cancelAnimationFrame(this.animationId);
-      this.animationId = null;
-    }
+    this.isPausing = true;
+    this.post({ type: 'pause' });
+    this.armWatchdog();
   }
 
   /**
    * Run a single tick
    */
   step(): void {
-    if (!this.env) return;
-    this.pause();
-    this.tick();
-    this.render();
-    this.onTick?.(this.tickCount, this.env.getAgents().length);
+    if (!this.worker) return;
+    this.isRunning = false;
+    this.post({ type: 'step' });
+    this.armWatchdog();
   }
 
   /**
    * Reset the simulation to initial state
    */
   reset(): void {
-    if (!this.env || !this.setupFn) return;
+    if (!this.worker) return;
 
-    this.pause();
+    this.isRunning = false;
     this.tickCount = 0;
-    this.agentIdCounter = 0;
-
-    // Clear existing agents
-    const agents = [...this.env.getAgents()];
-    for (const agent of agents) {
-      this.env.removeAgent(agent);
-    }
-
-    // Re-sync parameters (they may have changed)
-    this.syncParametersToEnv();
-
-    // Re-run setup
-    this.setupFn(this.env);
-
-    // Assign IDs and visuals
-    for (const agent of this.env.getAgents()) {
-      agent.set('_id', `agent_${this.agentIdCounter++}`);
-      this.applyAgentVisuals(agent);
-    }
-
-    this.render();
-    this.onTick?.(this.tickCount, this.env.getAgents().length);
+    this.post({ type: 'reset' });
+    this.armWatchdog();
   }
 
   /**
    * Update a parameter value at runtime
    * This allows parameters to be adjusted while the simulation is running
    */
-  updateParameter(name: string, value: any): void {
-    if (!this.env) return;
-    
-    // Update local cache
+  updateParameter(name: string, value: Parameter['value']): void {
     const param = this.parameters.find(p => p.name === name);
-    if (param) {
-      param.value = value;
-    }
-    
-    // Update environment
-    this.env.set(name, value);
+    if (!param) return;
+
+    param.value = value;
+    this.post({ type: 'set-param', id: param.id, value });
   }
 
   /**
@@ -231,18 +240,8 @@ export class SimulationEngine {
    * Called when the model store changes
    */
   syncParameters(parameters: Parameter[]): void {
-    this.parameters = parameters;
-    this.syncParametersToEnv();
-  }
-
-  /**
-   * Sync stored parameters to the environment
-   */
-  private syncParametersToEnv(): void {
-    if (!this.env) return;
-    for (const param of this.parameters) {
-      this.env.set(param.name, param.value);
-    }
+    this.parameters = parameters.map((p) => ({ ...p }));
+    this.post({ type: 'set-params', parameters });
   }
 
   /**
@@ -250,20 +249,21 @@ export class SimulationEngine {
    */
   setSpeed(ticksPerFrame: number): void {
     this.ticksPerFrame = Math.max(1, ticksPerFrame);
+    this.post({ type: 'set-speed', ticksPerFrame: this.ticksPerFrame });
   }
 
   /**
-   * Get current tick count
+   * Get current tick count (as of the last state received from the worker)
    */
   getTick(): number {
     return this.tickCount;
   }
 
   /**
-   * Get current agent count
+   * Get current agent count (as of the last state received from the worker)
    */
   getAgentCount(): number {
-    return this.env?.getAgents().length ?? 0;
+    return this.agentCount;
   }
 
   /**
@@ -281,7 +281,7 @@ export class SimulationEngine {
     if (!this.renderer?.canvas) return null;
 
     const canvas = this.renderer.canvas;
-    
+
     // Create a temporary canvas for resizing
     const tempCanvas = document.createElement('canvas');
     const ctx = tempCanvas.getContext('2d');
@@ -303,19 +303,36 @@ export class SimulationEngine {
    * Clean up resources
    */
   cleanup(): void {
-    this.pause();
-    
+    this.isRunning = false;
+    this.isPausing = false;
+    this.disarmWatchdog();
+
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+
     if (this.renderer) {
       this.container.innerHTML = '';
       this.renderer = null;
     }
-    
+
     // Clean up chart renderers
     this.chartRenderers.clear();
     this.visualizations = [];
-    
+    this.latestMetrics = {};
+
+    this.mirrorAgents.clear();
+    this.pendingAgents = null;
+    this.pendingPatches = null;
+    this.pendingLinks = null;
+    this.network = null;
     this.env = null;
-    this.setupFn = null;
   }
 
   /**
@@ -344,41 +361,180 @@ export class SimulationEngine {
   updateVisualizations(visualizations: Visualization[]): void {
     this.visualizations = visualizations;
     this.initializeCharts();
+    this.post({ type: 'set-visualizations', visualizations });
   }
 
   // ============================================================================
   // Private Methods
   // ============================================================================
 
-  private runLoop = (): void => {
-    if (!this.isRunning || !this.env) return;
+  private post(message: ToWorker): void {
+    this.worker?.postMessage(message);
+  }
 
-    // Run multiple ticks per frame based on speed
-    for (let i = 0; i < this.ticksPerFrame; i++) {
-      this.tick();
+  private handleMessage = (event: MessageEvent<FromWorker>): void => {
+    const message = event.data;
+
+    // While playing, every frame should be followed by another. A frame
+    // sent before the worker read a pause doesn't mean it has stopped.
+    if (this.isRunning) {
+      this.armWatchdog();
+    } else if (message.type === 'paused' || message.type === 'error') {
+      this.isPausing = false;
+      this.disarmWatchdog();
+    } else if (message.type === 'state' && !this.isPausing) {
+      this.disarmWatchdog();
     }
 
-    this.render();
-    this.onTick?.(this.tickCount, this.env.getAgents().length);
+    switch (message.type) {
+      case 'state':
+        this.tickCount = message.tick;
+        this.agentCount = message.agents.length;
+        // Coalesce states that arrive faster than the display refreshes
+        this.pendingAgents = message.agents;
+        this.pendingPatches = message.patches ?? null;
+        this.pendingLinks = message.links ?? null;
+        if (this.animationId === null) {
+          this.animationId = requestAnimationFrame(this.renderFrame);
+        }
+        break;
+
+      case 'metrics':
+        this.latestMetrics = message.data;
+        break;
+
+      case 'seed':
+        this.onSeed?.(message.seed);
+        break;
+
+      case 'error':
+        this.isRunning = false;
+        this.disarmWatchdog();
+        this.onError?.(
+          message.behaviorId
+            ? new BehaviorError(message.message, message.behaviorId)
+            : new Error(message.message)
+        );
+        break;
+    }
+  };
 
-    // Schedule next frame
-    this.animationId = requestAnimationFrame(this.runLoop);
+  private handleWorkerError = (event: ErrorEvent): void => {
+    this.isRunning = false;
+    this.isPausing = false;
+    this.disarmWatchdog();
+    this.onError?.(new Error(event.message || 'Simulation worker failed'));
   };
 
-  private tick(): void {
+  /**
+   * Expect a message from the worker within WORKER_TIMEOUT
+   */
+  private armWatchdog(): void {
+    this.disarmWatchdog();
+    this.watchdogId = setTimeout(this.handleWorkerTimeout, WORKER_TIMEOUT);
+  }
+
+  private disarmWatchdog(): void {
+    if (this.watchdogId !== null) {
+      clearTimeout(this.watchdogId);
+      this.watchdogId = null;
+    }
+  }
+
+  /**
+   * The worker can't be interrupted mid-tick, so a stuck one is terminated.
+   * Editing the model starts a new worker.
+   */
+  private handleWorkerTimeout = (): void => {
+    this.watchdogId = null;
+    this.isRunning = false;
+    this.isPausing = false;
+    this.worker?.terminate();
+    this.worker = null;
+    this.onError?.(new Error(
+      `The simulation stopped responding for ${WORKER_TIMEOUT / 1000} seconds and was stopped. ` +
+      'Check custom code behaviors for infinite loops.'
+    ));
+  };
+
+  private renderFrame = (): void => {
+    this.animationId = null;
+    if (!this.env || !this.pendingAgents) return;
+
+    this.syncMirror(this.pendingAgents);
+    this.syncLinks(this.pendingLinks ?? []);
+    this.pendingAgents = null;
+    this.pendingLinks = null;
+
+    const terrain = this.env.helpers.terrain;
+    if (terrain && this.pendingPatches) {
+      paintPatches(terrain, this.pendingPatches, this.patchLayers, this.background);
+    }
+    this.pendingPatches = null;
+
+    this.render();
+    this.onTick?.(this.tickCount, this.agentCount);
+  };
+
+  /**
+   * Update the render-only environment to match a worker snapshot
+   */
+  private syncMirror(snapshots: AgentSnapshot[]): void {
     if (!this.env) return;
 
-    // Apply visuals to any new agents (from reproduction)
-    const agents = this.env.getAgents();
-    for (const agent of agents) {
-      if (agent.get('_id') === null) {
-        agent.set('_id', `agent_${this.agentIdCounter++}`);
+    const seen = new Set<string>();
+
+    for (const snapshot of snapshots) {
+      seen.add(snapshot.id);
+
+      let agent = this.mirrorAgents.get(snapshot.id);
+      if (!agent) {
+        agent = new Agent();
+        this.env.addAgent(agent);
+        this.mirrorAgents.set(snapshot.id, agent);
+      }
+
+      // New agents, and agents that changed type (metamorphosis)
+      if (agent.get('typeId') !== snapshot.typeId) {
+        agent.set('typeId', snapshot.typeId);
         this.applyAgentVisuals(agent);
       }
+
+      agent.set('x', snapshot.x);
+      agent.set('y', snapshot.y);
+      if (snapshot.vx !== undefined) agent.set('vx', snapshot.vx);
+      if (snapshot.vy !== undefined) agent.set('vy', snapshot.vy);
     }
 
-    this.env.tick();
-    this.tickCount++;
+    // Remove agents that no longer exist in the worker
+    for (const [id, agent] of this.mirrorAgents) {
+      if (!seen.has(id)) {
+        this.env.removeAgent(agent);
+        this.mirrorAgents.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Point the mirror's Network at the worker's links. Every agent gets an
+   * entry, since the renderer skips agents its Network doesn't know.
+   */
+  private syncLinks(pairs: [string, string][]): void {
+    if (!this.network) return;
+
+    const links = new Map<Agent, Agent[]>();
+    for (const agent of this.mirrorAgents.values()) {
+      links.set(agent, []);
+    }
+    for (const [aId, bId] of pairs) {
+      const a = this.mirrorAgents.get(aId);
+      const b = this.mirrorAgents.get(bId);
+      if (a && b) {
+        links.get(a)!.push(b);
+        links.get(b)!.push(a);
+      }
+    }
+    this.network.adjacencyList = links;
   }
 
   private render(): void {
@@ -409,17 +565,13 @@ export class SimulationEngine {
         background: '#ffffff',
       });
 
-      // Add metrics for each series
+      // Add metrics for each series; values are computed in the worker
       for (const series of viz.series) {
-        const metricFn = this.createMetricFunction(series.metric);
-        if (metricFn) {
-          // Use a custom key that encodes the metric config
-          const metricKey = this.getMetricKey(series.metric);
-          chartRenderer.metric(metricKey, {
-            color: series.color,
-            fn: metricFn,
-          });
-        }
+        const metricKey = getMetricKey(series.metric);
+        chartRenderer.metric(metricKey, {
+          color: series.color,
+          fn: () => this.latestMetrics[metricKey] ?? 0,
+        });
       }
 
       this.chartRenderers.set(viz.id, chartRenderer);
@@ -434,84 +586,4 @@ export class SimulationEngine {
       renderer.render();
     }
   }
-
-  /**
-   * Create a metric function for a series based on its configuration
-   */
-  private createMetricFunction(metric: import('@/types').MetricConfig): ((arr: number[]) => number) | null {
-    if (!this.env) return null;
-
-    const agentTypeId = metric.agentTypeId;
-
-    if (metric.type === 'count') {
-      // Count agents of the specified type
-      return () => {
-        if (!this.env) return 0;
-        return this.env.getAgents().filter(a => a.get('typeId') === agentTypeId).length;
-      };
-    }
-
-    if (metric.type === 'property') {
-      const { property, aggregation } = metric;
-      
-      // Get values for agents of the specified type
-      const getValues = (): number[] => {
-        if (!this.env) return [];
-        return this.env.getAgents()
-          .filter(a => a.get('typeId') === agentTypeId)
-          .map(a => a.get(property) as number)
-          .filter(v => v !== null && v !== undefined && typeof v === 'number');
-      };
-
-      switch (aggregation) {
-        case 'mean':
-          return () => {
-            const values = getValues();
-            if (values.length === 0) return 0;
-            return values.reduce((sum, v) => sum + v, 0) / values.length;
-          };
-        case 'min':
-          return () => {
-            const values = getValues();
-            if (values.length === 0) return 0;
-            return Math.min(...values);
-          };
-        case 'max':
-          return () => {
-            const values = getValues();
-            if (values.length === 0) return 0;
-            return Math.max(...values);
-          };
-        case 'sum':
-          return () => {
-            const values = getValues();
-            return values.reduce((sum, v) => sum + v, 0);
-          };
-        case 'median':
-          return () => {
-            const values = getValues().sort((a, b) => a - b);
-            if (values.length === 0) return 0;
-            const mid = Math.floor(values.length / 2);
-            return values.length % 2 === 0
-              ? (values[mid - 1] + values[mid]) / 2
-              : values[mid];
-          };
-        default:
-          return null;
-      }
-    }
-
-    return null;
-  }
-
-  /**
-   * Generate a unique key for a metric configuration
-   * This is used internally by LineChartRenderer
-   */
-  private getMetricKey(metric: import('@/types').MetricConfig): string {
-    if (metric.type === 'count') {
-      return `count:${metric.agentTypeId}`;
-    }
-    return `${metric.aggregation}:${metric.agentTypeId}:${metric.property}`;
-  }
 }
@@ -5,7 +5,7 @@
  * Behaviors are compiled to Flocc agent rules at runtime.
  */
 
-import type { BehaviorType } from '@/types';
+import type { AgentType, Behavior, BehaviorType, PropertyMap } from '@/types';
 
 // ============================================================================
 // Behavior Definitions
@@ -15,19 +15,36 @@ export interface BehaviorDef {
   type: BehaviorType;
   name: string;
   description: string;
-  category: 'movement' | 'flocking' | 'events' | 'lifecycle';
+  category: 'movement' | 'flocking' | 'events' | 'lifecycle' | 'environment' | 'network' | 'control' | 'advanced';
   params: ParamDef[];
 }
 
 export interface ParamDef {
   key: string;
   name: string;
-  type: 'number' | 'agentType' | 'boolean' | 'action' | 'condition' | 'property';
+  type:
+    | 'number'
+    | 'agentType'
+    | 'boolean'
+    | 'action'
+    | 'condition'
+    | 'property'
+    | 'targetProperty'
+    | 'code'
+    | 'test'
+    | 'parameter'
+    | 'patchProperty'
+    | 'signal'
+    | 'adoptMode'
+    | 'propertyMap';
   default: any;
   min?: number;
   max?: number;
   step?: number;
+  // Label of the empty choice in a select, when leaving it empty is meaningful
+  emptyLabel?: string;
   // For conditional params that only show based on another param's value
+  // (or any of several values)
   showWhen?: { param: string; value: any };
 }
 
@@ -138,6 +155,15 @@ export const BEHAVIOR_LIBRARY: BehaviorDef[] = [
       { key: 'value', name: 'Value', type: 'number', default: 0, showWhen: { param: 'action', value: 'set-property' } },
       { key: 'incrementProperty', name: 'Property', type: 'property', default: null, showWhen: { param: 'action', value: 'increment-property' } },
       { key: 'incrementAmount', name: 'Amount', type: 'number', default: 1, step: 0.1, showWhen: { param: 'action', value: 'increment-property' } },
+      // Params for actions on the target's properties
+      { key: 'fromProperty', name: 'From', type: 'targetProperty', default: null, showWhen: { param: 'action', value: ['take-from-target', 'copy-from-target'] } },
+      { key: 'toProperty', name: 'Into', type: 'property', default: null, showWhen: { param: 'action', value: ['take-from-target', 'copy-from-target'] } },
+      { key: 'transferAmount', name: 'Amount', type: 'number', default: 1, min: 0, step: 0.1, showWhen: { param: 'action', value: 'take-from-target' } },
+      { key: 'targetProperty', name: 'Property', type: 'targetProperty', default: null, showWhen: { param: 'action', value: 'set-target-property' } },
+      { key: 'targetValue', name: 'Value', type: 'number', default: 0, showWhen: { param: 'action', value: 'set-target-property' } },
+      // Params for change-type action
+      { key: 'newType', name: 'New Type', type: 'agentType', default: null, showWhen: { param: 'action', value: 'change-type' } },
+      { key: 'propertyMap', name: 'Properties', type: 'propertyMap', default: {}, showWhen: { param: 'action', value: 'change-type' } },
     ],
   },
   {
@@ -156,6 +182,9 @@ export const BEHAVIOR_LIBRARY: BehaviorDef[] = [
       // Params for increment-property action
       { key: 'incrementProperty', name: 'Property', type: 'property', default: null, showWhen: { param: 'action', value: 'increment-property' } },
       { key: 'incrementAmount', name: 'Amount', type: 'number', default: 1, step: 0.1, showWhen: { param: 'action', value: 'increment-property' } },
+      // Params for change-type action
+      { key: 'newType', name: 'New Type', type: 'agentType', default: null, showWhen: { param: 'action', value: 'change-type' } },
+      { key: 'propertyMap', name: 'Properties', type: 'propertyMap', default: {}, showWhen: { param: 'action', value: 'change-type' } },
     ],
   },
   
@@ -189,20 +218,177 @@ export const BEHAVIOR_LIBRARY: BehaviorDef[] = [
       { key: 'distance', name: 'Distance', type: 'number', default: 1, min: 0, max: 100, step: 1 },
     ],
   },
+  {
+    type: 'change-type',
+    name: 'Change Type',
+    description: 'Turn into another agent type with a probability each tick',
+    category: 'lifecycle',
+    params: [
+      { key: 'newType', name: 'New Type', type: 'agentType', default: null },
+      { key: 'probability', name: 'Probability', type: 'number', default: 0.01, min: 0, max: 1, step: 0.01 },
+      { key: 'propertyMap', name: 'Properties', type: 'propertyMap', default: {} },
+    ],
+  },
+
+  // Environment behaviors
+  {
+    type: 'read-patch',
+    name: 'Read Patch',
+    description: 'Copy a value of the patch under the agent into a property',
+    category: 'environment',
+    params: [
+      { key: 'patch', name: 'Patch', type: 'patchProperty', default: null },
+      { key: 'property', name: 'Into', type: 'property', default: null },
+    ],
+  },
+  {
+    type: 'consume-patch',
+    name: 'Consume Patch',
+    description: 'Take from the patch under the agent, optionally adding what was taken to a property',
+    category: 'environment',
+    params: [
+      { key: 'patch', name: 'Patch', type: 'patchProperty', default: null },
+      { key: 'amount', name: 'Amount', type: 'number', default: 1, min: 0, step: 0.1 },
+      { key: 'property', name: 'Add To', type: 'property', default: null, emptyLabel: 'None' },
+    ],
+  },
+  {
+    type: 'deposit-patch',
+    name: 'Deposit Patch',
+    description: 'Add to the patch under the agent',
+    category: 'environment',
+    params: [
+      { key: 'patch', name: 'Patch', type: 'patchProperty', default: null },
+      { key: 'amount', name: 'Amount', type: 'number', default: 1, step: 0.1 },
+    ],
+  },
+  {
+    type: 'emit-signal',
+    name: 'Emit Signal',
+    description: 'Release a signal (e.g. a pheromone) into the cell under the agent',
+    category: 'environment',
+    params: [
+      { key: 'signal', name: 'Signal', type: 'signal', default: null },
+      { key: 'amount', name: 'Amount', type: 'number', default: 1, min: 0, step: 0.1 },
+    ],
+  },
+  {
+    type: 'follow-gradient',
+    name: 'Follow Gradient',
+    description: 'Move toward where a signal is strongest nearby',
+    category: 'environment',
+    params: [
+      { key: 'signal', name: 'Signal', type: 'signal', default: null },
+      { key: 'speed', name: 'Speed', type: 'number', default: 2, min: 0.1, max: 20, step: 0.1 },
+    ],
+  },
+
+  // Network behaviors
+  {
+    type: 'connect',
+    name: 'Connect',
+    description: 'Link to an agent within range that isn\'t linked yet',
+    category: 'network',
+    params: [
+      { key: 'target', name: 'Connect To', type: 'agentType', default: null, emptyLabel: 'Any type' },
+      { key: 'radius', name: 'Radius', type: 'number', default: 10, min: 1, max: 100, step: 1 },
+      { key: 'probability', name: 'Probability', type: 'number', default: 1, min: 0, max: 1, step: 0.01 },
+    ],
+  },
+  {
+    type: 'disconnect',
+    name: 'Disconnect',
+    description: 'Drop a random link, optionally only links to one agent type',
+    category: 'network',
+    params: [
+      { key: 'target', name: 'From', type: 'agentType', default: null, emptyLabel: 'Any type' },
+      { key: 'probability', name: 'Probability', type: 'number', default: 0.01, min: 0, max: 1, step: 0.01 },
+    ],
+  },
+  {
+    type: 'adopt-property',
+    name: 'Adopt From Links',
+    description: 'Take on a property value from linked agents (e.g. an opinion)',
+    category: 'network',
+    params: [
+      { key: 'property', name: 'Property', type: 'property', default: null },
+      { key: 'mode', name: 'Adopt', type: 'adoptMode', default: 'random' },
+      { key: 'probability', name: 'Probability', type: 'number', default: 1, min: 0, max: 1, step: 0.01 },
+    ],
+  },
+
+  // Control behaviors
+  {
+    type: 'if',
+    name: 'If / Else',
+    description: 'Run the "then" behaviors when a condition holds, otherwise the "else" behaviors',
+    category: 'control',
+    params: [
+      { key: 'test', name: 'If', type: 'test', default: 'property' },
+      { key: 'property', name: 'Property', type: 'property', default: null, showWhen: { param: 'test', value: 'property' } },
+      { key: 'target', name: 'Of Type', type: 'agentType', default: null, showWhen: { param: 'test', value: ['nearby', 'linked'] } },
+      { key: 'radius', name: 'Radius', type: 'number', default: 25, min: 1, max: 200, step: 1, showWhen: { param: 'test', value: 'nearby' } },
+      { key: 'parameter', name: 'Parameter', type: 'parameter', default: null, showWhen: { param: 'test', value: 'parameter' } },
+      { key: 'comparison', name: 'Is', type: 'condition', default: 'lt', showWhen: { param: 'test', value: ['property', 'nearby', 'linked', 'parameter'] } },
+      { key: 'value', name: 'Value', type: 'number', default: 0, showWhen: { param: 'test', value: ['property', 'nearby', 'linked', 'parameter'] } },
+      { key: 'probability', name: 'Probability', type: 'number', default: 0.5, min: 0, max: 1, step: 0.01, showWhen: { param: 'test', value: 'chance' } },
+    ],
+  },
+
+  // Advanced behaviors
+  {
+    type: 'custom-code',
+    name: 'Custom Code',
+    description: 'Run your own JavaScript for each agent every tick',
+    category: 'advanced',
+    params: [
+      {
+        key: 'code',
+        name: 'Code',
+        type: 'code',
+        default: "// Runs for each agent every tick\nconst energy = agent.get('energy') ?? 0;\nif (energy > 10 && env.random() < 0.01) {\n  agent.spawn();\n}\n",
+      },
+    ],
+  },
 ];
 
 /**
- * Action options for event behaviors
+ * Action options for event behaviors. Ones that need a target are only
+ * offered by events that have one (On Collision).
  */
 export const ACTION_OPTIONS = [
   { value: 'remove-self', label: 'Remove Self' },
   { value: 'remove-target', label: 'Remove Target' },
   { value: 'set-property', label: 'Set Property' },
   { value: 'increment-property', label: 'Increment Property' },
+  { value: 'take-from-target', label: 'Take From Target', needsTarget: true },
+  { value: 'copy-from-target', label: 'Copy From Target', needsTarget: true },
+  { value: 'set-target-property', label: 'Set Target Property', needsTarget: true },
+  { value: 'change-type', label: 'Change Type' },
+];
+
+/**
+ * What an 'if' behavior can test
+ */
+export const TEST_OPTIONS = [
+  { value: 'property', label: 'Property' },
+  { value: 'nearby', label: 'Nearby count' },
+  { value: 'linked', label: 'Linked count' },
+  { value: 'parameter', label: 'Parameter' },
+  { value: 'chance', label: 'Random chance' },
 ];
 
 /**
- * Condition options for on-property behavior
+ * How an adopt-property behavior picks a value from linked agents
+ */
+export const ADOPT_MODE_OPTIONS = [
+  { value: 'random', label: 'Random neighbor' },
+  { value: 'majority', label: 'Majority' },
+  { value: 'average', label: 'Average' },
+];
+
+/**
+ * Condition options for on-property and if behaviors
  */
 export const CONDITION_OPTIONS = [
   { value: 'eq', label: '=' },
@@ -220,15 +406,42 @@ export function getBehaviorDef(type: BehaviorType): BehaviorDef | undefined {
   return BEHAVIOR_LIBRARY.find((b) => b.type === type);
 }
 
+/**
+ * Whether a param applies given the behavior's other params (see showWhen)
+ */
+export function isParamShown(param: ParamDef, params: Record<string, unknown>): boolean {
+  if (!param.showWhen) return true;
+  const { value } = param.showWhen;
+  const current = params[param.showWhen.param];
+  return Array.isArray(value) ? value.includes(current) : current === value;
+}
+
+/**
+ * A behavior list with the branches of 'if' behaviors expanded, depth first
+ */
+export function flattenBehaviors(behaviors: Behavior[]): Behavior[] {
+  return behaviors.flatMap((b) => [
+    b,
+    ...flattenBehaviors(b.then ?? []),
+    ...flattenBehaviors(b.else ?? []),
+  ]);
+}
+
+/**
+ * The property mapping a change from one type to another starts out with:
+ * properties of the same name carry over
+ */
+export function sharedPropertyMap(from: AgentType, to: AgentType | undefined): PropertyMap {
+  const names = new Set(from.properties.map((p) => p.name));
+  return Object.fromEntries(
+    (to?.properties ?? []).filter((p) => names.has(p.name)).map((p) => [p.name, p.name])
+  );
+}
+
 /**
  * Create a new behavior instance with default params
  */
-export function createBehavior(type: BehaviorType, id: string): {
-  id: string;
-  type: BehaviorType;
-  params: Record<string, any>;
-  enabled: boolean;
-} {
+export function createBehavior(type: BehaviorType, id: string): Behavior {
   const def = getBehaviorDef(type);
   const params: Record<string, any> = {};
   
@@ -241,5 +454,8 @@ export function createBehavior(type: BehaviorType, id: string): {
     }
   }
   
+  if (type === 'if') {
+    return { id, type, params, enabled: true, then: [], else: [] };
+  }
   return { id, type, params, enabled: true };
 }
@@ -0,0 +1,1958 @@
+/**
+ * Code Generator
+ *
+ * Turns a StudioModel into a standalone, readable ES module that imports
+ * `flocc` and rebuilds the same environment, agents, behaviors, parameters
+ * and charts. Mirrors compiler.ts: each behavior becomes a named function and
+ * random draws happen in the same order, so seeded runs match the studio.
+ */
+
+import type {
+  StudioModel,
+  AgentType,
+  Behavior,
+  Population,
+  PropertyDef,
+  MetricConfig,
+} from '@/types';
+import { DEFAULT_SEED, DEFAULT_MUTATION } from './compiler';
+import { getBehaviorDef, flattenBehaviors } from './behaviors';
+import {
+  resolveRegion,
+  DEFAULT_CLUSTER_COUNT,
+  DEFAULT_CLUSTER_SPREAD,
+} from './distributions';
+import { parseExpression, expressionToJs, ExpressionError } from './expressions';
+import { checkCustomCodeSyntax } from './customCode';
+import { getGridSize } from './patches';
+import { DEFAULT_LINK_COLOR, usesNetwork } from './network';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface TypeNames {
+  constant: string;  // e.g. PREY, holds the type ID
+  prefix: string;    // e.g. prey, used for function names
+}
+
+/**
+ * Shared state while generating a module
+ */
+export interface CodegenOptions {
+  /**
+   * 'module' (default) imports flocc and exports its functions;
+   * 'script' reads the global `flocc` from a classic <script> tag.
+   */
+  format?: 'module' | 'script';
+}
+
+interface CodegenContext {
+  model: StudioModel;
+  names: Map<string, TypeNames>;
+  helpers: Set<HelperName>;
+  // Type whose behaviors are being generated
+  agentType: AgentType | null;
+}
+
+type HelperName =
+  | 'param'
+  | 'expression'
+  | 'customCode'
+  | 'changeType'
+  | 'patches'
+  | 'signals'
+  | 'network'
+  | 'majorityValue'
+  | 'getDirection'
+  | 'findNearest'
+  | 'weightedChoice'
+  | 'inheritance'
+  | 'steering'
+  | 'positions'
+  | 'agentsOfType'
+  | 'aggregate';
+
+// ============================================================================
+// Main Generation Function
+// ============================================================================
+
+/**
+ * Generate a standalone Flocc ES module for a model
+ */
+export function generateModelCode(model: StudioModel, options: CodegenOptions = {}): string {
+  const ctx: CodegenContext = {
+    model,
+    names: buildTypeNames(model.agentTypes),
+    helpers: new Set(),
+    agentType: null,
+  };
+
+  // Generate the body first so we know which helpers it uses
+  if (model.environment.patches) ctx.helpers.add('patches');
+  if (model.environment.patches?.signals?.length) ctx.helpers.add('signals');
+  if (usesNetwork(model)) ctx.helpers.add('network');
+  const agentTypes = model.agentTypes.map((t) => generateAgentType(t, ctx)).join('\n\n');
+  const setup = generateSetup(ctx);
+  const run = generateRun(ctx);
+
+  const floccNames = [
+    'Environment',
+    'Agent',
+    'KDTree',
+    ...(ctx.helpers.has('patches') ? ['Terrain'] : []),
+    ...(ctx.helpers.has('network') ? ['Network'] : []),
+    ...(usesEvents(ctx) ? ['EventBus'] : []),
+    'CanvasRenderer',
+    'LineChartRenderer',
+    'utils',
+  ].join(', ');
+  const isScript = options.format === 'script';
+
+  const sections = [
+    generateHeader(model),
+    isScript ? `const { ${floccNames} } = flocc;` : `import { ${floccNames} } from 'flocc';`,
+    section('Configuration'),
+    generateConfig(ctx),
+    section('Helpers'),
+    generateHelpers(ctx),
+    section('Agent Types'),
+    agentTypes || '// This model has no agent types',
+    generateAgentTable(ctx),
+    section('Setup'),
+    setup,
+    section('Run'),
+    run,
+  ];
+
+  const code = sections.join('\n\n') + '\n';
+  return isScript ? code.replace(/^export /gm, '') : code;
+}
+
+/**
+ * File name for a model export, e.g. "predator-prey.js"
+ */
+export function getExportFileName(model: StudioModel, extension: string = 'js'): string {
+  const slug = model.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'model'}.${extension}`;
+}
+
+// ============================================================================
+// Module Sections
+// ============================================================================
+
+function generateHeader(model: StudioModel): string {
+  const lines = ['/**', ` * ${commentText(model.name)}`];
+  if (model.description) {
+    lines.push(' *');
+    for (const line of model.description.split('\n')) {
+      lines.push(` * ${commentText(line)}`.trimEnd());
+    }
+  }
+  lines.push(
+    ' *',
+    ' * Exported from Flocc Studio. Call run(container) in a browser to render',
+    ' * the model, or createEnvironment() to drive it yourself (e.g. in Node).',
+    ' */'
+  );
+  return lines.join('\n');
+}
+
+function generateConfig(ctx: CodegenContext): string {
+  const { environment, parameters } = ctx.model;
+  const lines = [
+    `const WIDTH = ${environment.width};`,
+    `const HEIGHT = ${environment.height};`,
+    `const WRAPAROUND = ${environment.wraparound};`,
+    `const BACKGROUND = ${literal(environment.backgroundColor || '#1a1a2e')};`,
+  ];
+
+  switch (environment.seed?.mode) {
+    case 'random':
+      lines.push('const SEED = Math.floor(Math.random() * 2147483647);');
+      break;
+    case 'custom':
+      lines.push(`const SEED = ${Math.floor(environment.seed.value ?? DEFAULT_SEED)};`);
+      break;
+    default:
+      lines.push(`const SEED = ${DEFAULT_SEED};`);
+  }
+
+  if (environment.patches) {
+    const { cellSize, columns, rows } = getGridSize(environment.patches, environment.width, environment.height);
+    lines.push(
+      '',
+      `// Patch grid: ${columns} x ${rows} cells of ${cellSize} pixels, values stored row by row`,
+      `const CELL_SIZE = ${cellSize};`,
+      `const COLUMNS = ${columns};`,
+      `const ROWS = ${rows};`,
+      'const PATCH_PROPERTIES = {'
+    );
+    for (const prop of environment.patches.properties) {
+      const { min, max, regrowth, regrowTo, color } = prop;
+      lines.push(`  ${propertyKey(prop.name)}: ${literal({ min, max, regrowth, regrowTo, color })},`);
+    }
+    lines.push('};');
+
+    const signals = environment.patches.signals ?? [];
+    if (signals.length > 0) {
+      lines.push('', '// Signals spread to neighbouring cells and evaporate every tick', 'const SIGNALS = {');
+      for (const signal of signals) {
+        const { diffusion, decay, color, max } = signal;
+        lines.push(`  ${propertyKey(signal.name)}: ${literal({ diffusion, decay, color, max })},`);
+      }
+      lines.push('};');
+    }
+  }
+
+  if (ctx.helpers.has('network')) {
+    lines.push('', `const LINK_COLOR = ${literal(environment.network?.color ?? DEFAULT_LINK_COLOR)};`);
+  }
+
+  lines.push('', '// Parameters, readable at runtime with env.get(name)');
+  if (parameters.length === 0) {
+    lines.push('export const PARAMETERS = {};');
+  } else {
+    lines.push('export const PARAMETERS = {');
+    for (const param of parameters) {
+      lines.push(`  ${propertyKey(param.name)}: ${literal(param.value)},`);
+    }
+    lines.push('};');
+  }
+
+  if (ctx.model.agentTypes.length > 0) {
+    lines.push('', '// Agent type IDs');
+    for (const agentType of ctx.model.agentTypes) {
+      const names = ctx.names.get(agentType.id)!;
+      lines.push(`const ${names.constant} = ${literal(agentType.id)}; // ${commentText(agentType.name)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Emit only the helpers the generated code actually calls
+ */
+function generateHelpers(ctx: CodegenContext): string {
+  const helpers = ctx.helpers;
+  const blocks: string[] = [];
+
+  if (helpers.has('param')) {
+    blocks.push(`/**
+ * Read a numeric parameter from the environment, falling back to a default
+ */
+function param(agent, name, fallback) {
+  const value = Number(agent.environment?.get(name) ?? NaN);
+  return Number.isFinite(value) ? value : fallback;
+}`);
+  }
+
+  if (helpers.has('expression')) {
+    blocks.push(`/**
+ * Numeric value of a property or parameter, NaN when missing
+ */
+function num(value) {
+  return value === null || value === undefined ? NaN : Number(value);
+}
+
+/**
+ * An expression's result, or the fallback when it isn't a finite number
+ */
+function finite(value, fallback) {
+  return Number.isFinite(value) ? value : fallback;
+}`);
+  }
+
+  if (helpers.has('customCode')) {
+    blocks.push(`const READ_ONLY_KEYS = ['typeId', 'tick', '_id', 'parentId', 'generation'];
+
+/**
+ * Agent type ID from a type name or ID
+ */
+function resolveType(type) {
+  const typeId = Object.keys(AGENT_TYPES).find((id) => id === type || AGENT_TYPES[id].name === type);
+  if (!typeId) throw new Error(\`Unknown agent type '\${type}'\`);
+  return typeId;
+}
+
+/**
+ * The restricted agent API that custom code behaviors see
+ */
+function agentHandle(agent, env) {
+  const typeFilter = (type) => {
+    if (type === undefined) return (a) => a !== agent;
+    const typeId = resolveType(type);
+    return (a) => a !== agent && a.get('typeId') === typeId;
+  };
+
+  return {
+    get type() {
+      return AGENT_TYPES[agent.get('typeId')]?.name ?? String(agent.get('typeId'));
+    },
+    get: (name) => agent.get(String(name)),
+    set: (name, value) => {
+      if (READ_ONLY_KEYS.includes(name)) throw new Error(\`'\${name}' is read-only\`);
+      agent.set(String(name), value);
+    },
+    neighbors: (radius, type) => env.helpers.kdtree
+      .agentsWithinDistance(agent, Number(radius), typeFilter(type))
+      .map((a) => agentHandle(a, env)),
+    nearest: (type) => {
+      const nearest = env.helpers.kdtree.nearestNeighbor(agent, typeFilter(type));
+      return nearest ? agentHandle(nearest, env) : null;
+    },
+    remove: () => env.removeAgent(agent),
+    spawn: (type, properties = {}) => {
+      const typeId = type === undefined ? agent.get('typeId') : resolveType(type);
+      const x = Number(properties.x ?? agent.get('x'));
+      const y = Number(properties.y ?? agent.get('y'));
+      const child = createAgent(env, typeId, x, y);
+      for (const [name, value] of Object.entries(properties)) {
+        if (name !== 'x' && name !== 'y' && !READ_ONLY_KEYS.includes(name)) child.set(name, value);
+      }
+      env.addAgent(child);
+      return agentHandle(child, env);
+    },
+  };
+}
+
+/**
+ * Arguments for a custom code behavior: agent, env and params
+ */
+function customCodeApi(agent, env) {
+  return [
+    agentHandle(agent, env),
+    Object.freeze({
+      tick: env.time,
+      width: WIDTH,
+      height: HEIGHT,
+      random: (min = 0, max = 1) => utils.random(min, max, true),
+    }),
+    new Proxy({}, {
+      get: (_target, name) => (typeof name === 'string' ? env.get(name) : undefined),
+      set: () => false,
+    }),
+  ];
+}`);
+  }
+
+  if (helpers.has('getDirection')) {
+    blocks.push(`/**
+ * Direction vector from point 1 to point 2 (shortest path when wrapping)
+ */
+function getDirection(x1, y1, x2, y2) {
+  let dx = x2 - x1;
+  let dy = y2 - y1;
+  if (WRAPAROUND) {
+    if (Math.abs(dx) > WIDTH / 2) dx = dx > 0 ? dx - WIDTH : dx + WIDTH;
+    if (Math.abs(dy) > HEIGHT / 2) dy = dy > 0 ? dy - HEIGHT : dy + HEIGHT;
+  }
+  return [dx, dy];
+}`);
+  }
+
+  if (helpers.has('steering')) {
+    blocks.push(`/**
+ * Add a steering force toward direction (dx, dy) at a desired speed (never
+ * above the max speed), scaled by weight. The summed force is kept on the
+ * agent as ax/ay until integrate() applies it.
+ */
+function steer(agent, dx, dy, speed, weight, kinematics) {
+  const length = Math.sqrt(dx * dx + dy * dy);
+  if (length === 0) return;
+  const desired = Math.min(speed, kinematics.maxSpeed);
+  const vx = agent.get('vx') ?? 0;
+  const vy = agent.get('vy') ?? 0;
+  agent.set('ax', (agent.get('ax') ?? 0) + ((dx / length) * desired - vx) * weight);
+  agent.set('ay', (agent.get('ay') ?? 0) + ((dy / length) * desired - vy) * weight);
+}
+
+/**
+ * Apply the summed steering force (clamped to maxForce), drag and the
+ * speed limit, then move the agent by its velocity
+ */
+function integrate(agent, kinematics) {
+  let ax = agent.get('ax') ?? 0;
+  let ay = agent.get('ay') ?? 0;
+  const force = Math.sqrt(ax * ax + ay * ay);
+  if (force > kinematics.maxForce) {
+    ax = (ax / force) * kinematics.maxForce;
+    ay = (ay / force) * kinematics.maxForce;
+  }
+
+  const damping = 1 - kinematics.drag;
+  let vx = ((agent.get('vx') ?? 0) + ax) * damping;
+  let vy = ((agent.get('vy') ?? 0) + ay) * damping;
+  const speed = Math.sqrt(vx * vx + vy * vy);
+  if (speed > kinematics.maxSpeed) {
+    vx = (vx / speed) * kinematics.maxSpeed;
+    vy = (vy / speed) * kinematics.maxSpeed;
+  }
+
+  let x = agent.get('x') + vx;
+  let y = agent.get('y') + vy;
+  if (WRAPAROUND) {
+    x = ((x % WIDTH) + WIDTH) % WIDTH;
+    y = ((y % HEIGHT) + HEIGHT) % HEIGHT;
+  }
+
+  agent.set('vx', vx);
+  agent.set('vy', vy);
+  agent.set('x', x);
+  agent.set('y', y);
+  agent.set('ax', 0);
+  agent.set('ay', 0);
+}`);
+  }
+
+  if (helpers.has('findNearest')) {
+    blocks.push(`/**
+ * Nearest agent of a given type
+ */
+function findNearest(agent, typeId) {
+  const env = agent.environment;
+  if (!env) return null;
+  return env.helpers.kdtree.nearestNeighbor(agent, (a) => a.get('typeId') === typeId);
+}`);
+  }
+
+  if (helpers.has('weightedChoice')) {
+    blocks.push(`/**
+ * Pick a value from [{ value, weight }] options
+ */
+function weightedChoice(options) {
+  const total = options.reduce((sum, o) => sum + o.weight, 0);
+  let pick = utils.random(0, total, true);
+  for (const option of options) {
+    pick -= option.weight;
+    if (pick < 0) return option.value;
+  }
+  return options[options.length - 1].value;
+}`);
+  }
+
+  if (helpers.has('inheritance')) {
+    blocks.push(`/**
+ * A parent's number plus Gaussian noise, kept within [min, max]; other
+ * values are copied
+ */
+function mutateValue(value, sd, min = -Infinity, max = Infinity) {
+  return typeof value === 'number' ? utils.clamp(value + utils.gaussian(0, sd), min, max) : value;
+}
+
+/**
+ * Halve a parent's number: the child gets one half and the parent keeps
+ * the other. Other values are copied.
+ */
+function splitValue(parent, name) {
+  const value = parent.get(name);
+  if (typeof value !== 'number') return value;
+  parent.set(name, value / 2);
+  return value / 2;
+}`);
+  }
+
+  if (helpers.has('positions')) {
+    blocks.push(`function randomPoint(region) {
+  return {
+    x: utils.random(region.x, region.x + region.width - 1, true),
+    y: utils.random(region.y, region.y + region.height - 1, true),
+  };
+}
+
+function clampToRegion(position, region) {
+  return {
+    x: utils.clamp(position.x, region.x, region.x + region.width - 1),
+    y: utils.clamp(position.y, region.y, region.y + region.height - 1),
+  };
+}
+
+function randomPositions(count, region) {
+  const positions = [];
+  for (let i = 0; i < count; i++) positions.push(randomPoint(region));
+  return positions;
+}
+
+/**
+ * Evenly spaced cells, with columns and rows matching the region's aspect ratio
+ */
+function gridPositions(count, region) {
+  const cols = Math.max(1, Math.ceil(Math.sqrt((count * region.width) / region.height)));
+  const rows = Math.ceil(count / cols);
+  const positions = [];
+  for (let i = 0; i < count; i++) {
+    positions.push({
+      x: region.x + ((i % cols) + 0.5) * (region.width / cols),
+      y: region.y + (Math.floor(i / cols) + 0.5) * (region.height / rows),
+    });
+  }
+  return positions;
+}
+
+/**
+ * Agents are dealt round-robin to clusters and scattered around each center
+ */
+function clusterPositions(count, region, centers, spread) {
+  const positions = [];
+  for (let i = 0; i < count; i++) {
+    const center = centers[i % centers.length];
+    positions.push(clampToRegion({
+      x: utils.gaussian(center.x, spread),
+      y: utils.gaussian(center.y, spread),
+    }, region));
+  }
+  return positions;
+}
+
+/**
+ * Listed positions in order; agents beyond the list are scattered randomly
+ */
+function customPositions(count, region, listed) {
+  const positions = [];
+  for (let i = 0; i < count; i++) {
+    positions.push(i < listed.length ? clampToRegion(listed[i], region) : randomPoint(region));
+  }
+  return positions;
+}`);
+  }
+
+  if (helpers.has('patches')) {
+    blocks.push(`/**
+ * Index of the patch cell containing a point
+ */
+function cellAt(x, y) {
+  let col = Math.floor(x / CELL_SIZE);
+  let row = Math.floor(y / CELL_SIZE);
+  if (WRAPAROUND) {
+    col = ((col % COLUMNS) + COLUMNS) % COLUMNS;
+    row = ((row % ROWS) + ROWS) % ROWS;
+  } else {
+    col = Math.min(Math.max(col, 0), COLUMNS - 1);
+    row = Math.min(Math.max(row, 0), ROWS - 1);
+  }
+  return row * COLUMNS + col;
+}
+
+/**
+ * Add to a patch property at a point, within its min/max
+ */
+function depositPatch(env, name, x, y, amount) {
+  const { min = -Infinity, max = Infinity } = PATCH_PROPERTIES[name];
+  const values = env.patches.values[name];
+  const i = cellAt(x, y);
+  values[i] = Math.min(Math.max(values[i] + amount, min), max);
+}
+
+/**
+ * Remove up to \`amount\` from a patch property at a point without taking it
+ * below its min (or 0). Returns the amount removed.
+ */
+function consumePatch(env, name, x, y, amount) {
+  if (!(amount > 0)) return 0;
+  const { min = 0 } = PATCH_PROPERTIES[name];
+  const values = env.patches.values[name];
+  const i = cellAt(x, y);
+  const taken = Math.max(0, Math.min(amount, values[i] - min));
+  values[i] -= taken;
+  return taken;
+}
+
+/**
+ * Apply each patch property's regrowth rate to every cell (after each tick)
+ */
+function regrowPatches(env) {
+  for (const [name, { min = 0, max = Infinity, regrowth = 0 }] of Object.entries(PATCH_PROPERTIES)) {
+    if (regrowth === 0) continue;
+    const values = env.patches.values[name];
+    const capacity = env.patches.capacity[name];
+    for (let i = 0; i < values.length; i++) {
+      if (regrowth > 0) {
+        const ceiling = capacity ? capacity[i] : max;
+        if (values[i] < ceiling) values[i] = Math.min(values[i] + regrowth, ceiling);
+      } else if (values[i] > min) {
+        values[i] = Math.max(values[i] + regrowth, min);
+      }
+    }
+  }
+}
+
+/**
+ * Draw patches into the environment's Terrain: each ${helpers.has('signals') ? 'property or signal' : 'property'} with a color
+ * blends it over the background in proportion to value / max
+ */
+function paintPatches(env) {
+  const rgb = (hex) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  const drawn = ${helpers.has('signals') ? '[...Object.entries(PATCH_PROPERTIES), ...Object.entries(SIGNALS)]' : 'Object.entries(PATCH_PROPERTIES)'}
+    .filter(([, prop]) => prop.color)
+    .map(([name, prop]) => ({ values: env.patches.values[name], color: rgb(prop.color), max: prop.max ?? 1 }));
+  const background = rgb(BACKGROUND);
+  const terrain = env.helpers.terrain;
+
+  for (let i = 0; i < COLUMNS * ROWS; i++) {
+    let [r, g, b] = background;
+    for (const { values, color, max } of drawn) {
+      const t = max > 0 ? Math.min(Math.max(values[i] / max, 0), 1) : 0;
+      r += (color[0] - r) * t;
+      g += (color[1] - g) * t;
+      b += (color[2] - b) * t;
+    }
+    terrain.set(i % COLUMNS, Math.floor(i / COLUMNS), r, g, b, 255);
+  }
+}`);
+  }
+
+  if (helpers.has('signals')) {
+    blocks.push(`/**
+ * Add to a signal at a point (signals never go below 0)
+ */
+function emitSignal(env, name, x, y, amount) {
+  const values = env.patches.values[name];
+  const i = cellAt(x, y);
+  values[i] = Math.max(0, values[i] + amount);
+}
+
+/**
+ * Direction in which a signal increases at a point: the difference between
+ * the cells one step to either side, horizontally and vertically
+ */
+function signalGradient(env, name, x, y) {
+  const values = env.patches.values[name];
+  return [
+    values[cellAt(x + CELL_SIZE, y)] - values[cellAt(x - CELL_SIZE, y)],
+    values[cellAt(x, y + CELL_SIZE)] - values[cellAt(x, y - CELL_SIZE)],
+  ];
+}
+
+/**
+ * Each signal cell keeps (1 - diffusion) of its value and shares the rest
+ * equally among its 8 neighbours; shares that would leave a bounded world
+ * stay in the cell. What remains then loses the decay fraction.
+ */
+function diffuseSignals(env) {
+  const next = new Float64Array(COLUMNS * ROWS);
+  for (const [name, { diffusion = 0, decay = 0 }] of Object.entries(SIGNALS)) {
+    const keep = 1 - decay;
+    if (diffusion === 0 && keep === 1) continue;
+    const values = env.patches.values[name];
+
+    for (let row = 0; row < ROWS; row++) {
+      for (let col = 0; col < COLUMNS; col++) {
+        const i = row * COLUMNS + col;
+        let sum = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            if (dx === 0 && dy === 0) continue;
+            let r = row + dy;
+            let c = col + dx;
+            if (WRAPAROUND) {
+              r = (r + ROWS) % ROWS;
+              c = (c + COLUMNS) % COLUMNS;
+            } else if (r < 0 || r >= ROWS || c < 0 || c >= COLUMNS) {
+              sum += values[i];
+              continue;
+            }
+            sum += values[r * COLUMNS + c];
+          }
+        }
+        next[i] = (values[i] * (1 - diffusion) + (sum * diffusion) / 8) * keep;
+      }
+    }
+    values.set(next);
+  }
+}`);
+  }
+
+  if (helpers.has('network')) {
+    blocks.push(`/**
+ * Whether two agents are linked
+ */
+function areLinked(links, a, b) {
+  return !!links.get(a)?.includes(b);
+}
+
+function connectAgents(links, a, b) {
+  if (a === b || areLinked(links, a, b)) return;
+  if (!links.has(a)) links.set(a, []);
+  if (!links.has(b)) links.set(b, []);
+  links.get(a).push(b);
+  links.get(b).push(a);
+}
+
+function disconnectAgents(links, a, b) {
+  if (!areLinked(links, a, b)) return;
+  links.get(a).splice(links.get(a).indexOf(b), 1);
+  links.get(b).splice(links.get(b).indexOf(a), 1);
+}
+
+/**
+ * Agents linked to an agent, skipping any removed from the environment
+ */
+function linkedAgents(env, agent) {
+  return (env.links.get(agent) ?? []).filter((other) => other.environment);
+}
+
+/**
+ * Forget removed agents (after each tick) and give every agent an entry,
+ * since the CanvasRenderer skips agents its Network doesn't know
+ */
+function syncLinks(env) {
+  for (const [agent, others] of env.links) {
+    if (!agent.environment) {
+      env.links.delete(agent);
+    } else if (others.some((other) => !other.environment)) {
+      env.links.set(agent, others.filter((other) => other.environment));
+    }
+  }
+  for (const agent of env.getAgents()) {
+    if (!env.links.has(agent)) env.links.set(agent, []);
+  }
+}`);
+  }
+
+  if (helpers.has('majorityValue')) {
+    blocks.push(`/**
+ * The most common value, keeping the current one when it ties for the lead
+ * and otherwise preferring whichever leader was seen first
+ */
+function majorityValue(values, current) {
+  const counts = new Map();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  let best = current;
+  let bestCount = counts.get(current) ?? 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}`);
+  }
+
+  if (helpers.has('agentsOfType')) {
+    blocks.push(`function agentsOfType(env, typeId) {
+  return env.getAgents().filter((a) => a.get('typeId') === typeId);
+}`);
+  }
+
+  if (helpers.has('aggregate')) {
+    blocks.push(`/**
+ * Aggregate a numeric property over the agents of a type
+ */
+function aggregate(env, typeId, property, aggregation) {
+  const values = agentsOfType(env, typeId)
+    .map((a) => a.get(property))
+    .filter((v) => typeof v === 'number');
+  if (values.length === 0) return 0;
+  switch (aggregation) {
+    case 'mean': return values.reduce((sum, v) => sum + v, 0) / values.length;
+    case 'min': return Math.min(...values);
+    case 'max': return Math.max(...values);
+    case 'sum': return values.reduce((sum, v) => sum + v, 0);
+    case 'median': {
+      const sorted = values.sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+    }
+    default: return 0;
+  }
+}`);
+  }
+
+  return blocks.length > 0 ? blocks.join('\n\n') : '// No helpers needed';
+}
+
+// ============================================================================
+// Agent Types
+// ============================================================================
+
+/**
+ * Property initializer, behavior functions and tick function for one type
+ */
+function generateAgentType(agentType: AgentType, ctx: CodegenContext): string {
+  const { constant, prefix } = ctx.names.get(agentType.id)!;
+  const Prefix = capitalize(prefix);
+  const blocks: string[] = [];
+  ctx.agentType = agentType;
+
+  // Steering limits
+  ctx.helpers.add('steering');
+  blocks.push([
+    `/** ${commentText(agentType.name)}: steering limits */`,
+    `const ${constant}_KINEMATICS = ${literal(agentType.kinematics)};`,
+  ].join('\n'));
+
+  // Property initializer
+  const init = [`/**`, ` * ${commentText(agentType.name)}: initial property values`, ` */`];
+  init.push(`function init${Prefix}(agent, env) {`);
+  for (const prop of agentType.properties) {
+    init.push(`  agent.set(${literal(prop.name)}, ${initialValueExpr(prop, ctx)});`);
+  }
+  init.push('}');
+  blocks.push(init.join('\n'));
+
+  // Reproduced children's values, when any property doesn't start fresh
+  if (hasInheritance(agentType)) {
+    const inherit = [`/**`, ` * ${commentText(agentType.name)}: property values for a reproduced child`, ` */`];
+    inherit.push(`function inherit${Prefix}(child, parent, env) {`);
+    for (const prop of agentType.properties) {
+      inherit.push(`  child.set(${literal(prop.name)}, ${inheritedValueExpr(prop, ctx)});`);
+    }
+    inherit.push('}');
+    blocks.push(inherit.join('\n'));
+  }
+
+  // One function per enabled behavior
+  const calls = generateBehaviorList(agentType.behaviors, prefix, new Set(), blocks, ctx);
+
+  // Tick function; agents move once their behaviors have steered
+  calls.push(`if (agent.environment) integrate(agent, ${constant}_KINEMATICS);`);
+  blocks.push([
+    `function tick${Prefix}(agent) {`,
+    indent(calls.length > 0 ? calls.join('\n') : '// No behaviors', 1),
+    '}',
+  ].join('\n'));
+
+  ctx.agentType = null;
+  return blocks.join('\n\n');
+}
+
+/**
+ * Add a function per enabled behavior to `blocks` (recursing into the
+ * branches of 'if' behaviors) and return the statements calling them
+ */
+function generateBehaviorList(
+  behaviors: Behavior[],
+  prefix: string,
+  usedNames: Set<string>,
+  blocks: string[],
+  ctx: CodegenContext
+): string[] {
+  const calls: string[] = [];
+  for (const behavior of behaviors.filter((b) => b.enabled)) {
+    const def = getBehaviorDef(behavior.type);
+    const label = def?.name ?? behavior.type;
+    const baseName = `${prefix}${identifier(label, true)}`;
+    let fnName = baseName;
+    for (let i = 2; usedNames.has(fnName); i++) fnName = `${baseName}${i}`;
+    // Claimed before the body so nested behaviors get their own names
+    usedNames.add(fnName);
+
+    const body = generateBehaviorBody(behavior, ctx, (branch) =>
+      generateBehaviorList(branch, prefix, usedNames, blocks, ctx)
+    );
+    if (body === null) {
+      usedNames.delete(fnName);
+      calls.push(`// ${label}: skipped, required settings are missing`);
+      continue;
+    }
+
+    calls.push(`${fnName}(agent);`);
+    blocks.push([
+      `/** ${label}${def ? `: ${def.description}` : ''} */`,
+      `function ${fnName}(agent) {`,
+      indent(body, 1),
+      '}',
+    ].join('\n'));
+  }
+  return calls;
+}
+
+/**
+ * Lookup table used to create agents of any type
+ */
+function generateAgentTable(ctx: CodegenContext): string {
+  const lines = ['const AGENT_TYPES = {'];
+  for (const agentType of ctx.model.agentTypes) {
+    const { constant, prefix } = ctx.names.get(agentType.id)!;
+    const Prefix = capitalize(prefix);
+    lines.push(
+      `  [${constant}]: { name: ${literal(agentType.name)}, color: ${literal(agentType.color)}, shape: ${literal(agentType.shape)}, size: ${agentType.size}, init: init${Prefix}, ${
+        hasInheritance(agentType) ? `inherit: inherit${Prefix}, ` : ''
+      }tick: tick${Prefix}${
+        ctx.helpers.has('changeType') ? `, properties: ${literal(agentType.properties.map((p) => p.name))}` : ''
+      } },`
+    );
+  }
+  lines.push('};');
+
+  lines.push('', `/**
+ * Create an agent of a type at a position (not yet added to the environment).
+ * A reproduced child passes its parent.
+ */
+function createAgent(env, typeId, x, y, parent) {
+  const type = AGENT_TYPES[typeId];
+  const agent = new Agent();
+  agent.set('typeId', typeId);
+  agent.set('x', x);
+  agent.set('y', y);
+
+  // Appearance for CanvasRenderer
+  agent.set('color', type.color);
+  agent.set('size', type.size);
+  if (type.shape === 'square') {
+    agent.set('shape', 'rect');
+    agent.set('width', type.size);
+    agent.set('height', type.size);
+  } else {
+    agent.set('shape', type.shape);
+  }
+
+  if (parent && type.inherit) {
+    type.inherit(agent, parent, env);
+  } else {
+    type.init(agent, env);
+  }
+  agent.set('tick', type.tick);
+
+  // Stable ID, numbered per environment as in the studio
+  env.nextAgentId = env.nextAgentId ?? 0;
+  agent.set('_id', 'agent_' + env.nextAgentId++);
+
+  // Lineage
+  agent.set('generation', parent ? (parent.get('generation') ?? 0) + 1 : 0);
+  if (parent) agent.set('parentId', parent.get('_id'));
+  return agent;
+}`);
+
+  if (ctx.helpers.has('changeType')) {
+    lines.push('', `/**
+ * Turn an agent into another type, keeping its position and velocity.
+ * Every property is initialized, then each one in propertyMap takes the
+ * value of the old type's property it maps to.
+ */
+function changeType(env, agent, typeId, propertyMap) {
+  const from = AGENT_TYPES[agent.get('typeId')];
+  const type = AGENT_TYPES[typeId];
+  if (!type || from === type) return;
+
+  const previous = { ...agent.getData() };
+  agent.set('typeId', typeId);
+  agent.set('color', type.color);
+  agent.set('size', type.size);
+  if (type.shape === 'square') {
+    agent.set('shape', 'rect');
+    agent.set('width', type.size);
+    agent.set('height', type.size);
+  } else {
+    agent.set('shape', type.shape);
+  }
+
+  type.init(agent, env);
+  for (const [name, source] of Object.entries(propertyMap)) {
+    if (type.properties.includes(name) && from.properties.includes(source)) {
+      agent.set(name, previous[source]);
+    }
+  }
+  agent.set('tick', type.tick);
+}`);
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Behaviors
+// ============================================================================
+
+const COMPARISON_OPERATORS: Record<string, string> = {
+  eq: '===', neq: '!==', lt: '<', lte: '<=', gt: '>', gte: '>=',
+};
+
+/**
+ * Body of a behavior function, or null when the behavior is a no-op
+ * (same cases where compileBehavior returns null). `branchCalls` generates
+ * the functions of an 'if' branch and returns the statements calling them.
+ */
+function generateBehaviorBody(
+  behavior: Behavior,
+  ctx: CodegenContext,
+  branchCalls: (behaviors: Behavior[]) => string[]
+): string | null {
+  const { type, params } = behavior;
+  const kinematics = kinematicsRef(ctx);
+
+  switch (type) {
+    case 'random-walk':
+      return `const speed = ${paramExpr(params.speed, 2, ctx)};
+
+// A fresh random heading each tick
+const angle = utils.random(0, Math.PI * 2, true);
+steer(agent, Math.cos(angle), Math.sin(angle), speed, 1, ${kinematics});`;
+
+    case 'move-forward':
+      return `const speed = ${paramExpr(params.speed, 2, ctx)};
+
+// Cruise: steer toward the current heading at this speed
+steer(agent, agent.get('vx') ?? 0, agent.get('vy') ?? 0, speed, 1, ${kinematics});`;
+
+    case 'move-toward':
+    case 'move-away': {
+      if (!params.target) return null;
+      ctx.helpers.add('findNearest');
+      ctx.helpers.add('getDirection');
+      const neg = type === 'move-toward' ? '' : '-';
+      return `if (!agent.environment) return;
+const speed = ${paramExpr(params.speed, 2, ctx)};
+const target = findNearest(agent, ${typeRef(params.target, ctx)});
+if (!target) return;
+
+const [dx, dy] = getDirection(agent.get('x'), agent.get('y'), target.get('x'), target.get('y'));
+steer(agent, ${neg}dx, ${neg}dy, speed, 1, ${kinematics});`;
+    }
+
+    case 'separate':
+      ctx.helpers.add('getDirection');
+      return `const env = agent.environment;
+if (!env) return;
+const radius = ${paramExpr(params.radius, 25, ctx)};
+const strength = ${paramExpr(params.strength, 1, ctx)};
+
+const typeId = agent.get('typeId');
+const others = env.helpers.kdtree.agentsWithinDistance(agent, radius, (a) => a.get('typeId') === typeId);
+if (others.length === 0) return;
+
+let steerX = 0;
+let steerY = 0;
+for (const other of others) {
+  const [dx, dy] = getDirection(agent.get('x'), agent.get('y'), other.get('x'), other.get('y'));
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist > 0) {
+    // Weight by inverse distance (closer = stronger repulsion)
+    steerX -= (dx / dist) / dist;
+    steerY -= (dy / dist) / dist;
+  }
+}
+
+steer(agent, steerX, steerY, ${kinematics}.maxSpeed, strength, ${kinematics});`;
+
+    case 'align':
+      return `const env = agent.environment;
+if (!env) return;
+const radius = ${paramExpr(params.radius, 50, ctx)};
+const strength = ${paramExpr(params.strength, 1, ctx)};
+
+const typeId = agent.get('typeId');
+const neighbors = env.helpers.kdtree.agentsWithinDistance(agent, radius, (a) => a.get('typeId') === typeId);
+if (neighbors.length === 0) return;
+
+// Steer toward average velocity
+const avgVx = utils.mean(neighbors.map((n) => n.get('vx')));
+const avgVy = utils.mean(neighbors.map((n) => n.get('vy')));
+steer(agent, avgVx, avgVy, ${kinematics}.maxSpeed, strength, ${kinematics});`;
+
+    case 'cohere':
+      ctx.helpers.add('getDirection');
+      return `const env = agent.environment;
+if (!env) return;
+const radius = ${paramExpr(params.radius, 75, ctx)};
+const strength = ${paramExpr(params.strength, 1, ctx)};
+
+const typeId = agent.get('typeId');
+const others = env.helpers.kdtree.agentsWithinDistance(agent, radius, (a) => a.get('typeId') === typeId);
+if (others.length === 0) return;
+
+// Average offset to neighbors (accounting for wraparound)
+let centerX = 0;
+let centerY = 0;
+for (const other of others) {
+  const [dx, dy] = getDirection(agent.get('x'), agent.get('y'), other.get('x'), other.get('y'));
+  if (Math.sqrt(dx * dx + dy * dy) < radius) {
+    centerX += dx;
+    centerY += dy;
+  }
+}
+centerX /= others.length;
+centerY /= others.length;
+
+// Steer toward center of mass
+steer(agent, centerX, centerY, ${kinematics}.maxSpeed, strength, ${kinematics});`;
+
+    case 'wiggle':
+      return `const maxAngle = ${paramExpr(params.angle, 30, ctx)} * Math.PI / 180;
+const vx = agent.get('vx') ?? 0;
+const vy = agent.get('vy') ?? 0;
+const mag = Math.sqrt(vx * vx + vy * vy);
+if (mag > 0) {
+  const angle = Math.atan2(vy, vx) + utils.random(-maxAngle, maxAngle, true);
+  agent.set('vx', Math.cos(angle) * mag);
+  agent.set('vy', Math.sin(angle) * mag);
+}`;
+
+    case 'bounce':
+      return `const x = agent.get('x');
+const y = agent.get('y');
+if (x < 0 || x >= WIDTH) {
+  agent.set('vx', -(agent.get('vx') ?? 0));
+  agent.set('x', Math.max(0, Math.min(WIDTH - 1, x)));
+}
+if (y < 0 || y >= HEIGHT) {
+  agent.set('vy', -(agent.get('vy') ?? 0));
+  agent.set('y', Math.max(0, Math.min(HEIGHT - 1, y)));
+}`;
+
+    case 'on-collision': {
+      if (!params.target) return null;
+      return `const env = agent.environment;
+if (!env) return;
+const target = env.helpers.kdtree.agentsWithinDistance(agent, ${paramExpr(params.radius, 10, ctx)}, (a) => a.get('typeId') === ${typeRef(params.target, ctx)})[0];
+if (!target) return;
+
+${generateAction(params.action ?? 'remove-target', params, true, ctx)}`;
+    }
+
+    case 'on-property': {
+      if (!params.property) return null;
+      const operator = COMPARISON_OPERATORS[params.condition ?? 'lte'];
+      if (!operator) return `// Unknown condition '${params.condition}', never met`;
+      return `const env = agent.environment;
+if (!env) return;
+const value = agent.get(${literal(params.property)});
+if (value === null || value === undefined) return;
+if (!(value ${operator} ${paramExpr(params.threshold, 0, ctx)})) return;
+
+${generateAction(params.action ?? 'remove-self', params, false, ctx)}`;
+    }
+
+    case 'increment-property':
+      if (!params.property) return null;
+      return `const amount = ${paramExpr(params.amount, -1, ctx)};
+agent.set(${literal(params.property)}, (agent.get(${literal(params.property)}) ?? 0) + amount);`;
+
+    case 'die':
+      return `const probability = ${paramExpr(params.probability, 0.01, ctx)};
+if (utils.random(0, 1, true) < probability) {
+  agent.environment?.removeAgent(agent);
+}`;
+
+    case 'reproduce':
+      return `const env = agent.environment;
+if (!env) return;
+const probability = ${paramExpr(params.probability, 0.01, ctx)};
+if (utils.random(0, 1, true) >= probability) return;
+
+const dist = utils.random(0, ${paramExpr(params.distance, 1, ctx)}, true);
+const angle = utils.random(0, 2 * Math.PI, true);
+const child = createAgent(
+  env,
+  agent.get('typeId'),
+  agent.get('x') + dist * Math.cos(angle),
+  agent.get('y') + dist * Math.sin(angle),
+  agent
+);
+
+// Copy velocity if present
+if (agent.get('vx') !== null) child.set('vx', agent.get('vx'));
+if (agent.get('vy') !== null) child.set('vy', agent.get('vy'));
+
+env.addAgent(child);`;
+
+    case 'change-type':
+      if (!params.newType) return null;
+      ctx.helpers.add('changeType');
+      return `const env = agent.environment;
+if (!env) return;
+const probability = ${paramExpr(params.probability, 0.01, ctx)};
+if (utils.random(0, 1, true) < probability) {
+  changeType(env, agent, ${typeRef(params.newType, ctx)}, ${literal(params.propertyMap ?? {})});
+}`;
+
+    case 'read-patch':
+      if (!hasPatchProperty(ctx, params.patch) || !params.property) return null;
+      return `const env = agent.environment;
+if (!env) return;
+agent.set(${literal(params.property)}, env.patches.values[${literal(params.patch)}][cellAt(agent.get('x'), agent.get('y'))]);`;
+
+    case 'consume-patch': {
+      if (!hasPatchProperty(ctx, params.patch)) return null;
+      const lines = [
+        'const env = agent.environment;',
+        'if (!env) return;',
+        `const amount = ${paramExpr(params.amount, 1, ctx)};`,
+        `const taken = consumePatch(env, ${literal(params.patch)}, agent.get('x'), agent.get('y'), amount);`,
+      ];
+      if (params.property) {
+        lines.push(`agent.set(${literal(params.property)}, (agent.get(${literal(params.property)}) ?? 0) + taken);`);
+      }
+      return lines.join('\n');
+    }
+
+    case 'deposit-patch':
+      if (!hasPatchProperty(ctx, params.patch)) return null;
+      return `const env = agent.environment;
+if (!env) return;
+const amount = ${paramExpr(params.amount, 1, ctx)};
+depositPatch(env, ${literal(params.patch)}, agent.get('x'), agent.get('y'), amount);`;
+
+    case 'emit-signal':
+      if (!hasSignal(ctx, params.signal)) return null;
+      return `const env = agent.environment;
+if (!env) return;
+const amount = ${paramExpr(params.amount, 1, ctx)};
+emitSignal(env, ${literal(params.signal)}, agent.get('x'), agent.get('y'), amount);`;
+
+    case 'follow-gradient':
+      if (!hasSignal(ctx, params.signal)) return null;
+      return `const env = agent.environment;
+if (!env) return;
+const speed = ${paramExpr(params.speed, 2, ctx)};
+const [dx, dy] = signalGradient(env, ${literal(params.signal)}, agent.get('x'), agent.get('y'));
+
+// Uphill; a plateau or peak adds no force
+steer(agent, dx, dy, speed, 1, ${kinematics});`;
+
+    case 'connect': {
+      const typeTest = params.target ? `a.get('typeId') === ${typeRef(params.target, ctx)} && ` : '';
+      return `const env = agent.environment;
+if (!env) return;
+const radius = ${paramExpr(params.radius, 10, ctx)};
+const probability = ${paramExpr(params.probability, 1, ctx)};
+if (utils.random(0, 1, true) >= probability) return;
+
+// Link to the first agent in range that isn't linked yet
+const candidates = env.helpers.kdtree.agentsWithinDistance(agent, radius, (a) => ${typeTest}!areLinked(env.links, agent, a));
+if (candidates.length > 0) {
+  connectAgents(env.links, agent, candidates[0]);
+}`;
+    }
+
+    case 'disconnect': {
+      const typeFilter = params.target ? `.filter((a) => a.get('typeId') === ${typeRef(params.target, ctx)})` : '';
+      return `const env = agent.environment;
+if (!env) return;
+const linked = linkedAgents(env, agent)${typeFilter};
+if (linked.length === 0) return;
+const probability = ${paramExpr(params.probability, 0.01, ctx)};
+if (utils.random(0, 1, true) >= probability) return;
+disconnectAgents(env.links, agent, linked[Math.floor(utils.random(0, 1, true) * linked.length)]);`;
+    }
+
+    case 'adopt-property': {
+      if (!params.property) return null;
+      const prop = literal(params.property);
+      const lines = [
+        'const env = agent.environment;',
+        'if (!env) return;',
+        'const values = linkedAgents(env, agent)',
+        `  .map((a) => a.get(${prop}))`,
+        '  .filter((v) => v !== null && v !== undefined);',
+        'if (values.length === 0) return;',
+        `const probability = ${paramExpr(params.probability, 1, ctx)};`,
+        'if (utils.random(0, 1, true) >= probability) return;',
+      ];
+      if (params.mode === 'majority') {
+        ctx.helpers.add('majorityValue');
+        lines.push(`agent.set(${prop}, majorityValue(values, agent.get(${prop})));`);
+      } else if (params.mode === 'average') {
+        lines.push(
+          "const numbers = values.filter((v) => typeof v === 'number');",
+          'if (numbers.length > 0) {',
+          `  agent.set(${prop}, numbers.reduce((sum, v) => sum + v, 0) / numbers.length);`,
+          '}'
+        );
+      } else {
+        lines.push(`agent.set(${prop}, values[Math.floor(utils.random(0, 1, true) * values.length)]);`);
+      }
+      return lines.join('\n');
+    }
+
+    case 'if': {
+      const condition = generateCondition(params, ctx);
+      if (condition === null) return null;
+      const thenCalls = branchCalls(behavior.then ?? []);
+      const elseCalls = branchCalls(behavior.else ?? []);
+
+      const lines = ['const env = agent.environment;', 'if (!env) return;', ...condition.setup];
+      lines.push(`if (${condition.test}) {`, indent(thenCalls.join('\n') || '// Nothing to do', 1));
+      if (elseCalls.length > 0) {
+        lines.push('} else {', indent(elseCalls.join('\n'), 1));
+      }
+      lines.push('}');
+      return lines.join('\n');
+    }
+
+    case 'custom-code': {
+      const code: string = params.code ?? '';
+      if (code.trim() === '') return null;
+      const syntaxError = checkCustomCodeSyntax(code);
+      if (syntaxError) {
+        return `// Custom code has a syntax error and was left out: ${syntaxError.replace(/\s+/g, ' ')}`;
+      }
+      ctx.helpers.add('customCode');
+      return `const env = agent.environment;
+if (!env) return;
+(function (agent, env, params) {
+  'use strict';
+${indent(code.trimEnd(), 1)}
+})(...customCodeApi(agent, env));`;
+    }
+
+    default:
+      return `// '${type}' is not supported by the code exporter yet`;
+  }
+}
+
+/**
+ * Test of an 'if' behavior (env in scope) and the statements computing it,
+ * or null when incomplete. Same evaluation order as compileCondition.
+ */
+function generateCondition(
+  params: Record<string, unknown>,
+  ctx: CodegenContext
+): { setup: string[]; test: string } | null {
+  const test = params.test ?? 'property';
+  if (test === 'chance') {
+    return {
+      setup: [`const probability = ${paramExpr(params.probability, 0.5, ctx)};`],
+      test: 'utils.random(0, 1, true) < probability',
+    };
+  }
+
+  const setup: string[] = [];
+  if (test === 'property') {
+    if (!params.property) return null;
+    setup.push(`const value = Number(agent.get(${literal(params.property)}) ?? NaN);`);
+  } else if (test === 'nearby') {
+    if (!params.target) return null;
+    setup.push(
+      `const radius = ${paramExpr(params.radius, 25, ctx)};`,
+      `const value = env.helpers.kdtree.agentsWithinDistance(agent, radius, (a) => a.get('typeId') === ${typeRef(params.target, ctx)}).length;`
+    );
+  } else if (test === 'linked') {
+    const typeFilter = params.target ? `.filter((a) => a.get('typeId') === ${typeRef(params.target, ctx)})` : '';
+    setup.push(`const value = linkedAgents(env, agent)${typeFilter}.length;`);
+  } else if (test === 'parameter') {
+    if (!params.parameter) return null;
+    setup.push(`const value = Number(env.get(${literal(params.parameter)}) ?? NaN);`);
+  } else {
+    return null;
+  }
+
+  const operator = COMPARISON_OPERATORS[String(params.comparison ?? 'lt')];
+  if (!operator) return { setup: [`// Unknown comparison '${params.comparison}', never met`], test: 'false' };
+  return { setup, test: `value ${operator} ${paramExpr(params.value, 0, ctx)}` };
+}
+
+/**
+ * Statement for an event behavior's action (agent and env in scope, plus
+ * target when the event has one)
+ */
+function generateAction(
+  action: string,
+  params: Record<string, unknown>,
+  hasTarget: boolean,
+  ctx: CodegenContext
+): string {
+  switch (action) {
+    case 'remove-self':
+      return 'env.removeAgent(agent);';
+
+    case 'remove-target':
+      return hasTarget ? 'env.removeAgent(target);' : '// Remove Target: this event has no target';
+
+    case 'set-property': {
+      const propName = params.property ?? params.setProperty;
+      if (!propName) return '// Set Property: no property selected';
+      const value = params.value !== undefined ? params.value : params.setValue;
+      return `agent.set(${literal(propName)}, ${paramExpr(value, 0, ctx)});`;
+    }
+
+    case 'increment-property': {
+      const propName = params.incrementProperty;
+      if (!propName) return '// Increment Property: no property selected';
+      return `agent.set(${literal(propName)}, (agent.get(${literal(propName)}) ?? 0) + ${paramExpr(params.incrementAmount, 1, ctx)});`;
+    }
+
+    case 'take-from-target': {
+      if (!hasTarget) return '// Take From Target: this event has no target';
+      const { fromProperty, toProperty } = params;
+      if (!fromProperty || !toProperty) return '// Take From Target: no property selected';
+      return `// Never more than the target has
+const available = Math.max(0, Number(target.get(${literal(fromProperty)})) || 0);
+const taken = Math.min(${paramExpr(params.transferAmount, 1, ctx)}, available);
+if (taken > 0) {
+  target.set(${literal(fromProperty)}, available - taken);
+  agent.set(${literal(toProperty)}, (agent.get(${literal(toProperty)}) ?? 0) + taken);
+}`;
+    }
+
+    case 'copy-from-target': {
+      if (!hasTarget) return '// Copy From Target: this event has no target';
+      const { fromProperty, toProperty } = params;
+      if (!fromProperty || !toProperty) return '// Copy From Target: no property selected';
+      return `agent.set(${literal(toProperty)}, target.get(${literal(fromProperty)}));`;
+    }
+
+    case 'set-target-property':
+      if (!hasTarget) return '// Set Target Property: this event has no target';
+      if (!params.targetProperty) return '// Set Target Property: no property selected';
+      return `target.set(${literal(params.targetProperty)}, ${paramExpr(params.targetValue, 0, ctx)});`;
+
+    case 'change-type':
+      if (!params.newType) return '// Change Type: no type selected';
+      ctx.helpers.add('changeType');
+      return `changeType(env, agent, ${typeRef(params.newType, ctx)}, ${literal(params.propertyMap ?? {})});`;
+
+    default:
+      return `// Unknown action '${action}'`;
+  }
+}
+
+// ============================================================================
+// Setup and Run
+// ============================================================================
+
+function generateSetup(ctx: CodegenContext): string {
+  const { model } = ctx;
+  const lines = [
+    '/**',
+    ' * Create the initial agents. Seeds the random generator first, so',
+    ' * the same seed always produces the same run.',
+    ' */',
+    'export function setup(env, seed = SEED) {',
+    '  utils.seed(seed);',
+  ];
+
+  const patches = model.environment.patches;
+  if (patches) {
+    lines.push('', '  // Patch values are drawn before any agents are placed', '  env.patches = createPatches(env);');
+  }
+
+  for (const pop of model.populations) {
+    const agentType = model.agentTypes.find((t) => t.id === pop.agentTypeId);
+    if (!agentType) continue;
+
+    const { constant } = ctx.names.get(agentType.id)!;
+    ctx.helpers.add('positions');
+
+    lines.push('', `  // ${commentText(agentType.name)}: ${pop.count} agents, ${pop.distribution} placement`);
+    lines.push(`  for (const { x, y } of ${positionsExpr(pop, ctx)}) {`);
+    lines.push(`    const agent = createAgent(env, ${constant}, x, y);`);
+
+    // Same velocity initialization as compileModel
+    const allBehaviors = flattenBehaviors(agentType.behaviors);
+    const hasMoveForward = allBehaviors.some((b) => b.type === 'move-forward' && b.enabled);
+    const hasFlocking = allBehaviors.some((b) =>
+      ['separate', 'align', 'cohere'].includes(b.type) && b.enabled
+    );
+    if (hasMoveForward || hasFlocking) {
+      const speedParam = allBehaviors.find((b) => b.type === 'move-forward')?.params.speed;
+      const speed = paramExpr(speedParam, 2, ctx, 'env');
+      lines.push(
+        '    const angle = utils.random(0, Math.PI * 2, true);',
+        `    const speed = ${speed};`,
+        "    agent.set('vx', Math.cos(angle) * speed);",
+        "    agent.set('vy', Math.sin(angle) * speed);"
+      );
+    }
+
+    lines.push('    env.addAgent(agent);', '  }');
+  }
+
+  const topology = model.environment.network?.topology ?? 'none';
+  if (ctx.helpers.has('network')) {
+    lines.push(
+      '',
+      topology === 'none' ? '  // Links between agents' : '  // The initial network links the agents just created',
+      topology === 'none' ? '  env.links = new Map();' : '  env.links = createLinks(env);'
+    );
+  }
+
+  lines.push('}');
+
+  if (ctx.helpers.has('network') && topology !== 'none') {
+    lines.push('', generateTopology(ctx));
+  }
+
+  if (patches) {
+    const init = [
+      '/**',
+      ' * Patch grid with each cell\'s starting values. `capacity` holds the',
+      ' * regrowth ceilings of properties that regrow to their initial values.',
+      ' */',
+      'function createPatches(env) {',
+      '  const size = COLUMNS * ROWS;',
+      '  const values = {};',
+      '  const capacity = {};',
+    ];
+    for (const prop of patches.properties) {
+      const key = literal(prop.name);
+      init.push(
+        '',
+        `  values[${key}] = new Float64Array(size);`,
+        '  for (let i = 0; i < size; i++) {',
+        `    values[${key}][i] = ${initialValueExpr({ ...prop, type: 'number' }, ctx)};`,
+        '  }'
+      );
+      if (prop.regrowTo === 'initial') {
+        init.push(`  capacity[${key}] = values[${key}].slice();`);
+      }
+    }
+    for (const signal of patches.signals ?? []) {
+      init.push('', `  values[${literal(signal.name)}] = new Float64Array(size);`);
+    }
+    init.push('', '  return { values, capacity };', '}');
+    lines.unshift(...init, '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * createLinks(env) for the model's initial topology, with the same random
+ * draws as buildTopology
+ */
+function generateTopology(ctx: CodegenContext): string {
+  const { network, wraparound } = ctx.model.environment;
+  const half = Math.max(1, Math.floor((network!.degree ?? 4) / 2));
+  const k = Math.max(0, Math.round(network!.degree ?? 4));
+  const lines = [
+    '/**',
+    ` * Link the initial agents (${network!.topology} network)`,
+    ' */',
+    'function createLinks(env) {',
+    '  const links = new Map();',
+    '  const agents = env.getAgents();',
+    '  const n = agents.length;',
+    '  if (n < 2) return links;',
+    '',
+  ];
+
+  switch (network!.topology) {
+    case 'random':
+      lines.push(
+        '  // Each pair is linked independently',
+        '  for (let i = 0; i < n; i++) {',
+        '    for (let j = i + 1; j < n; j++) {',
+        `      if (utils.random(0, 1, true) < ${network!.probability ?? 0.05}) connectAgents(links, agents[i], agents[j]);`,
+        '    }',
+        '  }'
+      );
+      break;
+
+    case 'small-world':
+      lines.push(
+        '  // A ring where each agent links to its nearest ring neighbours...',
+        `  const half = ${half};`,
+        '  for (let i = 0; i < n; i++) {',
+        '    for (let j = 1; j <= half; j++) connectAgents(links, agents[i], agents[(i + j) % n]);',
+        '  }',
+        '',
+        '  // ...then each link is rewired to a random agent with some chance',
+        '  for (let j = 1; j <= half; j++) {',
+        '    for (let i = 0; i < n; i++) {',
+        `      if (utils.random(0, 1, true) >= ${network!.rewire ?? 0.1}) continue;`,
+        '      const agent = agents[i];',
+        '      const other = agents[Math.floor(utils.random(0, 1, true) * n)];',
+        '      if (other === agent || areLinked(links, agent, other)) continue;',
+        '      disconnectAgents(links, agent, agents[(i + j) % n]);',
+        '      connectAgents(links, agent, other);',
+        '    }',
+        '  }'
+      );
+      break;
+
+    case 'nearest-k':
+      lines.push(
+        `  // Each agent links to the ${k} agents closest to it`,
+        '  for (let i = 0; i < n; i++) {',
+        '    const nearest = [];',
+        '    for (let j = 0; j < n; j++) {',
+        '      if (j === i) continue;',
+        wraparound ? "      let dx = Math.abs(agents[i].get('x') - agents[j].get('x'));" : "      const dx = Math.abs(agents[i].get('x') - agents[j].get('x'));",
+        wraparound ? "      let dy = Math.abs(agents[i].get('y') - agents[j].get('y'));" : "      const dy = Math.abs(agents[i].get('y') - agents[j].get('y'));",
+        ...(wraparound ? ['      dx = Math.min(dx, WIDTH - dx);', '      dy = Math.min(dy, HEIGHT - dy);'] : []),
+        '      nearest.push({ j, d: dx * dx + dy * dy });',
+        '    }',
+        '    nearest.sort((a, b) => a.d - b.d || a.j - b.j);',
+        `    for (const { j } of nearest.slice(0, ${k})) connectAgents(links, agents[i], agents[j]);`,
+        '  }'
+      );
+      break;
+  }
+
+  lines.push('', '  return links;', '}');
+  return lines.join('\n');
+}
+
+function generateRun(ctx: CodegenContext): string {
+  const lines = [
+    `/**
+ * Build the environment with parameters and initial agents
+ */
+export function createEnvironment(seed = SEED) {
+  ${usesEvents(ctx)
+    ? 'const env = new Environment({ torus: WRAPAROUND, width: WIDTH, height: HEIGHT, events: new EventBus() });'
+    : 'const env = new Environment({ torus: WRAPAROUND, width: WIDTH, height: HEIGHT });'}
+  for (const [name, value] of Object.entries(PARAMETERS)) {
+    env.set(name, value);
+  }
+  setup(env, seed);
+  env.use(new KDTree(env.getAgents()));${ctx.model.environment.patches ? `
+
+  // Patches are drawn under the agents (one terrain cell per patch) and
+  // ${ctx.helpers.has('signals') ? 'regrow (and signals diffuse)' : 'regrow'} after every tick, before renderers redraw
+  env.use(new Terrain(COLUMNS, ROWS, { scale: CELL_SIZE }));
+  paintPatches(env);
+  env.events.on('tick:end', () => {
+    regrowPatches(env);${ctx.helpers.has('signals') ? `
+    diffuseSignals(env);` : ''}
+    paintPatches(env);
+  });` : ''}${ctx.helpers.has('network') ? `
+
+  // Links are drawn through a Flocc Network sharing the link table (its own
+  // connect() rebuilds an n x n matrix, too slow for large models)
+  const network = new Network();
+  network.adjacencyList = env.links;
+  env.use(network);
+  syncLinks(env);
+  env.events.on('tick:end', () => syncLinks(env));` : ''}
+  return env;
+}
+
+/**
+ * Line charts for the model's visualizations
+ */
+export function createCharts(env) {
+  const charts = [];`,
+  ];
+
+  const chartNames = new Set<string>();
+  for (const viz of ctx.model.visualizations ?? []) {
+    if (!viz.enabled || viz.type !== 'line-chart') continue;
+
+    const base = `${identifier(viz.name, false) || 'line'}Chart`;
+    let chartVar = base;
+    for (let i = 2; chartNames.has(chartVar); i++) chartVar = `${base}${i}`;
+    chartNames.add(chartVar);
+    const options: Record<string, unknown> = {
+      width: 400,
+      height: 200,
+      autoScale: viz.options.autoScale,
+      autoScroll: viz.options.autoScroll,
+      range: viz.options.range ?? { min: 0, max: 100 },
+      background: '#ffffff',
+    };
+
+    lines.push(
+      '',
+      `  // ${commentText(viz.name)}`,
+      `  const ${chartVar} = new LineChartRenderer(env, ${literal(options)});`
+    );
+    for (const series of viz.series) {
+      const fn = metricExpr(series.metric, ctx);
+      if (!fn) continue;
+      lines.push(
+        `  ${chartVar}.metric(${literal(series.name)}, { color: ${literal(series.color)}, fn: () => ${fn} });`
+      );
+    }
+    lines.push(`  charts.push({ name: ${literal(viz.name)}, renderer: ${chartVar} });`);
+  }
+
+  lines.push(`
+  return charts;
+}
+
+/**
+ * Render the model into a container element and start ticking.
+ * Charts, if any, are appended below the simulation canvas.
+ */
+export function run(container) {
+  const env = createEnvironment();
+
+  const renderer = new CanvasRenderer(env, { width: WIDTH, height: HEIGHT, background: BACKGROUND${ctx.helpers.has('network') ? ', connectionColor: LINK_COLOR, connectionOpacity: 0.6' : ''} });
+  renderer.mount(container);
+
+  for (const chart of createCharts(env)) {
+    const chartContainer = document.createElement('div');
+    container.appendChild(chartContainer);
+    chart.renderer.mount(chartContainer);
+  }
+
+  // env.tick() also redraws every renderer attached to env
+  function frame() {
+    env.tick();
+    requestAnimationFrame(frame);
+  }
+  requestAnimationFrame(frame);
+
+  return env;
+}`);
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Expressions
+// ============================================================================
+
+/**
+ * Code for a numeric behavior param (mirrors compileParam): a literal, a
+ * parameter lookup for "$name", or the expression's JavaScript equivalent.
+ * `envExpr` is the code yielding the Environment where the value is used.
+ */
+function paramExpr(
+  value: unknown,
+  fallback: number,
+  ctx: CodegenContext,
+  envExpr: string = 'agent.environment'
+): string {
+  if (typeof value === 'number') return literal(value);
+  if (typeof value !== 'string') return literal(fallback);
+
+  try {
+    const ast = parseExpression(value);
+    if (ast.type === 'number') return literal(ast.value);
+    if (ast.type === 'parameter' && envExpr === 'agent.environment') {
+      ctx.helpers.add('param');
+      return `param(agent, ${literal(ast.name)}, ${literal(fallback)})`;
+    }
+    ctx.helpers.add('expression');
+    return `finite(${expressionToJs(ast, envExpr, 'num')}, ${literal(fallback)})`;
+  } catch (error) {
+    if (!(error instanceof ExpressionError)) throw error;
+    return `${literal(fallback)} /* ${commentText(`invalid expression ${literal(value)}: ${error.message}`)} */`;
+  }
+}
+
+/**
+ * Expression for a property's starting value (mirrors sampleInitialValue)
+ */
+function initialValueExpr(prop: PropertyDef, ctx: CodegenContext): string {
+  const init = prop.initial;
+  if (!init) return literal(prop.defaultValue);
+
+  const clamp = (expr: string): string => {
+    if (prop.min !== undefined && prop.max !== undefined) return `utils.clamp(${expr}, ${prop.min}, ${prop.max})`;
+    if (prop.min !== undefined) return `Math.max(${expr}, ${prop.min})`;
+    if (prop.max !== undefined) return `Math.min(${expr}, ${prop.max})`;
+    return expr;
+  };
+
+  switch (init.type) {
+    case 'uniform':
+      return clamp(`utils.random(${init.min}, ${init.max}, true)`);
+    case 'normal':
+      return clamp(`utils.gaussian(${init.mean}, ${init.sd})`);
+    case 'choice': {
+      const options = init.options.filter((o) => o.weight > 0);
+      if (options.length === 0) return literal(prop.defaultValue);
+      ctx.helpers.add('weightedChoice');
+      return `weightedChoice(${literal(options)})`;
+    }
+    case 'parameter':
+      return `env.get(${literal(init.parameter)}) ?? ${literal(prop.defaultValue)}`;
+    default:
+      return literal(prop.defaultValue);
+  }
+}
+
+/**
+ * Name of the steering limits constant for the type being generated
+ */
+function kinematicsRef(ctx: CodegenContext): string {
+  return `${ctx.names.get(ctx.agentType!.id)!.constant}_KINEMATICS`;
+}
+
+/**
+ * Whether a type's reproduced children need their own property values
+ */
+function hasInheritance(agentType: AgentType): boolean {
+  return (
+    agentType.properties.some((p) => (p.inheritance ?? 'default') !== 'default') &&
+    flattenBehaviors(agentType.behaviors).some((b) => b.enabled && b.type === 'reproduce')
+  );
+}
+
+/**
+ * Expression for a reproduced child's value (mirrors inheritValue)
+ */
+function inheritedValueExpr(prop: PropertyDef, ctx: CodegenContext): string {
+  const name = literal(prop.name);
+  switch (prop.inheritance) {
+    case 'copy':
+      return `parent.get(${name})`;
+    case 'mutate': {
+      ctx.helpers.add('inheritance');
+      const args = [`parent.get(${name})`, String(prop.mutation ?? DEFAULT_MUTATION)];
+      if (prop.max !== undefined) args.push(String(prop.min ?? -Infinity), String(prop.max));
+      else if (prop.min !== undefined) args.push(String(prop.min));
+      return `mutateValue(${args.join(', ')})`;
+    }
+    case 'split':
+      ctx.helpers.add('inheritance');
+      return `splitValue(parent, ${name})`;
+    default:
+      return initialValueExpr(prop, ctx);
+  }
+}
+
+/**
+ * Expression producing a population's initial positions (mirrors getPopulationPositions)
+ */
+function positionsExpr(pop: Population, ctx: CodegenContext): string {
+  const { width, height } = ctx.model.environment;
+  const region = literal(resolveRegion(pop.region, width, height));
+
+  switch (pop.distribution) {
+    case 'grid':
+      return `gridPositions(${pop.count}, ${region})`;
+
+    case 'cluster': {
+      const spread = Math.max(0, pop.clusters?.spread ?? DEFAULT_CLUSTER_SPREAD);
+      const centers = pop.clusters?.centers?.filter((c) => Number.isFinite(c.x) && Number.isFinite(c.y)) ?? [];
+      if (centers.length > 0) {
+        return `clusterPositions(${pop.count}, ${region}, ${literal(centers)}, ${spread})`;
+      }
+      const clusterCount = Math.max(1, Math.floor(pop.clusters?.count ?? DEFAULT_CLUSTER_COUNT));
+      return `clusterPositions(${pop.count}, ${region}, randomPositions(${clusterCount}, ${region}), ${spread})`;
+    }
+
+    case 'custom': {
+      const listed = (pop.positions ?? []).filter((p) => Number.isFinite(p.x) && Number.isFinite(p.y));
+      return `customPositions(${pop.count}, ${region}, ${literal(listed)})`;
+    }
+
+    default:
+      return `randomPositions(${pop.count}, ${region})`;
+  }
+}
+
+/**
+ * Expression computing a chart series value (mirrors createMetricFunction)
+ */
+function metricExpr(metric: MetricConfig, ctx: CodegenContext): string | null {
+  const typeId = typeRef(metric.agentTypeId, ctx);
+  ctx.helpers.add('agentsOfType');
+
+  if (metric.type === 'count') {
+    return `agentsOfType(env, ${typeId}).length`;
+  }
+  if (metric.type === 'property') {
+    ctx.helpers.add('aggregate');
+    return `aggregate(env, ${typeId}, ${literal(metric.property)}, ${literal(metric.aggregation)})`;
+  }
+  return null;
+}
+
+/**
+ * Whether the model defines a patch property with this name
+ */
+function hasPatchProperty(ctx: CodegenContext, name: unknown): boolean {
+  return !!ctx.model.environment.patches?.properties.some((p) => p.name === name);
+}
+
+/**
+ * Whether the exported environment needs an EventBus (for work done after
+ * every tick)
+ */
+function usesEvents(ctx: CodegenContext): boolean {
+  return !!ctx.model.environment.patches || ctx.helpers.has('network');
+}
+
+/**
+ * Whether the model defines a signal with this name
+ */
+function hasSignal(ctx: CodegenContext, name: unknown): boolean {
+  return !!ctx.model.environment.patches?.signals?.some((s) => s.name === name);
+}
+
+/**
+ * Constant name for an agent type ID, or the raw ID if the type no longer exists
+ */
+function typeRef(typeId: unknown, ctx: CodegenContext): string {
+  return ctx.names.get(typeId as string)?.constant ?? literal(typeId);
+}
+
+// ============================================================================
+// Formatting Helpers
+// ============================================================================
+
+/**
+ * Unique, valid identifiers for each agent type, derived from its name
+ */
+function buildTypeNames(agentTypes: AgentType[]): Map<string, TypeNames> {
+  const names = new Map<string, TypeNames>();
+  const used = new Set<string>();
+
+  for (const agentType of agentTypes) {
+    const base = identifier(agentType.name, false) || 'agent';
+    let prefix = base;
+    for (let i = 2; used.has(prefix); i++) prefix = `${base}${i}`;
+    used.add(prefix);
+
+    names.set(agentType.id, {
+      prefix,
+      constant: prefix.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase(),
+    });
+  }
+
+  return names;
+}
+
+/**
+ * camelCase (or PascalCase) identifier from free text, e.g. "Random Walk" -> randomWalk
+ */
+function identifier(text: string, pascal: boolean): string {
+  const words = text.match(/[A-Za-z0-9]+/g) ?? [];
+  const joined = words
+    .map((w, i) => (i === 0 && !pascal ? w.charAt(0).toLowerCase() : w.charAt(0).toUpperCase()) + w.slice(1))
+    .join('');
+  return /^[0-9]/.test(joined) ? `_${joined}` : joined;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * JavaScript literal for a JSON-compatible value, formatted like hand-written code
+ */
+function literal(value: unknown): string {
+  if (typeof value === 'string') {
+    return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(literal).join(', ')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return '{}';
+    return `{ ${entries.map(([k, v]) => `${propertyKey(k)}: ${literal(v)}`).join(', ')} }`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Object key, quoted only when it isn't a valid identifier
+ */
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : literal(name);
+}
+
+/**
+ * Keep user text from closing a comment early
+ */
+function commentText(text: string): string {
+  return text.replace(/\*\//g, '* /');
+}
+
+function indent(code: string, depth: number): string {
+  const pad = '  '.repeat(depth);
+  return code
+    .split('\n')
+    .map((line) => (line ? pad + line : line))
+    .join('\n');
+}
+
+function section(title: string): string {
+  const rule = '// ' + '='.repeat(76);
+  return `${rule}\n// ${title}\n${rule}`;
+}
@@ -6,15 +6,22 @@
  */
 
 import { Environment, Agent, utils } from 'flocc';
-import type { StudioModel, AgentType, Behavior } from '@/types';
+import type { StudioModel, AgentType, Behavior, PropertyDef, PropertyMap, SeedConfig, Kinematics } from '@/types';
 import type { AgentTypeMetadata } from './SimulationEngine';
+import { getPopulationPositions } from './distributions';
+import { flattenBehaviors } from './behaviors';
+import { compileParamExpression, ExpressionError, type Evaluator } from './expressions';
+import { compileCustomCode, BehaviorError } from './customCode';
+import { PatchGrid, attachPatches, getPatches } from './patches';
+import { AgentNetwork, attachNetwork, buildTopology, getNetwork, usesNetwork } from './network';
+import { steer, integrate } from './steering';
 
 // ============================================================================
 // Compilation Result
 // ============================================================================
 
 export interface CompiledModel {
-  setup: (env: Environment) => void;
+  setup: (env: Environment, seed: number) => void;
   agentTypes: Map<string, AgentTypeMetadata>;
   envConfig: {
     width: number;
@@ -24,6 +31,52 @@ export interface CompiledModel {
   };
 }
 
+// ============================================================================
+// Random Seed
+// ============================================================================
+
+/**
+ * Seed used for 'fixed' mode and for models saved before seeds were configurable
+ */
+export const DEFAULT_SEED = 12345;
+
+/**
+ * Pick the seed for a run. 'random' mode draws a fresh seed on every call,
+ * so each reset explores a new trajectory.
+ */
+export function resolveSeed(config?: SeedConfig): number {
+  switch (config?.mode) {
+    case 'custom':
+      return Math.floor(config.value ?? DEFAULT_SEED);
+    case 'random':
+      return Math.floor(Math.random() * 2147483647);
+    default:
+      return DEFAULT_SEED;
+  }
+}
+
+// ============================================================================
+// Agent IDs
+// ============================================================================
+
+// Next ID per environment; a reset builds a new environment, so IDs replay
+const nextAgentIds = new WeakMap<Environment, number>();
+
+/**
+ * An agent's studio ID (`agent_N`), as used in snapshots, links and
+ * lineage. Agents get theirs when created; any without one get the next.
+ */
+export function ensureAgentId(agent: Agent, env: Environment): string {
+  const existing = agent.get('_id') as string | null;
+  if (existing !== null) return existing;
+
+  const next = nextAgentIds.get(env) ?? 0;
+  nextAgentIds.set(env, next + 1);
+  const id = `agent_${next}`;
+  agent.set('_id', id);
+  return id;
+}
+
 // ============================================================================
 // Main Compilation Function
 // ============================================================================
@@ -33,21 +86,61 @@ export interface CompiledModel {
  */
 export function compileModel(model: StudioModel): CompiledModel {
   // Build agent type metadata
-  const agentTypes = new Map<string, AgentTypeMetadata>();
-  for (const agentType of model.agentTypes) {
-    agentTypes.set(agentType.id, {
-      id: agentType.id,
-      name: agentType.name,
-      color: agentType.color,
-      shape: agentType.shape,
-      size: agentType.size,
-    });
-  }
+  const agentTypes = getAgentTypeMetadata(model);
 
   // Build tick functions for each agent type
   const tickFunctions = new Map<string, (agent: Agent) => void>();
+
+  // Agents created at runtime by custom code: initial properties and tick
+  // function, like a reproduced child
+  const createAgent: AgentFactory = (typeId, x, y, env) => {
+    const agent = new Agent();
+    agent.set('typeId', typeId);
+    agent.set('x', x);
+    agent.set('y', y);
+    agent.set('generation', 0);
+    const agentType = model.agentTypes.find((t) => t.id === typeId);
+    for (const prop of agentType?.properties ?? []) {
+      agent.set(prop.name, sampleInitialValue(prop, env));
+    }
+    const tickFn = tickFunctions.get(typeId);
+    if (tickFn) agent.set('tick', tickFn);
+    ensureAgentId(agent, env);
+    return agent;
+  };
+
+  // Metamorphosis: the agent keeps its position and velocity, and takes the
+  // new type's properties and tick function. The renderer picks up the new
+  // appearance from typeId.
+  const changeType: TypeChanger = (agent, typeId, propertyMap, env) => {
+    const from = model.agentTypes.find((t) => t.id === agent.get('typeId'));
+    const to = model.agentTypes.find((t) => t.id === typeId);
+    if (!to || from === to) return;
+
+    // Every property is sampled, then mapped ones are overwritten, so the
+    // number of random draws doesn't depend on the mapping
+    const carried = Object.entries(propertyMap)
+      .filter(([, source]) => from?.properties.some((p) => p.name === source))
+      .map(([target, source]) => [target, agent.get(source)] as const);
+    agent.set('typeId', typeId);
+    for (const prop of to.properties) {
+      agent.set(prop.name, sampleInitialValue(prop, env));
+    }
+    for (const [name, value] of carried) {
+      if (to.properties.some((p) => p.name === name)) agent.set(name, value);
+    }
+
+    const tickFn = tickFunctions.get(typeId);
+    if (tickFn) agent.set('tick', tickFn);
+  };
+
+  // Initial speed for agents that start with a velocity
+  const initialSpeeds = new Map<string, Evaluator>();
   for (const agentType of model.agentTypes) {
-    tickFunctions.set(agentType.id, compileAgentTickFunction(agentType, model));
+    tickFunctions.set(agentType.id, compileAgentTickFunction(agentType, model, { createAgent, changeType }));
+
+    const moveForward = flattenBehaviors(agentType.behaviors).find((b) => b.type === 'move-forward');
+    initialSpeeds.set(agentType.id, moveForward ? compileParam(moveForward, 'speed', 2) : () => 2);
   }
 
   // Environment config
@@ -58,46 +151,53 @@ export function compileModel(model: StudioModel): CompiledModel {
     backgroundColor: model.environment.backgroundColor,
   };
 
+  const hasNetwork = usesNetwork(model);
+
   // Setup function
-  const setup = (env: Environment) => {
-    // Seed random for reproducibility
-    utils.seed(12345);
+  const setup = (env: Environment, seed: number) => {
+    // Seed random for reproducibility. All random draws happen after this
+    // point (none at compile time), so the same seed gives the same run.
+    utils.seed(seed);
+
+    // Patch values are drawn before any agents are placed
+    if (model.environment.patches) {
+      const grid = new PatchGrid(model.environment.patches, envConfig.width, envConfig.height, envConfig.wraparound);
+      grid.initialize((prop) => Number(sampleInitialValue({ ...prop, type: 'number' }, env)));
+      attachPatches(env, grid);
+    }
 
     for (const pop of model.populations) {
       const agentType = model.agentTypes.find((t) => t.id === pop.agentTypeId);
       if (!agentType) continue;
 
       const tickFn = tickFunctions.get(agentType.id);
+      const initialSpeed = initialSpeeds.get(agentType.id)!;
+      const positions = getPopulationPositions(pop, envConfig.width, envConfig.height);
 
-      for (let i = 0; i < pop.count; i++) {
+      for (const position of positions) {
         const agent = new Agent();
         agent.set('typeId', agentType.id);
-        agent.set('x', utils.random(0, envConfig.width - 1, true));
-        agent.set('y', utils.random(0, envConfig.height - 1, true));
+        agent.set('x', position.x);
+        agent.set('y', position.y);
+        agent.set('generation', 0);
         
         // Initialize custom properties
         for (const prop of agentType.properties) {
-          agent.set(prop.name, prop.defaultValue);
+          agent.set(prop.name, sampleInitialValue(prop, env));
         }
         
-        // Initialize velocity for movement behaviors
-        const hasMoveForward = agentType.behaviors.some(b => b.type === 'move-forward' && b.enabled);
-        const hasFlocking = agentType.behaviors.some(b => 
+        // Initialize velocity for movement behaviors (including ones in 'if' branches)
+        const allBehaviors = flattenBehaviors(agentType.behaviors);
+        const hasMoveForward = allBehaviors.some(b => b.type === 'move-forward' && b.enabled);
+        const hasFlocking = allBehaviors.some(b => 
           ['separate', 'align', 'cohere'].includes(b.type) && b.enabled
         );
         
         if (hasMoveForward || hasFlocking) {
           // Random initial velocity
           const angle = utils.random(0, Math.PI * 2, true);
-          const speedParam = agentType.behaviors.find(b => b.type === 'move-forward')?.params.speed ?? 2;
-          // Resolve parameter reference (e.g. "$speed" -> env.get("speed"))
-          let speed: number;
-          if (typeof speedParam === 'string' && speedParam.startsWith('$')) {
-            const paramName = speedParam.slice(1);
-            speed = (env.get(paramName) as number) ?? 2;
-          } else {
-            speed = speedParam as number;
-          }
+          // The agent isn't in the environment yet, so pass it explicitly
+          const speed = initialSpeed(agent, env);
           agent.set('vx', Math.cos(angle) * speed);
           agent.set('vy', Math.sin(angle) * speed);
         }
@@ -109,20 +209,159 @@ export function compileModel(model: StudioModel): CompiledModel {
         env.addAgent(agent);
       }
     }
+
+    // The initial network links the agents just created
+    if (hasNetwork) {
+      const network = new AgentNetwork();
+      if (model.environment.network) {
+        buildTopology(network, env.getAgents(), model.environment.network, envConfig);
+      }
+      attachNetwork(env, network);
+    }
   };
 
   return { setup, agentTypes, envConfig };
 }
 
+/**
+ * Build the visual metadata (color, shape, size) for each agent type
+ */
+export function getAgentTypeMetadata(model: StudioModel): Map<string, AgentTypeMetadata> {
+  const agentTypes = new Map<string, AgentTypeMetadata>();
+  for (const agentType of model.agentTypes) {
+    agentTypes.set(agentType.id, {
+      id: agentType.id,
+      name: agentType.name,
+      color: agentType.color,
+      shape: agentType.shape,
+      size: agentType.size,
+    });
+  }
+  return agentTypes;
+}
+
+// ============================================================================
+// Property Initialization
+// ============================================================================
+
+/**
+ * Draw a property's starting value for one agent.
+ * Numeric samples are clamped to the property's min/max when set.
+ */
+function sampleInitialValue(prop: PropertyDef, env: Environment): unknown {
+  const init = prop.initial;
+  if (!init) return prop.defaultValue;
+
+  switch (init.type) {
+    case 'uniform':
+      return clampToProperty(prop, utils.random(init.min, init.max, true));
+
+    case 'normal':
+      return clampToProperty(prop, utils.gaussian(init.mean, init.sd));
+
+    case 'choice': {
+      const options = init.options.filter((o) => o.weight > 0);
+      const total = options.reduce((sum, o) => sum + o.weight, 0);
+      if (total === 0) return prop.defaultValue;
+
+      let pick = utils.random(0, total, true);
+      for (const option of options) {
+        pick -= option.weight;
+        if (pick < 0) return option.value;
+      }
+      return options[options.length - 1].value;
+    }
+
+    case 'parameter': {
+      const value = env.get(init.parameter);
+      return value ?? prop.defaultValue;
+    }
+
+    default:
+      return prop.defaultValue;
+  }
+}
+
+/**
+ * Default standard deviation for 'mutate' inheritance
+ */
+export const DEFAULT_MUTATION = 0.1;
+
+/**
+ * A reproduced child's value for a property. Splitting halves the parent's
+ * value as a side effect. Mutate and split copy non-numeric values as is.
+ */
+function inheritValue(prop: PropertyDef, parent: Agent, env: Environment): unknown {
+  const value = parent.get(prop.name);
+
+  switch (prop.inheritance) {
+    case 'copy':
+      return value;
+
+    case 'mutate':
+      if (typeof value !== 'number') return value;
+      return clampToProperty(prop, value + utils.gaussian(0, prop.mutation ?? DEFAULT_MUTATION));
+
+    case 'split':
+      if (typeof value !== 'number') return value;
+      parent.set(prop.name, value / 2);
+      return value / 2;
+
+    default:
+      return sampleInitialValue(prop, env);
+  }
+}
+
+function clampToProperty(prop: PropertyDef, value: number): number {
+  if (prop.min !== undefined && value < prop.min) return prop.min;
+  if (prop.max !== undefined && value > prop.max) return prop.max;
+  return value;
+}
+
 // ============================================================================
 // Agent Tick Function Compilation
 // ============================================================================
 
+type AgentFactory = (typeId: string, x: number, y: number, env: Environment) => Agent;
+type TypeChanger = (agent: Agent, typeId: string, propertyMap: PropertyMap, env: Environment) => void;
+
+/**
+ * Agent lifecycle operations behaviors need, bound to the compiled model
+ */
+interface AgentOps {
+  createAgent: AgentFactory;
+  changeType: TypeChanger;
+}
+
 /**
- * Compile tick function for an agent type
+ * Compile tick function for an agent type. Agents move once, after their
+ * behaviors have steered them.
  */
-function compileAgentTickFunction(agentType: AgentType, model: StudioModel): (agent: Agent) => void {
-  const enabledBehaviors = agentType.behaviors.filter((b) => b.enabled);
+function compileAgentTickFunction(
+  agentType: AgentType,
+  model: StudioModel,
+  agents: AgentOps
+): (agent: Agent) => void {
+  const { kinematics } = agentType;
+  const behaviorsFn = compileBehaviorList(agentType.behaviors, model, agents, kinematics);
+
+  return (agent: Agent) => {
+    behaviorsFn(agent);
+    if (agent.environment) integrate(agent, kinematics, model.environment);
+  };
+}
+
+/**
+ * Compile a list of behaviors (an agent type's, or an 'if' branch) into one
+ * function running the enabled ones in order
+ */
+function compileBehaviorList(
+  behaviors: Behavior[],
+  model: StudioModel,
+  agents: AgentOps,
+  kinematics: Kinematics
+): (agent: Agent) => void {
+  const enabledBehaviors = behaviors.filter((b) => b.enabled);
   
   if (enabledBehaviors.length === 0) {
     return () => {}; // No-op if no behaviors
@@ -130,10 +369,10 @@ function compileAgentTickFunction(agentType: AgentType, model: StudioModel): (ag
 
   // Compile each behavior to a function
   const behaviorFns = enabledBehaviors.map((behavior) => 
-    compileBehavior(behavior, model, agentType.id)
+    compileBehavior(behavior, model, agents, kinematics)
   ).filter((fn): fn is (agent: Agent) => void => fn !== null);
 
-  // Combined tick function
+  // Combined function
   return (agent: Agent) => {
     for (const fn of behaviorFns) {
       fn(agent);
@@ -142,12 +381,14 @@ function compileAgentTickFunction(agentType: AgentType, model: StudioModel): (ag
 }
 
 /**
- * Compile a single behavior to a function
+ * Compile a single behavior to a function. Movement behaviors add steering
+ * forces (see ./steering) instead of moving the agent.
  */
 function compileBehavior(
   behavior: Behavior, 
   model: StudioModel, 
-  agentTypeId: string
+  agents: AgentOps,
+  kinematics: Kinematics
 ): ((agent: Agent) => void) | null {
   const { type, params } = behavior;
   const envWidth = model.environment.width;
@@ -156,121 +397,65 @@ function compileBehavior(
 
   switch (type) {
     case 'random-walk': {
-      const speedParam = params.speed;
+      const speedParam = compileParam(behavior, 'speed', 2);
       return (agent: Agent) => {
-        const speed = resolveParam(speedParam, agent, 2);
+        // A fresh random heading each tick
+        const speed = speedParam(agent);
         const angle = utils.random(0, Math.PI * 2, true);
-        const x = agent.get('x') as number;
-        const y = agent.get('y') as number;
-        let nx = x + Math.cos(angle) * speed;
-        let ny = y + Math.sin(angle) * speed;
-        
-        if (wraparound) {
-          nx = ((nx % envWidth) + envWidth) % envWidth;
-          ny = ((ny % envHeight) + envHeight) % envHeight;
-        }
-        
-        agent.set('x', nx);
-        agent.set('y', ny);
+        steer(agent, Math.cos(angle), Math.sin(angle), speed, 1, kinematics);
       };
     }
 
     case 'move-forward': {
-      const speedParam = params.speed;
+      const speedParam = compileParam(behavior, 'speed', 2);
       return (agent: Agent) => {
-        const speed = resolveParam(speedParam, agent, 2);
-        let vx = agent.get('vx') as number ?? 0;
-        let vy = agent.get('vy') as number ?? 0;
-        
-        // Normalize and apply speed
-        const mag = Math.sqrt(vx * vx + vy * vy);
-        if (mag > 0) {
-          vx = (vx / mag) * speed;
-          vy = (vy / mag) * speed;
-          agent.set('vx', vx);
-          agent.set('vy', vy);
-        }
-        
-        const x = agent.get('x') as number;
-        const y = agent.get('y') as number;
-        let nx = x + vx;
-        let ny = y + vy;
-        
-        if (wraparound) {
-          nx = ((nx % envWidth) + envWidth) % envWidth;
-          ny = ((ny % envHeight) + envHeight) % envHeight;
-        }
-        
-        agent.set('x', nx);
-        agent.set('y', ny);
-      };
-    }
-
-    case 'move-toward': {
-      const speed = params.speed ?? 2;
-      const targetTypeId = params.target;
-      if (!targetTypeId) return null;
-      
-      return (agent: Agent) => {
-        const env = agent.environment;
-        if (!env) return;
-        
-        const x = agent.get('x') as number;
-        const y = agent.get('y') as number;
-        const target = findNearest(agent, targetTypeId);
-        
-        if (target) {
-          const tx = target.get('x') as number;
-          const ty = target.get('y') as number;
-          const [dx, dy] = getDirection(x, y, tx, ty, envWidth, envHeight, wraparound);
-          const dist = Math.sqrt(dx * dx + dy * dy);
-          
-          if (dist > 0) {
-            agent.set('x', x + (dx / dist) * speed);
-            agent.set('y', y + (dy / dist) * speed);
-          }
-        }
+        // Cruise: steer toward the current heading at this speed
+        const vx = (agent.get('vx') as number) ?? 0;
+        const vy = (agent.get('vy') as number) ?? 0;
+        steer(agent, vx, vy, speedParam(agent), 1, kinematics);
       };
     }
 
+    case 'move-toward':
     case 'move-away': {
-      const speed = params.speed ?? 2;
+      const speedParam = compileParam(behavior, 'speed', 2);
       const targetTypeId = params.target;
+      const sign = type === 'move-toward' ? 1 : -1;
       if (!targetTypeId) return null;
       
       return (agent: Agent) => {
         const env = agent.environment;
         if (!env) return;
         
-        const x = agent.get('x') as number;
-        const y = agent.get('y') as number;
+        const speed = speedParam(agent);
         const target = findNearest(agent, targetTypeId);
         
         if (target) {
-          const tx = target.get('x') as number;
-          const ty = target.get('y') as number;
-          const [dx, dy] = getDirection(x, y, tx, ty, envWidth, envHeight, wraparound);
-          const dist = Math.sqrt(dx * dx + dy * dy);
-          
-          if (dist > 0) {
-            agent.set('x', x - (dx / dist) * speed);
-            agent.set('y', y - (dy / dist) * speed);
-          }
+          const [dx, dy] = getDirection(
+            agent.get('x') as number,
+            agent.get('y') as number,
+            target.get('x') as number,
+            target.get('y') as number,
+            envWidth,
+            envHeight,
+            wraparound
+          );
+          steer(agent, sign * dx, sign * dy, speed, 1, kinematics);
         }
       };
     }
 
     case 'separate': {
-      const radiusParam = params.radius;
-      const strengthParam = params.strength;
+      const radiusParam = compileParam(behavior, 'radius', 25);
+      const strengthParam = compileParam(behavior, 'strength', 1);
       
       return (agent: Agent) => {
         const env = agent.environment;
         if (!env) return;
         
-        // Resolve parameters at runtime (supports "$paramName" references)
-        const radius = resolveParam(radiusParam, agent, 25);
-        const strength = resolveParam(strengthParam, agent, 1);
+        // Evaluate parameters at runtime (supports "$paramName" and expressions)
+        const radius = radiusParam(agent);
+        const strength = strengthParam(agent);
         
         const x = agent.get('x') as number;
         const y = agent.get('y') as number;
@@ -296,55 +481,47 @@ function compileBehavior(
             steerY -= (dy / dist) / dist;
           }
         }
-        
-        const vx = (agent.get('vx') as number) ?? 0;
-        const vy = (agent.get('vy') as number) ?? 0;
-        agent.set('vx', vx + steerX * strength);
-        agent.set('vy', vy + steerY * strength);
+
+        steer(agent, steerX, steerY, kinematics.maxSpeed, strength, kinematics);
       };
     }
 
     case 'align': {
-      const radiusParam = params.radius;
-      const strengthParam = params.strength;
+      const radiusParam = compileParam(behavior, 'radius', 50);
+      const strengthParam = compileParam(behavior, 'strength', 1);
       
       return (agent: Agent) => {
         const env = agent.environment;
         if (!env) return;
         
         // Resolve parameters at runtime
-        const radius = resolveParam(radiusParam, agent, 50);
-        const strength = resolveParam(strengthParam, agent, 1);
+        const radius = radiusParam(agent);
+        const strength = strengthParam(agent);
         
         const typeId = agent.get('typeId') as string;
 
         const neighbors = env.helpers.kdtree.agentsWithinDistance(agent, radius, (a) => a.get('typeId') === typeId);
-        const count = neighbors.length;
         
-        if (count > 0) {
+        if (neighbors.length > 0) {
+          // Steer toward the neighbors' average heading
           const avgVx = utils.mean(neighbors.map((n) => n.get('vx')));
           const avgVy = utils.mean(neighbors.map((n) => n.get('vy')));
-          const vx = (agent.get('vx') as number) ?? 0;
-          const vy = (agent.get('vy') as number) ?? 0;
-          
-          // Steer toward average velocity
-          agent.set('vx', vx + (avgVx - vx) * strength * 0.1);
-          agent.set('vy', vy + (avgVy - vy) * strength * 0.1);
+          steer(agent, avgVx, avgVy, kinematics.maxSpeed, strength, kinematics);
         }
       };
     }
 
     case 'cohere': {
-      const radiusParam = params.radius;
-      const strengthParam = params.strength;
+      const radiusParam = compileParam(behavior, 'radius', 75);
+      const strengthParam = compileParam(behavior, 'strength', 1);
       
       return (agent: Agent) => {
         const env = agent.environment;
         if (!env) return;
         
         // Resolve parameters at runtime
-        const radius = resolveParam(radiusParam, agent, 75);
-        const strength = resolveParam(strengthParam, agent, 1);
+        const radius = radiusParam(agent);
+        const strength = strengthParam(agent);
         
         const x = agent.get('x') as number;
         const y = agent.get('y') as number;
@@ -371,22 +548,18 @@ function compileBehavior(
           }
         }
         
+        // Steer toward center of mass
         centerX /= others.length;
         centerY /= others.length;
-        
-        const vx = (agent.get('vx') as number) ?? 0;
-        const vy = (agent.get('vy') as number) ?? 0;
-        
-        // Steer toward center of mass
-        agent.set('vx', vx + centerX * strength * 0.01);
-        agent.set('vy', vy + centerY * strength * 0.01);
+        steer(agent, centerX, centerY, kinematics.maxSpeed, strength, kinematics);
       };
     }
 
     case 'wiggle': {
-      const maxAngle = (params.angle ?? 30) * Math.PI / 180;
+      const angleParam = compileParam(behavior, 'angle', 30);
       
       return (agent: Agent) => {
+        const maxAngle = angleParam(agent) * Math.PI / 180;
         const vx = (agent.get('vx') as number) ?? 0;
         const vy = (agent.get('vy') as number) ?? 0;
         const mag = Math.sqrt(vx * vx + vy * vy);
@@ -423,8 +596,8 @@ function compileBehavior(
 
     case 'on-collision': {
       const targetTypeId = params.target;
-      const radius = params.radius ?? 10;
-      const action = params.action ?? 'remove-target';
+      const radiusParam = compileParam(behavior, 'radius', 10);
+      const action = compileAction(behavior, params.action ?? 'remove-target', agents);
       
       if (!targetTypeId) return null;
       
@@ -432,6 +605,8 @@ function compileBehavior(
         const env = agent.environment;
         if (!env) return;
         
+        const radius = radiusParam(agent);
+        
         // Find colliding agent
         const neighbors = env.helpers.kdtree.agentsWithinDistance(agent, radius, (a) => a.get('typeId') === targetTypeId);
         if (neighbors.length === 0) {
@@ -439,15 +614,15 @@ function compileBehavior(
         }
         
         // Execute action
-        executeAction(agent, neighbors[0], action, params, env);
+        action(agent, neighbors[0], env);
       };
     }
 
     case 'on-property': {
       const propName = params.property;
       const condition = params.condition ?? 'lte';
-      const threshold = params.threshold ?? 0;
-      const action = params.action ?? 'remove-self';
+      const thresholdParam = compileParam(behavior, 'threshold', 0);
+      const action = compileAction(behavior, params.action ?? 'remove-self', agents);
       
       if (!propName) return null;
       
@@ -458,6 +633,8 @@ function compileBehavior(
         const value = agent.get(propName) as number;
         if (value === null || value === undefined) return;
         
+        const threshold = thresholdParam(agent);
+        
         // Check condition
         let conditionMet = false;
         switch (condition) {
@@ -472,26 +649,28 @@ function compileBehavior(
         if (!conditionMet) return;
         
         // Execute action
-        executeAction(agent, null, action, params, env);
+        action(agent, null, env);
       };
     }
 
     case 'increment-property': {
       const propName = params.property;
-      const amount = params.amount ?? -1;
+      const amountParam = compileParam(behavior, 'amount', -1);
       
       if (!propName) return null;
       
       return (agent: Agent) => {
+        const amount = amountParam(agent);
         const current = (agent.get(propName) as number) ?? 0;
         agent.set(propName, current + amount);
       };
     }
 
     case 'die': {
-      const probability = params.probability ?? 0.01;
+      const probabilityParam = compileParam(behavior, 'probability', 0.01);
       
       return (agent: Agent) => {
+        const probability = probabilityParam(agent);
         if (utils.random(0, 1, true) < probability) {
           agent.environment?.removeAgent(agent);
         }
@@ -499,20 +678,23 @@ function compileBehavior(
     }
 
     case 'reproduce': {
-      const probability = params.probability ?? 0.01;
-      const dist = utils.random(0, params.distance ?? 1, true);
+      const probabilityParam = compileParam(behavior, 'probability', 0.01);
+      const distanceParam = compileParam(behavior, 'distance', 1);
       
       return (agent: Agent) => {
         const env = agent.environment;
         if (!env) return;
         
+        const probability = probabilityParam(agent);
         if (utils.random(0, 1, true) < probability) {
+          const maxDistance = distanceParam(agent);
+          const dist = utils.random(0, maxDistance, true);
+          const angle = utils.random(0, 2 * Math.PI, true);
           const child = new Agent();
           const x = agent.get('x') as number;
           const y = agent.get('y') as number;
           
           child.set('typeId', agent.get('typeId'));
-          const angle = utils.random(0, 2 * Math.PI, true);
           const deltaVec = {
             x: dist * Math.cos(angle),
             y: dist * Math.sin(angle),
@@ -526,13 +708,18 @@ function compileBehavior(
           if (vx !== null) child.set('vx', vx);
           if (vy !== null) child.set('vy', vy);
           
-          // For custom properties, use default value
+          // Custom properties follow each property's inheritance mode
           const agentType = model.agentTypes.find(t => t.id === agent.get('typeId'));
           if (agentType) {
             for (const prop of agentType.properties) {
-              child.set(prop.name, prop.defaultValue);
+              child.set(prop.name, inheritValue(prop, agent, env));
             }
           }
+
+          // Lineage, by studio ID (Flocc's own agent.id isn't in snapshots)
+          child.set('parentId', ensureAgentId(agent, env));
+          ensureAgentId(child, env);
+          child.set('generation', (Number(agent.get('generation')) || 0) + 1);
           
           // Copy tick function (access via .data since 'tick' is a disallowed get() key in Flocc)
           const tickFn = (agent as any).data?.tick;
@@ -543,81 +730,441 @@ function compileBehavior(
       };
     }
 
+    case 'change-type': {
+      const typeId = params.newType;
+      const probabilityParam = compileParam(behavior, 'probability', 0.01);
+      const propertyMap: PropertyMap = params.propertyMap ?? {};
+
+      if (!typeId) return null;
+
+      return (agent: Agent) => {
+        const env = agent.environment;
+        if (!env) return;
+
+        const probability = probabilityParam(agent);
+        if (utils.random(0, 1, true) < probability) {
+          agents.changeType(agent, typeId, propertyMap, env);
+        }
+      };
+    }
+
+    case 'read-patch': {
+      const patchName = params.patch;
+      const propName = params.property;
+
+      if (!hasPatchProperty(model, patchName) || !propName) return null;
+
+      return (agent: Agent) => {
+        const patches = agent.environment && getPatches(agent.environment);
+        if (!patches) return;
+
+        agent.set(propName, patches.get(patchName, agent.get('x') as number, agent.get('y') as number));
+      };
+    }
+
+    case 'consume-patch': {
+      const patchName = params.patch;
+      const propName = params.property;
+      const amountParam = compileParam(behavior, 'amount', 1);
+
+      if (!hasPatchProperty(model, patchName)) return null;
+
+      return (agent: Agent) => {
+        const patches = agent.environment && getPatches(agent.environment);
+        if (!patches) return;
+
+        const amount = amountParam(agent);
+        const taken = patches.consume(patchName, agent.get('x') as number, agent.get('y') as number, amount);
+        if (propName) {
+          const current = (agent.get(propName) as number) ?? 0;
+          agent.set(propName, current + taken);
+        }
+      };
+    }
+
+    case 'deposit-patch': {
+      const patchName = params.patch;
+      const amountParam = compileParam(behavior, 'amount', 1);
+
+      if (!hasPatchProperty(model, patchName)) return null;
+
+      return (agent: Agent) => {
+        const patches = agent.environment && getPatches(agent.environment);
+        if (!patches) return;
+
+        const amount = amountParam(agent);
+        patches.deposit(patchName, agent.get('x') as number, agent.get('y') as number, amount);
+      };
+    }
+
+    case 'emit-signal': {
+      const signalName = params.signal;
+      const amountParam = compileParam(behavior, 'amount', 1);
+
+      if (!hasSignal(model, signalName)) return null;
+
+      return (agent: Agent) => {
+        const patches = agent.environment && getPatches(agent.environment);
+        if (!patches) return;
+
+        const amount = amountParam(agent);
+        patches.emit(signalName, agent.get('x') as number, agent.get('y') as number, amount);
+      };
+    }
+
+    case 'follow-gradient': {
+      const signalName = params.signal;
+      const speedParam = compileParam(behavior, 'speed', 2);
+
+      if (!hasSignal(model, signalName)) return null;
+
+      return (agent: Agent) => {
+        const patches = agent.environment && getPatches(agent.environment);
+        if (!patches) return;
+
+        const speed = speedParam(agent);
+        const [dx, dy] = patches.gradient(signalName, agent.get('x') as number, agent.get('y') as number);
+
+        // Uphill; a plateau or peak adds no force
+        steer(agent, dx, dy, speed, 1, kinematics);
+      };
+    }
+
+    case 'connect': {
+      const targetTypeId = params.target;
+      const radiusParam = compileParam(behavior, 'radius', 10);
+      const probabilityParam = compileParam(behavior, 'probability', 1);
+
+      return (agent: Agent) => {
+        const env = agent.environment;
+        const network = env && getNetwork(env);
+        if (!env || !network) return;
+
+        const radius = radiusParam(agent);
+        const probability = probabilityParam(agent);
+        if (utils.random(0, 1, true) >= probability) return;
+
+        // Link to the first agent in range that isn't linked yet
+        const candidates = env.helpers.kdtree.agentsWithinDistance(agent, radius, (a) =>
+          (!targetTypeId || a.get('typeId') === targetTypeId) && !network.areConnected(agent, a)
+        );
+        if (candidates.length > 0) {
+          network.connect(agent, candidates[0]);
+        }
+      };
+    }
+
+    case 'disconnect': {
+      const targetTypeId = params.target;
+      const probabilityParam = compileParam(behavior, 'probability', 0.01);
+
+      return (agent: Agent) => {
+        const network = agent.environment && getNetwork(agent.environment);
+        if (!network) return;
+
+        const linked = network.neighbors(agent).filter((a) =>
+          !targetTypeId || a.get('typeId') === targetTypeId
+        );
+        if (linked.length === 0) return;
+
+        const probability = probabilityParam(agent);
+        if (utils.random(0, 1, true) >= probability) return;
+
+        const other = linked[Math.floor(utils.random(0, 1, true) * linked.length)];
+        network.disconnect(agent, other);
+      };
+    }
+
+    case 'adopt-property': {
+      const propName = params.property;
+      const mode: string = params.mode ?? 'random';
+      const probabilityParam = compileParam(behavior, 'probability', 1);
+
+      if (!propName) return null;
+
+      return (agent: Agent) => {
+        const network = agent.environment && getNetwork(agent.environment);
+        if (!network) return;
+
+        const values = network.neighbors(agent)
+          .map((a) => a.get(propName))
+          .filter((v) => v !== null && v !== undefined);
+        if (values.length === 0) return;
+
+        const probability = probabilityParam(agent);
+        if (utils.random(0, 1, true) >= probability) return;
+
+        if (mode === 'majority') {
+          agent.set(propName, majorityValue(values, agent.get(propName)));
+        } else if (mode === 'average') {
+          const numbers = values.filter((v): v is number => typeof v === 'number');
+          if (numbers.length > 0) {
+            agent.set(propName, numbers.reduce((sum, v) => sum + v, 0) / numbers.length);
+          }
+        } else {
+          agent.set(propName, values[Math.floor(utils.random(0, 1, true) * values.length)]);
+        }
+      };
+    }
+
+    case 'if': {
+      const condition = compileCondition(behavior);
+      if (!condition) return null;
+      const thenFn = compileBehaviorList(behavior.then ?? [], model, agents, kinematics);
+      const elseFn = compileBehaviorList(behavior.else ?? [], model, agents, kinematics);
+
+      return (agent: Agent) => {
+        const env = agent.environment;
+        if (!env) return;
+
+        if (condition(agent, env)) {
+          thenFn(agent);
+        } else {
+          elseFn(agent);
+        }
+      };
+    }
+
+    case 'custom-code':
+      return compileCustomCode(behavior, { model, createAgent: agents.createAgent });
+
     default:
       return null;
   }
 }
 
 // ============================================================================
-// Action Execution
+// Condition Compilation
 // ============================================================================
 
+type ConditionFn = (agent: Agent, env: Environment) => boolean;
+
 /**
- * Execute an action from an event behavior
+ * Compile the test of an 'if' behavior, or null when it's incomplete
+ * (the block is then skipped, like an event behavior without a target)
  */
-function executeAction(
-  agent: Agent,
-  target: Agent | null,
-  action: string,
-  params: Record<string, any>,
-  env: Environment
-): void {
+function compileCondition(behavior: Behavior): ConditionFn | null {
+  const { params } = behavior;
+  const comparison: string = params.comparison ?? 'lt';
+  const valueParam = compileParam(behavior, 'value', 0);
+
+  switch (params.test ?? 'property') {
+    case 'property': {
+      const propName = params.property;
+      if (!propName) return null;
+      return (agent) => {
+        const value = toNumber(agent.get(propName));
+        return compare(value, comparison, valueParam(agent));
+      };
+    }
+
+    case 'nearby': {
+      const targetTypeId = params.target;
+      if (!targetTypeId) return null;
+      const radiusParam = compileParam(behavior, 'radius', 25);
+      return (agent, env) => {
+        const radius = radiusParam(agent);
+        const count = env.helpers.kdtree
+          .agentsWithinDistance(agent, radius, (a) => a.get('typeId') === targetTypeId)
+          .length;
+        return compare(count, comparison, valueParam(agent));
+      };
+    }
+
+    case 'linked': {
+      const targetTypeId = params.target;
+      return (agent, env) => {
+        const linked = getNetwork(env)?.neighbors(agent) ?? [];
+        const count = targetTypeId
+          ? linked.filter((a) => a.get('typeId') === targetTypeId).length
+          : linked.length;
+        return compare(count, comparison, valueParam(agent));
+      };
+    }
+
+    case 'parameter': {
+      const paramName = params.parameter;
+      if (!paramName) return null;
+      return (agent, env) => {
+        const value = toNumber(env.get(paramName));
+        return compare(value, comparison, valueParam(agent));
+      };
+    }
+
+    case 'chance': {
+      const probabilityParam = compileParam(behavior, 'probability', 0.5);
+      return (agent) => {
+        const probability = probabilityParam(agent);
+        return utils.random(0, 1, true) < probability;
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * The most common value, keeping the current one when it ties for the lead
+ * and otherwise preferring whichever leader was seen first
+ */
+function majorityValue(values: unknown[], current: unknown): unknown {
+  const counts = new Map<unknown, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  let best = current;
+  let bestCount = counts.get(current) ?? 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function compare(value: number, comparison: string, threshold: number): boolean {
+  switch (comparison) {
+    case 'eq': return value === threshold;
+    case 'neq': return value !== threshold;
+    case 'lt': return value < threshold;
+    case 'lte': return value <= threshold;
+    case 'gt': return value > threshold;
+    case 'gte': return value >= threshold;
+    default: return false;
+  }
+}
+
+/**
+ * Numeric value of a property or parameter (booleans count as 0/1), NaN when missing
+ */
+function toNumber(value: unknown): number {
+  if (value === null || value === undefined) return NaN;
+  return Number(value);
+}
+
+// ============================================================================
+// Action Compilation
+// ============================================================================
+
+type ActionFn = (agent: Agent, target: Agent | null, env: Environment) => void;
+
+/**
+ * Compile an action from an event behavior. Value expressions are
+ * evaluated only when the action fires.
+ */
+function compileAction(behavior: Behavior, action: string, agents: AgentOps): ActionFn {
+  const { params } = behavior;
+
   switch (action) {
     case 'remove-self':
-      env.removeAgent(agent);
-      break;
-      
+      return (agent, _target, env) => env.removeAgent(agent);
+
     case 'remove-target':
-      if (target) {
-        env.removeAgent(target);
-      }
-      break;
-      
+      return (_agent, target, env) => {
+        if (target) {
+          env.removeAgent(target);
+        }
+      };
+
     case 'set-property': {
       const propName = params.property ?? params.setProperty;
-      const value = params.value ?? params.setValue ?? 0;
-      if (propName) {
-        agent.set(propName, value);
-      }
-      break;
+      const valueParam = compileParam(behavior, params.value !== undefined ? 'value' : 'setValue', 0);
+      return (agent) => {
+        if (propName) {
+          agent.set(propName, valueParam(agent));
+        }
+      };
     }
-      
+
     case 'increment-property': {
       const propName = params.incrementProperty;
-      const amount = params.incrementAmount ?? 1;
-      if (propName) {
-        const current = (agent.get(propName) as number) ?? 0;
-        agent.set(propName, current + amount);
-      }
-      break;
+      const amountParam = compileParam(behavior, 'incrementAmount', 1);
+      return (agent) => {
+        if (propName) {
+          const current = (agent.get(propName) as number) ?? 0;
+          agent.set(propName, current + amountParam(agent));
+        }
+      };
+    }
+
+    case 'take-from-target': {
+      const fromProp = params.fromProperty;
+      const toProp = params.toProperty;
+      const amountParam = compileParam(behavior, 'transferAmount', 1);
+      return (agent, target) => {
+        if (!target || !fromProp || !toProp) return;
+        // Never more than the target has, so nothing is created or lost
+        const available = Math.max(0, Number(target.get(fromProp)) || 0);
+        const taken = Math.min(amountParam(agent), available);
+        if (!(taken > 0)) return;
+        target.set(fromProp, available - taken);
+        agent.set(toProp, ((agent.get(toProp) as number) ?? 0) + taken);
+      };
+    }
+
+    case 'copy-from-target': {
+      const fromProp = params.fromProperty;
+      const toProp = params.toProperty;
+      return (agent, target) => {
+        if (target && fromProp && toProp) {
+          agent.set(toProp, target.get(fromProp));
+        }
+      };
+    }
+
+    case 'set-target-property': {
+      const propName = params.targetProperty;
+      const valueParam = compileParam(behavior, 'targetValue', 0);
+      return (agent, target) => {
+        if (target && propName) {
+          target.set(propName, valueParam(agent));
+        }
+      };
     }
+
+    case 'change-type': {
+      const typeId = params.newType;
+      const propertyMap: PropertyMap = params.propertyMap ?? {};
+      return (agent, _target, env) => {
+        if (typeId) {
+          agents.changeType(agent, typeId, propertyMap, env);
+        }
+      };
+    }
+
+    default:
+      return () => {};
   }
 }
 
 // ============================================================================
-// Parameter Resolution
+// Parameter Compilation
 // ============================================================================
 
 /**
- * Resolve a parameter value. If the value is a string starting with "$",
- * it's treated as a parameter reference and read from the environment at runtime.
- * Otherwise, returns the literal value.
- * 
- * Usage in behavior params:
- *   radius: 25          -> returns 25
- *   radius: "$myParam"  -> returns env.get("myParam") at runtime
+ * Compile a numeric behavior param into an evaluator. The value is either a
+ * literal or an expression string (see ./expressions):
+ *   radius: 25                 -> 25
+ *   radius: "$myParam"         -> env.get("myParam") at runtime
+ *   radius: "$myParam * 2"     -> evaluated for each agent at runtime
+ *
+ * Invalid expressions throw a BehaviorError here, at compile time.
  */
-function resolveParam(
-  value: any, 
-  agent: Agent, 
-  fallback: any
-): any {
-  if (typeof value === 'string' && value.startsWith('$')) {
-    const paramName = value.slice(1);
-    const envValue = agent.environment?.get(paramName);
-    return envValue !== undefined ? envValue : fallback;
+function compileParam(behavior: Behavior, key: string, fallback: number): Evaluator {
+  try {
+    return compileParamExpression(behavior.params[key] ?? fallback, fallback);
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      throw new BehaviorError(
+        `Invalid expression for '${key}' in ${behavior.type} behavior: ${error.message}`,
+        behavior.id
+      );
+    }
+    throw error;
   }
-  return value ?? fallback;
 }
 
 // ============================================================================
@@ -638,6 +1185,20 @@ function findNearest(
   return nearest;
 }
 
+/**
+ * Whether the model defines a patch property with this name
+ */
+function hasPatchProperty(model: StudioModel, name: unknown): name is string {
+  return !!model.environment.patches?.properties.some((p) => p.name === name);
+}
+
+/**
+ * Whether the model defines a signal with this name
+ */
+function hasSignal(model: StudioModel, name: unknown): name is string {
+  return !!model.environment.patches?.signals?.some((s) => s.name === name);
+}
+
 /**
  * Get distance between two points (accounting for wraparound)
  */
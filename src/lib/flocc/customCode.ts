@@ -0,0 +1,324 @@
+/**
+ * Custom Code Behaviors
+ *
+ * Compiles a user-written JavaScript function body into an agent rule.
+ * The code sees only a small API instead of Flocc objects:
+ *
+ *   agent.get(name) / agent.set(name, value)
+ *   agent.neighbors(radius, type?)   agents within a radius (optionally of a type)
+ *   agent.nearest(type?)             nearest other agent, or null
+ *   agent.remove()
+ *   agent.spawn(type?, properties?)  new agent, at this agent's position by default
+ *   params.name                      model parameter values (read-only)
+ *   env.tick, env.width, env.height, env.random(min?, max?)
+ *
+ * Types can be given by name or ID. The body runs in strict mode with worker
+ * globals (fetch, postMessage, ...) shadowed, and each behavior gets a time
+ * budget per tick. Use env.random rather than Math.random so seeded runs
+ * stay reproducible.
+ *
+ * Shadowing only hides names. The worker also takes away the ways back to
+ * its global object (function constructors, indirect eval) and the APIs
+ * that load code or make requests; see lockDownWorkerGlobals.
+ */
+
+import { utils, type Agent, type Environment } from 'flocc';
+import type { StudioModel, Behavior } from '@/types';
+
+// ============================================================================
+// Errors and Limits
+// ============================================================================
+
+/**
+ * Time a single custom-code behavior may use in one tick, across all agents
+ */
+export const CUSTOM_CODE_TIME_LIMIT = 50;
+
+/**
+ * An error attributed to one behavior, so the editor can show it on the card
+ */
+export class BehaviorError extends Error {
+  constructor(message: string, public behaviorId: string) {
+    super(message);
+    this.name = 'BehaviorError';
+  }
+}
+
+// Globals hidden from custom code by shadowing them with undefined parameters
+const SHADOWED_GLOBALS = [
+  'self',
+  'globalThis',
+  'window',
+  'document',
+  'postMessage',
+  'importScripts',
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'EventSource',
+  'indexedDB',
+  'caches',
+  'Worker',
+  'SharedWorker',
+  'BroadcastChannel',
+  'Function',
+  'setTimeout',
+  'setInterval',
+  'onmessage',
+  'addEventListener',
+  'location',
+  'navigator',
+];
+
+// Worker globals removed outright, for code that reaches the global object
+// or names one that isn't shadowed. `eval` can't be shadowed: strict mode
+// forbids it as a parameter name.
+const LOCKED_GLOBALS = [
+  'eval',
+  'importScripts',
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'WebTransport',
+  'EventSource',
+  'indexedDB',
+  'caches',
+  'Worker',
+  'SharedWorker',
+  'BroadcastChannel',
+];
+
+// Dynamic import() is syntax, not a global, so it's refused at compile time
+const IMPORT_PATTERN = /(?<![\w$])import(?![\w$])/;
+
+// Captured before the worker locks down the constructors
+const FunctionConstructor = Function;
+
+// Keys custom code may read but not overwrite
+const READ_ONLY_KEYS = ['typeId', 'tick', '_id', 'parentId', 'generation'];
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+type CustomFn = (...args: unknown[]) => void;
+
+export interface CustomCodeContext {
+  model: StudioModel;
+  /** Create an agent of a type with initial properties and its tick function */
+  createAgent: (typeId: string, x: number, y: number, env: Environment) => Agent;
+}
+
+/**
+ * Parse a function body. Returns a syntax error message, or null if valid.
+ */
+export function checkCustomCodeSyntax(code: string): string | null {
+  try {
+    buildFunction(code);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Compile a custom-code behavior into an agent rule. Throws BehaviorError
+ * for syntax errors; errors thrown by the code at runtime, and running over
+ * the time limit, surface as BehaviorError from the rule.
+ */
+export function compileCustomCode(
+  behavior: Behavior,
+  ctx: CustomCodeContext
+): ((agent: Agent) => void) | null {
+  const code: string = behavior.params.code ?? '';
+  if (code.trim() === '') return null;
+
+  let fn: CustomFn;
+  try {
+    fn = buildFunction(code);
+  } catch (error) {
+    throw new BehaviorError(`Syntax error: ${(error as Error).message}`, behavior.id);
+  }
+
+  const shadowed = SHADOWED_GLOBALS.map(() => undefined);
+  const budget = { tick: -1, used: 0 };
+
+  return (agent: Agent) => {
+    const env = agent.environment;
+    if (!env) return;
+
+    // Time used resets each tick
+    if (budget.tick !== env.time) {
+      budget.tick = env.time;
+      budget.used = 0;
+    }
+
+    const start = performance.now();
+    try {
+      fn(...shadowed, createHandle(agent, env, ctx), createEnvApi(env, ctx.model), createParams(env));
+    } catch (error) {
+      const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+      throw new BehaviorError(message, behavior.id);
+    }
+
+    budget.used += performance.now() - start;
+    if (budget.used > CUSTOM_CODE_TIME_LIMIT) {
+      throw new BehaviorError(
+        `Custom code took longer than ${CUSTOM_CODE_TIME_LIMIT} ms in one tick`,
+        behavior.id
+      );
+    }
+  };
+}
+
+function buildFunction(code: string): CustomFn {
+  if (IMPORT_PATTERN.test(code)) {
+    throw new SyntaxError("Custom code can't use import");
+  }
+  // Shadowed globals come first so the body doesn't see the real ones
+  return new FunctionConstructor(
+    ...SHADOWED_GLOBALS,
+    'agent',
+    'env',
+    'params',
+    `'use strict';\n${code}`
+  ) as CustomFn;
+}
+
+/**
+ * Close the ways custom code could get past its shadowed scope in the
+ * worker: the constructors of every kind of function (`f.constructor(...)`
+ * compiles sloppy code that returns the global object), indirect eval,
+ * stack-trace hooks that hand out `this`, and the globals that load code,
+ * start workers or make requests. Call once, before any model is compiled.
+ *
+ * This narrows what custom code can do rather than isolating it: it still
+ * runs on the studio's origin, in the viewer's browser.
+ */
+export function lockDownWorkerGlobals(scope: Record<string, unknown>): void {
+  const blocked = () => {
+    throw new EvalError('Compiling code is disabled in custom code');
+  };
+
+  const functionPrototypes = [
+    Function.prototype,
+    Object.getPrototypeOf(async function () {}),
+    Object.getPrototypeOf(function* () {}),
+    Object.getPrototypeOf(async function* () {}),
+  ];
+  for (const prototype of functionPrototypes) {
+    lock(prototype, 'constructor', blocked);
+  }
+
+  lock(Error, 'prepareStackTrace', undefined);
+  for (const name of LOCKED_GLOBALS) {
+    lock(scope, name, undefined);
+  }
+}
+
+function lock(target: object, name: string, value: unknown): void {
+  try {
+    Object.defineProperty(target, name, { value, writable: false, configurable: false });
+  } catch {
+    // Non-configurable in this environment; shadowing still applies
+  }
+}
+
+// ============================================================================
+// API Objects
+// ============================================================================
+
+export interface AgentHandle {
+  readonly type: string;
+  get(name: string): unknown;
+  set(name: string, value: unknown): void;
+  neighbors(radius: number, type?: string): AgentHandle[];
+  nearest(type?: string): AgentHandle | null;
+  remove(): void;
+  spawn(type?: string, properties?: Record<string, unknown>): AgentHandle;
+}
+
+function createHandle(agent: Agent, env: Environment, ctx: CustomCodeContext): AgentHandle {
+  const typeFilter = (type?: string) => {
+    if (type === undefined) return (a: Agent) => a !== agent;
+    const typeId = resolveType(type, ctx.model);
+    return (a: Agent) => a !== agent && a.get('typeId') === typeId;
+  };
+
+  return {
+    get type() {
+      const typeId = agent.get('typeId');
+      return ctx.model.agentTypes.find((t) => t.id === typeId)?.name ?? String(typeId);
+    },
+
+    get(name) {
+      return agent.get(String(name));
+    },
+
+    set(name, value) {
+      if (READ_ONLY_KEYS.includes(name)) {
+        throw new Error(`'${name}' is read-only`);
+      }
+      agent.set(String(name), value);
+    },
+
+    neighbors(radius, type) {
+      return env.helpers.kdtree
+        .agentsWithinDistance(agent, Number(radius), typeFilter(type))
+        .map((a) => createHandle(a, env, ctx));
+    },
+
+    nearest(type) {
+      const nearest = env.helpers.kdtree.nearestNeighbor(agent, typeFilter(type));
+      return nearest ? createHandle(nearest, env, ctx) : null;
+    },
+
+    remove() {
+      env.removeAgent(agent);
+    },
+
+    spawn(type, properties = {}) {
+      const typeId = type === undefined ? (agent.get('typeId') as string) : resolveType(type, ctx.model);
+      const x = Number(properties.x ?? agent.get('x'));
+      const y = Number(properties.y ?? agent.get('y'));
+      const child = ctx.createAgent(typeId, x, y, env);
+      for (const [name, value] of Object.entries(properties)) {
+        if (name !== 'x' && name !== 'y' && !READ_ONLY_KEYS.includes(name)) {
+          child.set(name, value);
+        }
+      }
+      env.addAgent(child);
+      return createHandle(child, env, ctx);
+    },
+  };
+}
+
+function createEnvApi(env: Environment, model: StudioModel) {
+  return Object.freeze({
+    tick: env.time,
+    width: model.environment.width,
+    height: model.environment.height,
+    random: (min: number = 0, max: number = 1) => utils.random(min, max, true),
+  });
+}
+
+/**
+ * Read-only view of the current parameter values
+ */
+function createParams(env: Environment): Record<string, unknown> {
+  return new Proxy({}, {
+    get: (_target, name) => (typeof name === 'string' ? env.get(name) : undefined),
+    set: () => false,
+  });
+}
+
+/**
+ * Agent type ID from a type name or ID
+ */
+function resolveType(type: string, model: StudioModel): string {
+  const agentType = model.agentTypes.find((t) => t.id === type || t.name === type);
+  if (!agentType) {
+    throw new Error(`Unknown agent type '${type}'`);
+  }
+  return agentType.id;
+}
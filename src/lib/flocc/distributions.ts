@@ -0,0 +1,162 @@
+/**
+ * Population Distributions
+ *
+ * Computes initial agent positions for a population: random scatter,
+ * a regular grid, gaussian clusters, or explicit custom positions,
+ * all confined to the population's region.
+ */
+
+import { utils } from 'flocc';
+import type { Population, Position } from '@/types';
+
+// Defaults for cluster distribution when a population has no cluster config
+export const DEFAULT_CLUSTER_COUNT = 3;
+export const DEFAULT_CLUSTER_SPREAD = 20;
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Compute initial positions for every agent in a population.
+ * Uses flocc's seeded random, so call it after utils.seed().
+ */
+export function getPopulationPositions(
+  pop: Population,
+  envWidth: number,
+  envHeight: number
+): Position[] {
+  const region = resolveRegion(pop.region, envWidth, envHeight);
+
+  switch (pop.distribution) {
+    case 'grid':
+      return gridPositions(pop.count, region);
+    case 'cluster':
+      return clusterPositions(pop, region);
+    case 'custom':
+      return customPositions(pop, region);
+    case 'random':
+    default:
+      return randomPositions(pop.count, region);
+  }
+}
+
+// ============================================================================
+// Distribution Modes
+// ============================================================================
+
+function randomPositions(count: number, region: Region): Position[] {
+  const positions: Position[] = [];
+  for (let i = 0; i < count; i++) {
+    positions.push(randomPoint(region));
+  }
+  return positions;
+}
+
+/**
+ * Evenly spaced cells, with columns and rows chosen to match the region's aspect ratio
+ */
+function gridPositions(count: number, region: Region): Position[] {
+  if (count <= 0) return [];
+
+  const cols = Math.max(1, Math.ceil(Math.sqrt((count * region.width) / region.height)));
+  const rows = Math.ceil(count / cols);
+  const cellWidth = region.width / cols;
+  const cellHeight = region.height / rows;
+
+  const positions: Position[] = [];
+  for (let i = 0; i < count; i++) {
+    const col = i % cols;
+    const row = Math.floor(i / cols);
+    positions.push({
+      x: region.x + (col + 0.5) * cellWidth,
+      y: region.y + (row + 0.5) * cellHeight,
+    });
+  }
+  return positions;
+}
+
+/**
+ * Agents are dealt round-robin to clusters and scattered around each center
+ */
+function clusterPositions(pop: Population, region: Region): Position[] {
+  const config = pop.clusters;
+  const spread = Math.max(0, config?.spread ?? DEFAULT_CLUSTER_SPREAD);
+
+  let centers = config?.centers?.filter(isFinitePosition) ?? [];
+  if (centers.length === 0) {
+    const clusterCount = Math.max(1, Math.floor(config?.count ?? DEFAULT_CLUSTER_COUNT));
+    centers = [];
+    for (let i = 0; i < clusterCount; i++) {
+      centers.push(randomPoint(region));
+    }
+  }
+
+  const positions: Position[] = [];
+  for (let i = 0; i < pop.count; i++) {
+    const center = centers[i % centers.length];
+    positions.push(clampToRegion({
+      x: utils.gaussian(center.x, spread),
+      y: utils.gaussian(center.y, spread),
+    }, region));
+  }
+  return positions;
+}
+
+/**
+ * Explicit positions in order; agents beyond the list are scattered randomly
+ */
+function customPositions(pop: Population, region: Region): Position[] {
+  const listed = (pop.positions ?? []).filter(isFinitePosition);
+
+  const positions: Position[] = [];
+  for (let i = 0; i < pop.count; i++) {
+    positions.push(i < listed.length ? clampToRegion(listed[i], region) : randomPoint(region));
+  }
+  return positions;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Intersect the population's region with the environment bounds
+ */
+export function resolveRegion(
+  region: Population['region'],
+  envWidth: number,
+  envHeight: number
+): Region {
+  if (!region) return { x: 0, y: 0, width: envWidth, height: envHeight };
+
+  const x = utils.clamp(region.x, 0, envWidth);
+  const y = utils.clamp(region.y, 0, envHeight);
+  return {
+    x,
+    y,
+    width: Math.max(1, utils.clamp(region.width, 0, envWidth - x)),
+    height: Math.max(1, utils.clamp(region.height, 0, envHeight - y)),
+  };
+}
+
+function randomPoint(region: Region): Position {
+  return {
+    x: utils.random(region.x, region.x + region.width - 1, true),
+    y: utils.random(region.y, region.y + region.height - 1, true),
+  };
+}
+
+function clampToRegion(position: Position, region: Region): Position {
+  return {
+    x: utils.clamp(position.x, region.x, region.x + region.width - 1),
+    y: utils.clamp(position.y, region.y, region.y + region.height - 1),
+  };
+}
+
+function isFinitePosition(position: Position): boolean {
+  return Number.isFinite(position.x) && Number.isFinite(position.y);
+}
@@ -0,0 +1,511 @@
+/**
+ * Expressions
+ *
+ * A small arithmetic language for behavior parameters, e.g.
+ *   $baseSpeed * 2      energy / 10      min($vision, 50)      random(1, 3)
+ *
+ * - `$name` reads a model parameter, a bare `name` reads the agent's own
+ *   property, and `tick` is the current tick.
+ * - Operators: + - * / % ^ (power) and parentheses.
+ * - Functions: see FUNCTIONS below.
+ *
+ * Source is parsed once into an AST; evaluation walks closures built from the
+ * AST, so no eval/new Function is ever involved.
+ */
+
+import { utils, type Agent, type Environment } from 'flocc';
+
+// ============================================================================
+// AST Types
+// ============================================================================
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'parameter'; name: string }
+  | { type: 'property'; name: string }
+  | { type: 'tick' }
+  | { type: 'unary'; operator: '-'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^';
+
+/**
+ * Evaluates a compiled expression for an agent. `env` defaults to the
+ * agent's environment (pass it explicitly before the agent is added).
+ */
+export type Evaluator = (agent: Agent, env?: Environment | null) => number;
+
+export class ExpressionError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+interface FunctionDef {
+  minArgs: number;
+  maxArgs: number;
+  fn: (...args: number[]) => number;
+  js: (args: string[]) => string;  // Code generation
+}
+
+// Null prototype: names come from user input, and 'constructor' or
+// 'toString' must not resolve to Object.prototype members
+const FUNCTIONS: Record<string, FunctionDef> = Object.assign(Object.create(null), {
+  min: { minArgs: 1, maxArgs: Infinity, fn: Math.min, js: (a) => `Math.min(${a.join(', ')})` },
+  max: { minArgs: 1, maxArgs: Infinity, fn: Math.max, js: (a) => `Math.max(${a.join(', ')})` },
+  abs: { minArgs: 1, maxArgs: 1, fn: Math.abs, js: (a) => `Math.abs(${a[0]})` },
+  floor: { minArgs: 1, maxArgs: 1, fn: Math.floor, js: (a) => `Math.floor(${a[0]})` },
+  ceil: { minArgs: 1, maxArgs: 1, fn: Math.ceil, js: (a) => `Math.ceil(${a[0]})` },
+  round: { minArgs: 1, maxArgs: 1, fn: Math.round, js: (a) => `Math.round(${a[0]})` },
+  sqrt: { minArgs: 1, maxArgs: 1, fn: Math.sqrt, js: (a) => `Math.sqrt(${a[0]})` },
+  pow: { minArgs: 2, maxArgs: 2, fn: Math.pow, js: (a) => `Math.pow(${a[0]}, ${a[1]})` },
+  clamp: {
+    minArgs: 3,
+    maxArgs: 3,
+    fn: (x, lo, hi) => utils.clamp(x, lo, hi),
+    js: (a) => `utils.clamp(${a[0]}, ${a[1]}, ${a[2]})`,
+  },
+  // random() is 0-1, random(max) is 0-max, random(min, max) is min-max
+  random: {
+    minArgs: 0,
+    maxArgs: 2,
+    fn: (a?: number, b?: number) =>
+      a === undefined ? utils.random(0, 1, true)
+        : b === undefined ? utils.random(0, a, true)
+        : utils.random(a, b, true),
+    js: (a) =>
+      a.length === 0 ? 'utils.random(0, 1, true)'
+        : a.length === 1 ? `utils.random(0, ${a[0]}, true)`
+        : `utils.random(${a[0]}, ${a[1]}, true)`,
+  },
+} satisfies Record<string, FunctionDef>);
+
+/**
+ * Function names available in expressions, for UI hints
+ */
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'parameter'; name: string; pos: number }
+  | { kind: 'identifier'; name: string; pos: number }
+  | { kind: 'symbol'; value: string; pos: number }
+  | { kind: 'end'; pos: number };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0]), pos: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = /^\$?[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (name) {
+      tokens.push(name[0].startsWith('$')
+        ? { kind: 'parameter', name: name[0].slice(1), pos: i }
+        : { kind: 'identifier', name: name[0], pos: i });
+      i += name[0].length;
+      continue;
+    }
+
+    if ('+-*/%^(),'.includes(ch)) {
+      tokens.push({ kind: 'symbol', value: ch, pos: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${ch}'`, i);
+  }
+
+  tokens.push({ kind: 'end', pos: source.length });
+  return tokens;
+}
+
+/**
+ * Parse expression source into an AST. Throws ExpressionError on syntax errors.
+ *
+ * Grammar (lowest to highest precedence):
+ *   sum     = product (('+' | '-') product)*
+ *   product = unary (('*' | '/' | '%') unary)*
+ *   unary   = '-' unary | power
+ *   power   = primary ('^' unary)?
+ *   primary = number | $param | name | name '(' args ')' | '(' sum ')'
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isSymbol = (value: string) => {
+    const token = peek();
+    return token.kind === 'symbol' && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isSymbol(value)) {
+      throw new ExpressionError(`Expected '${value}'`, peek().pos);
+    }
+    index++;
+  };
+
+  const parseSum = (): ExpressionNode => {
+    let node = parseProduct();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = (tokens[index++] as { value: string }).value as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const parseProduct = (): ExpressionNode => {
+    let node = parseUnary();
+    while (isSymbol('*') || isSymbol('/') || isSymbol('%')) {
+      const operator = (tokens[index++] as { value: string }).value as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isSymbol('-')) {
+      index++;
+      return { type: 'unary', operator: '-', operand: parseUnary() };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): ExpressionNode => {
+    const base = parsePrimary();
+    if (isSymbol('^')) {
+      index++;
+      // Right-associative, and binds tighter than unary minus on its left
+      return { type: 'binary', operator: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+
+    switch (token.kind) {
+      case 'number':
+        index++;
+        return { type: 'number', value: token.value };
+
+      case 'parameter':
+        index++;
+        return { type: 'parameter', name: token.name };
+
+      case 'identifier': {
+        index++;
+        if (isSymbol('(')) {
+          index++;
+          const args: ExpressionNode[] = [];
+          if (!isSymbol(')')) {
+            args.push(parseSum());
+            while (isSymbol(',')) {
+              index++;
+              args.push(parseSum());
+            }
+          }
+          expect(')');
+          checkCall(token.name, args.length, token.pos);
+          return { type: 'call', name: token.name, args };
+        }
+        if (token.name === 'tick') return { type: 'tick' };
+        return { type: 'property', name: token.name };
+      }
+
+      case 'symbol':
+        if (token.value === '(') {
+          index++;
+          const node = parseSum();
+          expect(')');
+          return node;
+        }
+        throw new ExpressionError(`Unexpected '${token.value}'`, token.pos);
+
+      case 'end':
+        throw new ExpressionError(
+          index === 0 ? 'Expression is empty' : 'Expression ends unexpectedly',
+          token.pos
+        );
+    }
+  };
+
+  const node = parseSum();
+  if (peek().kind !== 'end') {
+    throw new ExpressionError('Unexpected input after expression', peek().pos);
+  }
+  return node;
+}
+
+function checkCall(name: string, argCount: number, pos: number): void {
+  const def = FUNCTIONS[name];
+  if (!def) {
+    throw new ExpressionError(`Unknown function '${name}'`, pos);
+  }
+  if (argCount < def.minArgs || argCount > def.maxArgs) {
+    const expected = def.minArgs === def.maxArgs
+      ? `${def.minArgs}`
+      : def.maxArgs === Infinity
+      ? `at least ${def.minArgs}`
+      : `${def.minArgs}-${def.maxArgs}`;
+    const plural = expected.endsWith('1') ? '' : 's';
+    throw new ExpressionError(`${name}() takes ${expected} argument${plural}`, pos);
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export interface ExpressionScope {
+  parameters: string[];  // Model parameter names
+  properties: string[];  // The agent's property names
+}
+
+// Properties every agent has, readable without declaring them
+export const BUILTIN_PROPERTIES = ['x', 'y', 'vx', 'vy', 'generation'];
+
+/**
+ * Check an expression against a model. Returns an error message, or null if valid.
+ */
+export function validateExpression(source: string, scope: ExpressionScope): string | null {
+  let ast: ExpressionNode;
+  try {
+    ast = parseExpression(source);
+  } catch (error) {
+    return error instanceof ExpressionError ? error.message : String(error);
+  }
+
+  for (const node of walk(ast)) {
+    if (node.type === 'parameter' && !scope.parameters.includes(node.name)) {
+      return `Unknown parameter '$${node.name}'`;
+    }
+    if (
+      node.type === 'property' &&
+      !scope.properties.includes(node.name) &&
+      !BUILTIN_PROPERTIES.includes(node.name)
+    ) {
+      return `Unknown property '${node.name}'`;
+    }
+  }
+  return null;
+}
+
+/**
+ * All nodes of an AST, depth first
+ */
+export function* walk(node: ExpressionNode): Generator<ExpressionNode> {
+  yield node;
+  switch (node.type) {
+    case 'unary':
+      yield* walk(node.operand);
+      break;
+    case 'binary':
+      yield* walk(node.left);
+      yield* walk(node.right);
+      break;
+    case 'call':
+      for (const arg of node.args) yield* walk(arg);
+      break;
+  }
+}
+
+// ============================================================================
+// References
+// ============================================================================
+
+export type ReferenceKind = 'parameter' | 'property';
+
+/**
+ * Positions of the tokens naming `name` ($name for parameters, a bare name
+ * for properties; function names don't count). Empty for source that
+ * doesn't tokenize.
+ */
+function findReferences(source: string, kind: ReferenceKind, name: string): number[] {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(source);
+  } catch {
+    return [];
+  }
+
+  const positions: number[] = [];
+  tokens.forEach((token, i) => {
+    if (kind === 'parameter' && token.kind === 'parameter' && token.name === name) {
+      positions.push(token.pos + 1);  // Past the $
+    }
+    if (kind === 'property' && token.kind === 'identifier' && token.name === name) {
+      const next = tokens[i + 1];
+      if (!(next.kind === 'symbol' && next.value === '(')) positions.push(token.pos);
+    }
+  });
+  return positions;
+}
+
+/**
+ * Whether an expression reads a parameter or property
+ */
+export function referencesName(source: string, kind: ReferenceKind, name: string): boolean {
+  return findReferences(source, kind, name).length > 0;
+}
+
+/**
+ * Rename a parameter or property in expression source, keeping the rest as
+ * the user typed it
+ */
+export function renameReferences(source: string, kind: ReferenceKind, from: string, to: string): string {
+  let result = '';
+  let last = 0;
+  for (const pos of findReferences(source, kind, from)) {
+    result += source.slice(last, pos) + to;
+    last = pos + from.length;
+  }
+  return result + source.slice(last);
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Turn a stored value into a number, NaN when missing or non-numeric
+ */
+function toNumber(value: unknown): number {
+  if (value === null || value === undefined) return NaN;
+  return Number(value);
+}
+
+/**
+ * Build an evaluator from an AST. Operands are evaluated left to right,
+ * matching the generated code's order of random draws.
+ */
+export function compileExpressionNode(node: ExpressionNode): Evaluator {
+  switch (node.type) {
+    case 'number': {
+      const value = node.value;
+      return () => value;
+    }
+
+    case 'parameter': {
+      const name = node.name;
+      return (agent, env = agent.environment) => toNumber(env?.get(name));
+    }
+
+    case 'property': {
+      const name = node.name;
+      return (agent) => toNumber(agent.get(name));
+    }
+
+    case 'tick':
+      return (agent, env = agent.environment) => env?.time ?? 0;
+
+    case 'unary': {
+      const operand = compileExpressionNode(node.operand);
+      return (agent, env) => -operand(agent, env);
+    }
+
+    case 'binary': {
+      const left = compileExpressionNode(node.left);
+      const right = compileExpressionNode(node.right);
+      switch (node.operator) {
+        case '+': return (agent, env) => left(agent, env) + right(agent, env);
+        case '-': return (agent, env) => left(agent, env) - right(agent, env);
+        case '*': return (agent, env) => left(agent, env) * right(agent, env);
+        case '/': return (agent, env) => left(agent, env) / right(agent, env);
+        case '%': return (agent, env) => left(agent, env) % right(agent, env);
+        case '^': return (agent, env) => Math.pow(left(agent, env), right(agent, env));
+      }
+    }
+
+    case 'call': {
+      const fn = FUNCTIONS[node.name].fn;
+      const args = node.args.map(compileExpressionNode);
+      return (agent, env) => fn(...args.map((arg) => arg(agent, env)));
+    }
+  }
+}
+
+/**
+ * Compile a behavior parameter (literal number or expression string) once.
+ * The evaluator returns `fallback` whenever the result isn't a finite number,
+ * e.g. a missing parameter or a division by zero.
+ * Throws ExpressionError for invalid expressions.
+ */
+export function compileParamExpression(value: unknown, fallback: number): Evaluator {
+  if (typeof value === 'number') return () => value;
+  if (typeof value !== 'string') return () => fallback;
+
+  const evaluate = compileExpressionNode(parseExpression(value));
+  return (agent, env) => {
+    const result = evaluate(agent, env);
+    return Number.isFinite(result) ? result : fallback;
+  };
+}
+
+// ============================================================================
+// Code Generation
+// ============================================================================
+
+/**
+ * JavaScript source for an AST (used by the code exporter).
+ * `envExpr` is the code that yields the Environment (null once an agent is
+ * removed mid-tick), `num` the name of a helper converting stored values
+ * like toNumber above.
+ */
+export function expressionToJs(node: ExpressionNode, envExpr: string, num: string): string {
+  const emit = (n: ExpressionNode, parentPrecedence: number): string => {
+    switch (n.type) {
+      case 'number':
+        return String(n.value);
+      case 'parameter':
+        return `${num}(${envExpr}?.get('${n.name}'))`;
+      case 'property':
+        return `${num}(agent.get('${n.name}'))`;
+      case 'tick':
+        return `(${envExpr}?.time ?? 0)`;
+      case 'unary':
+        return wrap(`-${emit(n.operand, 4)}`, 3, parentPrecedence);
+      case 'binary': {
+        if (n.operator === '^') {
+          return `Math.pow(${emit(n.left, 0)}, ${emit(n.right, 0)})`;
+        }
+        const precedence = n.operator === '+' || n.operator === '-' ? 1 : 2;
+        // Right operand binds one level tighter to keep left associativity
+        const code = `${emit(n.left, precedence)} ${n.operator} ${emit(n.right, precedence + 1)}`;
+        return wrap(code, precedence, parentPrecedence);
+      }
+      case 'call':
+        return FUNCTIONS[n.name].js(n.args.map((arg) => emit(arg, 0)));
+    }
+  };
+
+  return emit(node, 0);
+}
+
+function wrap(code: string, precedence: number, parentPrecedence: number): string {
+  return precedence < parentPrecedence ? `(${code})` : code;
+}
@@ -0,0 +1,296 @@
+/**
+ * HTML Export
+ *
+ * Builds a single self-contained HTML page for a model: Flocc and the
+ * generated model code are inlined, together with a small player that
+ * provides playback controls, parameter sliders and line charts.
+ * The page has no external requests, so it runs from file:// offline.
+ */
+
+import type { StudioModel } from '@/types';
+import { generateModelCode } from './codegen';
+
+/**
+ * Generate the offline HTML page for a model.
+ * `floccSource` is the UMD build of Flocc (dist/flocc.js), which defines `flocc`.
+ */
+export function generateModelHtml(model: StudioModel, floccSource: string): string {
+  const modelCode = generateModelCode(model, { format: 'script' });
+  const config = {
+    parameters: model.parameters,
+    randomSeed: model.environment.seed?.mode === 'random',
+  };
+  const hasSidebar =
+    model.parameters.length > 0 || (model.visualizations ?? []).some((v) => v.enabled);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(model.name)}</title>
+<style>${PLAYER_CSS}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(model.name)}</h1>
+  ${model.description ? `<p>${escapeHtml(model.description)}</p>` : ''}
+</header>
+<main>
+  <section class="simulation">
+    <div id="stage"></div>
+    <div id="controls" class="controls">
+      <button id="play" class="play" title="Play">&#9654;</button>
+      <button id="step" title="Step">&#9197;</button>
+      <button id="reset" title="Reset">&#8634;</button>
+      <span class="divider"></span>
+      <span>Tick: <b id="tick">0</b></span>
+      <span class="divider"></span>
+      <span>Agents: <b id="agents">0</b></span>
+      <span class="divider"></span>
+      <span title="Random seed for this run">Seed: <b id="seed"></b></span>
+      <span class="divider"></span>
+      <label>Speed: <input id="speed" type="range" min="1" max="10" value="1"> <b id="speed-value">1x</b></label>
+    </div>
+  </section>
+  <aside${hasSidebar ? '' : ' hidden'}>
+    <div id="parameters" class="panel"></div>
+    <div id="charts"></div>
+  </aside>
+</main>
+<script>${inlineScript(floccSource)}</script>
+<script>${inlineScript(modelCode)}</script>
+<script>var PLAYER_CONFIG = ${inlineScript(JSON.stringify(config))};
+${PLAYER_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+// ============================================================================
+// Player
+// ============================================================================
+
+const PLAYER_CSS = `
+* { box-sizing: border-box; }
+body { margin: 0; background: #030712; color: #fff; font-family: system-ui, -apple-system, sans-serif; }
+header { padding: 24px 16px; border-bottom: 1px solid #1f2937; }
+header h1 { margin: 0 0 8px; font-size: 28px; }
+header p { margin: 0; color: #9ca3af; white-space: pre-line; }
+main { display: flex; flex-wrap: wrap; }
+.simulation { flex: 1; min-width: 0; }
+#stage { padding: 16px; overflow: auto; }
+#stage canvas { display: block; border-radius: 8px; max-width: 100%; }
+.controls { display: flex; flex-wrap: wrap; align-items: center; gap: 12px; padding: 10px 16px; background: #111827; border-top: 1px solid #1f2937; color: #9ca3af; font-size: 14px; }
+.controls b { color: #fff; font-family: ui-monospace, monospace; font-weight: normal; }
+.controls button { border: 0; border-radius: 4px; padding: 6px 10px; background: #1f2937; color: #fff; cursor: pointer; }
+.controls button:hover { background: #374151; }
+.controls button:disabled { opacity: 0.5; cursor: not-allowed; }
+.controls button.play { background: #16a34a; }
+.controls button.pause { background: #ca8a04; }
+.controls input[type=range] { width: 96px; vertical-align: middle; accent-color: #3b82f6; }
+.divider { width: 1px; height: 24px; background: #374151; }
+aside { width: 320px; padding: 16px; border-left: 1px solid #1f2937; }
+.panel { background: #111827; border: 1px solid #1f2937; border-radius: 8px; padding: 16px; margin-bottom: 24px; }
+.panel:empty { display: none; }
+.panel h3, #charts h3 { margin: 0 0 12px; font-size: 14px; color: #9ca3af; }
+.param { margin-bottom: 16px; font-size: 14px; }
+.param:last-child { margin-bottom: 0; }
+.param-header { display: flex; justify-content: space-between; margin-bottom: 4px; }
+.param-value { color: #6b7280; font-family: ui-monospace, monospace; }
+.param input[type=range] { width: 100%; accent-color: #3b82f6; }
+.param select { width: 100%; background: #1f2937; color: #fff; border: 1px solid #374151; border-radius: 4px; padding: 6px; }
+.chart { margin-bottom: 16px; }
+.chart h4 { margin: 0 0 6px; font-size: 13px; font-weight: normal; color: #d1d5db; }
+.chart canvas { display: block; width: 100%; border-radius: 4px; }
+`;
+
+/**
+ * Runs in the exported page. Uses createEnvironment, createCharts and the
+ * constants declared by the generated model code.
+ */
+const PLAYER_SCRIPT = `(function () {
+  var stage = document.getElementById('stage');
+  var chartsEl = document.getElementById('charts');
+  var playButton = document.getElementById('play');
+  var stepButton = document.getElementById('step');
+
+  var env = null;
+  var running = false;
+  var ticksPerFrame = 1;
+  var frameId = null;
+
+  // Build a fresh run. Random-seeded models draw a new seed on every reset.
+  function start() {
+    var seed = PLAYER_CONFIG.randomSeed ? Math.floor(Math.random() * 2147483647) : SEED;
+    env = createEnvironment(seed);
+
+    var rendererOptions = { width: WIDTH, height: HEIGHT, background: BACKGROUND };
+    // Models with links between agents define LINK_COLOR
+    if (typeof LINK_COLOR !== 'undefined') {
+      rendererOptions.connectionColor = LINK_COLOR;
+      rendererOptions.connectionOpacity = 0.6;
+    }
+    var renderer = new flocc.CanvasRenderer(env, rendererOptions);
+    renderer.mount(stage);
+
+    chartsEl.innerHTML = '';
+    var charts = createCharts(env);
+    if (charts.length > 0) {
+      var title = document.createElement('h3');
+      title.textContent = 'Charts';
+      chartsEl.appendChild(title);
+    }
+    charts.forEach(function (chart) {
+      var wrapper = document.createElement('div');
+      wrapper.className = 'chart';
+      var name = document.createElement('h4');
+      name.textContent = chart.name;
+      var mount = document.createElement('div');
+      wrapper.appendChild(name);
+      wrapper.appendChild(mount);
+      chartsEl.appendChild(wrapper);
+      chart.renderer.mount(mount);
+    });
+
+    env.renderers.forEach(function (r) { r.render(); });
+    document.getElementById('seed').textContent = seed;
+    updateStatus();
+  }
+
+  function updateStatus() {
+    document.getElementById('tick').textContent = env.time;
+    document.getElementById('agents').textContent = env.getAgents().length;
+    playButton.innerHTML = running ? '&#9208;' : '&#9654;';
+    playButton.title = running ? 'Pause' : 'Play';
+    playButton.className = running ? 'pause' : 'play';
+    stepButton.disabled = running;
+  }
+
+  function frame() {
+    for (var i = 0; i < ticksPerFrame; i++) env.tick();
+    updateStatus();
+    frameId = requestAnimationFrame(frame);
+  }
+
+  function pause() {
+    running = false;
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    frameId = null;
+    updateStatus();
+  }
+
+  playButton.addEventListener('click', function () {
+    if (running) return pause();
+    running = true;
+    updateStatus();
+    frameId = requestAnimationFrame(frame);
+  });
+
+  stepButton.addEventListener('click', function () {
+    env.tick();
+    updateStatus();
+  });
+
+  document.getElementById('reset').addEventListener('click', function () {
+    pause();
+    start();
+  });
+
+  document.getElementById('speed').addEventListener('input', function (e) {
+    ticksPerFrame = Number(e.target.value);
+    document.getElementById('speed-value').textContent = ticksPerFrame + 'x';
+  });
+
+  // Parameter controls: changes apply immediately and carry over to resets
+  function setParameter(name, value) {
+    PARAMETERS[name] = value;
+    env.set(name, value);
+  }
+
+  function renderParameters() {
+    var panel = document.getElementById('parameters');
+    if (PLAYER_CONFIG.parameters.length === 0) return;
+
+    var title = document.createElement('h3');
+    title.textContent = 'Parameters';
+    panel.appendChild(title);
+
+    PLAYER_CONFIG.parameters.forEach(function (param) {
+      var row = document.createElement('div');
+      row.className = 'param';
+      var header = document.createElement('div');
+      header.className = 'param-header';
+      var label = document.createElement('label');
+      label.textContent = param.name;
+      header.appendChild(label);
+      row.appendChild(header);
+
+      if (param.type === 'number') {
+        var value = document.createElement('span');
+        value.className = 'param-value';
+        value.textContent = param.value;
+        header.appendChild(value);
+
+        var slider = document.createElement('input');
+        slider.type = 'range';
+        slider.min = param.min == null ? 0 : param.min;
+        slider.max = param.max == null ? 100 : param.max;
+        slider.step = param.step == null ? 1 : param.step;
+        slider.value = param.value;
+        slider.addEventListener('input', function () {
+          value.textContent = slider.value;
+          setParameter(param.name, parseFloat(slider.value));
+        });
+        row.appendChild(slider);
+      } else if (param.type === 'boolean') {
+        var checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = !!param.value;
+        checkbox.addEventListener('change', function () {
+          setParameter(param.name, checkbox.checked);
+        });
+        header.appendChild(checkbox);
+      } else if (param.type === 'choice' && param.options) {
+        var select = document.createElement('select');
+        param.options.forEach(function (opt) {
+          var option = document.createElement('option');
+          option.value = opt;
+          option.textContent = opt;
+          select.appendChild(option);
+        });
+        select.value = param.value;
+        select.addEventListener('change', function () {
+          setParameter(param.name, select.value);
+        });
+        row.appendChild(select);
+      }
+
+      panel.appendChild(row);
+    });
+  }
+
+  renderParameters();
+  start();
+})();`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Keep inlined code from closing its <script> tag early
+ */
+function inlineScript(code: string): string {
+  return code
+    .replace(/<\/(script)/gi, '<\\/$1')
+    .replace(/<!--/g, '<\\!--');
+}
@@ -0,0 +1,86 @@
+/**
+ * Metrics
+ *
+ * Computes chart series values from a running Environment.
+ * Used by the simulation runtime to report metrics back to the main thread.
+ */
+
+import type { Environment } from 'flocc';
+import type { MetricConfig } from '@/types';
+
+/**
+ * Generate a unique key for a metric configuration
+ * Shared by the runtime (producing values) and the charts (consuming them)
+ */
+export function getMetricKey(metric: MetricConfig): string {
+  if (metric.type === 'count') {
+    return `count:${metric.agentTypeId}`;
+  }
+  return `${metric.aggregation}:${metric.agentTypeId}:${metric.property}`;
+}
+
+/**
+ * Create a metric function for a series based on its configuration
+ */
+export function createMetricFunction(
+  env: Environment,
+  metric: MetricConfig
+): (() => number) | null {
+  const agentTypeId = metric.agentTypeId;
+
+  if (metric.type === 'count') {
+    // Count agents of the specified type
+    return () => env.getAgents().filter(a => a.get('typeId') === agentTypeId).length;
+  }
+
+  if (metric.type === 'property') {
+    const { property, aggregation } = metric;
+
+    // Get values for agents of the specified type
+    const getValues = (): number[] => {
+      return env.getAgents()
+        .filter(a => a.get('typeId') === agentTypeId)
+        .map(a => a.get(property) as number)
+        .filter(v => v !== null && v !== undefined && typeof v === 'number');
+    };
+
+    switch (aggregation) {
+      case 'mean':
+        return () => {
+          const values = getValues();
+          if (values.length === 0) return 0;
+          return values.reduce((sum, v) => sum + v, 0) / values.length;
+        };
+      case 'min':
+        return () => {
+          const values = getValues();
+          if (values.length === 0) return 0;
+          return Math.min(...values);
+        };
+      case 'max':
+        return () => {
+          const values = getValues();
+          if (values.length === 0) return 0;
+          return Math.max(...values);
+        };
+      case 'sum':
+        return () => {
+          const values = getValues();
+          return values.reduce((sum, v) => sum + v, 0);
+        };
+      case 'median':
+        return () => {
+          const values = getValues().sort((a, b) => a - b);
+          if (values.length === 0) return 0;
+          const mid = Math.floor(values.length / 2);
+          return values.length % 2 === 0
+            ? (values[mid - 1] + values[mid]) / 2
+            : values[mid];
+        };
+      default:
+        return null;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,204 @@
+/**
+ * Agent Networks
+ *
+ * Undirected links between agents, for opinion dynamics, contagion on
+ * networks and the like. Links are kept in plain adjacency lists rather
+ * than Flocc's Network helper, which rebuilds an n x n matrix every time an
+ * agent joins or leaves and so grinds to a halt with a few hundred agents.
+ * The main thread still draws links through a Network (see SimulationEngine).
+ */
+
+import { utils, type Agent, type Environment } from 'flocc';
+import type { StudioModel, NetworkConfig } from '@/types';
+import { flattenBehaviors } from './behaviors';
+
+export const DEFAULT_LINK_COLOR = '#6b7280';
+
+const NETWORK_BEHAVIORS = ['connect', 'disconnect', 'adopt-property'];
+
+/**
+ * Whether a model needs links: it wires up an initial network or has
+ * behaviors that read or change links
+ */
+export function usesNetwork(model: StudioModel): boolean {
+  const topology = model.environment.network?.topology ?? 'none';
+  if (topology !== 'none') return true;
+
+  return model.agentTypes.some((t) =>
+    flattenBehaviors(t.behaviors).some((b) =>
+      b.enabled && (NETWORK_BEHAVIORS.includes(b.type) || (b.type === 'if' && b.params.test === 'linked'))
+    )
+  );
+}
+
+// ============================================================================
+// AgentNetwork Class
+// ============================================================================
+
+export class AgentNetwork {
+  // Links in the order they were made, so random picks replay exactly
+  private links: Map<Agent, Agent[]> = new Map();
+
+  /**
+   * Agents linked to an agent, skipping any removed from the environment
+   */
+  neighbors(agent: Agent): Agent[] {
+    return (this.links.get(agent) ?? []).filter((other) => other.environment);
+  }
+
+  areConnected(a: Agent, b: Agent): boolean {
+    return !!this.links.get(a)?.includes(b);
+  }
+
+  connect(a: Agent, b: Agent): void {
+    if (a === b || this.areConnected(a, b)) return;
+    this.listFor(a).push(b);
+    this.listFor(b).push(a);
+  }
+
+  disconnect(a: Agent, b: Agent): void {
+    const aLinks = this.links.get(a);
+    const bLinks = this.links.get(b);
+    if (!aLinks || !bLinks || !aLinks.includes(b)) return;
+    aLinks.splice(aLinks.indexOf(b), 1);
+    bLinks.splice(bLinks.indexOf(a), 1);
+  }
+
+  /**
+   * Forget agents that have left the environment (run after each tick)
+   */
+  prune(): void {
+    for (const [agent, others] of this.links) {
+      if (!agent.environment) {
+        this.links.delete(agent);
+      } else if (others.some((other) => !other.environment)) {
+        this.links.set(agent, others.filter((other) => other.environment));
+      }
+    }
+  }
+
+  /**
+   * Every link between agents still in the environment, each once
+   */
+  pairs(): [Agent, Agent][] {
+    const pairs: [Agent, Agent][] = [];
+    const seen = new Set<Agent>();
+    for (const [agent, others] of this.links) {
+      seen.add(agent);
+      if (!agent.environment) continue;
+      for (const other of others) {
+        if (!seen.has(other) && other.environment) pairs.push([agent, other]);
+      }
+    }
+    return pairs;
+  }
+
+  private listFor(agent: Agent): Agent[] {
+    let list = this.links.get(agent);
+    if (!list) {
+      list = [];
+      this.links.set(agent, list);
+    }
+    return list;
+  }
+}
+
+// ============================================================================
+// Initial Topology
+// ============================================================================
+
+interface WorldSize {
+  width: number;
+  height: number;
+  wraparound: boolean;
+}
+
+/**
+ * Link the initial agents according to the model's topology. Agents are
+ * taken in creation order; random draws follow the same order in exported
+ * code (see codegen).
+ */
+export function buildTopology(
+  network: AgentNetwork,
+  agents: Agent[],
+  config: NetworkConfig,
+  world: WorldSize
+): void {
+  const n = agents.length;
+  if (n < 2) return;
+
+  switch (config.topology) {
+    case 'random': {
+      // Erdős–Rényi: each pair is linked independently
+      const probability = config.probability ?? 0.05;
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+          if (utils.random(0, 1, true) < probability) network.connect(agents[i], agents[j]);
+        }
+      }
+      break;
+    }
+
+    case 'small-world': {
+      // Watts–Strogatz: a ring where each agent links to its `degree`
+      // nearest ring neighbours, then each link is rewired with some chance
+      const half = Math.max(1, Math.floor((config.degree ?? 4) / 2));
+      const rewire = config.rewire ?? 0.1;
+      for (let i = 0; i < n; i++) {
+        for (let j = 1; j <= half; j++) network.connect(agents[i], agents[(i + j) % n]);
+      }
+      for (let j = 1; j <= half; j++) {
+        for (let i = 0; i < n; i++) {
+          if (utils.random(0, 1, true) >= rewire) continue;
+          const agent = agents[i];
+          const other = agents[Math.floor(utils.random(0, 1, true) * n)];
+          if (other === agent || network.areConnected(agent, other)) continue;
+          network.disconnect(agent, agents[(i + j) % n]);
+          network.connect(agent, other);
+        }
+      }
+      break;
+    }
+
+    case 'nearest-k': {
+      // Each agent links to the `degree` agents closest to it
+      const k = Math.max(0, Math.round(config.degree ?? 4));
+      const positions = agents.map((a) => [a.get('x') as number, a.get('y') as number]);
+      for (let i = 0; i < n; i++) {
+        const nearest = [];
+        for (let j = 0; j < n; j++) {
+          if (j !== i) nearest.push({ j, d: squaredDistance(positions[i], positions[j], world) });
+        }
+        nearest.sort((a, b) => a.d - b.d || a.j - b.j);
+        for (const { j } of nearest.slice(0, k)) network.connect(agents[i], agents[j]);
+      }
+      break;
+    }
+  }
+}
+
+function squaredDistance(a: number[], b: number[], world: WorldSize): number {
+  let dx = Math.abs(a[0] - b[0]);
+  let dy = Math.abs(a[1] - b[1]);
+  if (world.wraparound) {
+    dx = Math.min(dx, world.width - dx);
+    dy = Math.min(dy, world.height - dy);
+  }
+  return dx * dx + dy * dy;
+}
+
+// ============================================================================
+// Environment Attachment
+// ============================================================================
+
+// Flocc's own network slot expects its Network class, so ours are looked up
+// by environment
+const networks = new WeakMap<Environment, AgentNetwork>();
+
+export function attachNetwork(env: Environment, network: AgentNetwork): void {
+  networks.set(env, network);
+}
+
+export function getNetwork(env: Environment): AgentNetwork | null {
+  return networks.get(env) ?? null;
+}
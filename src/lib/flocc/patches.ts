@@ -0,0 +1,307 @@
+/**
+ * Patches
+ *
+ * A grid of cells laid over the environment, each holding named numeric
+ * properties (e.g. grass level). Agents read, consume and deposit at the
+ * cell under them, and after every tick each property regrows (or decays)
+ * at a fixed rate. The same grid holds signals: fields agents emit into
+ * that spread to neighbouring cells and evaporate every tick. The grid
+ * lives next to the Flocc Environment in the worker; the main thread only
+ * receives the layers it draws.
+ */
+
+import type { Environment, Terrain } from 'flocc';
+import type { PatchConfig, PatchPropertyDef, PatchSnapshot, SignalDef } from '@/types';
+
+// How a patch property or signal is drawn
+type LayerStyle = Pick<PatchPropertyDef, 'name' | 'color' | 'max'>;
+
+export const DEFAULT_CELL_SIZE = 10;
+
+/**
+ * Cell size and number of cells across and down for an environment size
+ */
+export function getGridSize(config: PatchConfig, width: number, height: number) {
+  const cellSize = Math.max(1, config.cellSize || DEFAULT_CELL_SIZE);
+  return {
+    cellSize,
+    columns: Math.ceil(width / cellSize),
+    rows: Math.ceil(height / cellSize),
+  };
+}
+
+// ============================================================================
+// PatchGrid Class
+// ============================================================================
+
+export class PatchGrid {
+  readonly columns: number;
+  readonly rows: number;
+  readonly cellSize: number;
+  private properties: PatchPropertyDef[];
+  private signals: SignalDef[];
+  private layers: Map<string, Float64Array> = new Map();
+  // Regrowth ceilings for properties that regrow to their initial values
+  private capacities: Map<string, Float64Array> = new Map();
+  // Scratch buffer for diffusion
+  private next: Float64Array;
+
+  constructor(config: PatchConfig, width: number, height: number, private wraparound: boolean) {
+    const size = getGridSize(config, width, height);
+    this.cellSize = size.cellSize;
+    this.columns = size.columns;
+    this.rows = size.rows;
+    this.properties = config.properties;
+    this.signals = config.signals ?? [];
+
+    for (const layer of [...this.properties, ...this.signals]) {
+      this.layers.set(layer.name, new Float64Array(this.columns * this.rows));
+    }
+    this.next = new Float64Array(this.columns * this.rows);
+  }
+
+  /**
+   * Set every cell's starting values, property by property, row by row
+   */
+  initialize(sample: (prop: PatchPropertyDef) => number): void {
+    for (const prop of this.properties) {
+      const layer = this.layers.get(prop.name)!;
+      for (let i = 0; i < layer.length; i++) {
+        layer[i] = sample(prop);
+      }
+      if (prop.regrowTo === 'initial') {
+        this.capacities.set(prop.name, layer.slice());
+      }
+    }
+  }
+
+  /**
+   * Index of the cell containing a point. Points outside the grid wrap
+   * around on a torus, otherwise they belong to the nearest edge cell.
+   */
+  cellAt(x: number, y: number): number {
+    let col = Math.floor(x / this.cellSize);
+    let row = Math.floor(y / this.cellSize);
+    if (this.wraparound) {
+      col = ((col % this.columns) + this.columns) % this.columns;
+      row = ((row % this.rows) + this.rows) % this.rows;
+    } else {
+      col = Math.min(Math.max(col, 0), this.columns - 1);
+      row = Math.min(Math.max(row, 0), this.rows - 1);
+    }
+    return row * this.columns + col;
+  }
+
+  /**
+   * Value of a property at a point, NaN for unknown properties
+   */
+  get(name: string, x: number, y: number): number {
+    const layer = this.layers.get(name);
+    return layer ? layer[this.cellAt(x, y)] : NaN;
+  }
+
+  /**
+   * Add to a property at a point, within the property's min/max
+   */
+  deposit(name: string, x: number, y: number, amount: number): void {
+    const layer = this.layers.get(name);
+    if (!layer) return;
+    const i = this.cellAt(x, y);
+    layer[i] = this.clamp(name, layer[i] + amount);
+  }
+
+  /**
+   * Remove up to `amount` from a property at a point without taking it
+   * below its min (or 0). Returns the amount removed.
+   */
+  consume(name: string, x: number, y: number, amount: number): number {
+    const layer = this.layers.get(name);
+    if (!layer || !(amount > 0)) return 0;
+    const i = this.cellAt(x, y);
+    const floor = this.property(name)?.min ?? 0;
+    const taken = Math.max(0, Math.min(amount, layer[i] - floor));
+    layer[i] -= taken;
+    return taken;
+  }
+
+  /**
+   * Add to a signal at a point (signals never go below 0)
+   */
+  emit(name: string, x: number, y: number, amount: number): void {
+    const layer = this.layers.get(name);
+    if (!layer) return;
+    const i = this.cellAt(x, y);
+    layer[i] = Math.max(0, layer[i] + amount);
+  }
+
+  /**
+   * Direction in which a layer increases at a point: the difference between
+   * the cells one step to either side, horizontally and vertically
+   */
+  gradient(name: string, x: number, y: number): [number, number] {
+    const layer = this.layers.get(name);
+    if (!layer) return [0, 0];
+    const step = this.cellSize;
+    return [
+      layer[this.cellAt(x + step, y)] - layer[this.cellAt(x - step, y)],
+      layer[this.cellAt(x, y + step)] - layer[this.cellAt(x, y - step)],
+    ];
+  }
+
+  /**
+   * Copies of the layers that are drawn (properties and signals with a color)
+   */
+  snapshot(): PatchSnapshot {
+    const data: PatchSnapshot = {};
+    for (const layer of [...this.properties, ...this.signals]) {
+      if (layer.color) {
+        data[layer.name] = new Float32Array(this.layers.get(layer.name)!);
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Advance the grid by one tick: regrow properties, then diffuse and
+   * evaporate signals
+   */
+  update(): void {
+    this.regrow();
+    this.diffuse();
+  }
+
+  /**
+   * Apply each property's regrowth rate to every cell
+   */
+  private regrow(): void {
+    for (const prop of this.properties) {
+      const rate = prop.regrowth ?? 0;
+      if (rate === 0) continue;
+
+      const layer = this.layers.get(prop.name)!;
+      const capacity = this.capacities.get(prop.name);
+      const floor = prop.min ?? 0;
+
+      for (let i = 0; i < layer.length; i++) {
+        if (rate > 0) {
+          const ceiling = capacity ? capacity[i] : prop.max ?? Infinity;
+          if (layer[i] < ceiling) layer[i] = Math.min(layer[i] + rate, ceiling);
+        } else if (layer[i] > floor) {
+          layer[i] = Math.max(layer[i] + rate, floor);
+        }
+      }
+    }
+  }
+
+  /**
+   * Each signal cell keeps (1 - diffusion) of its value and shares the rest
+   * equally among its 8 neighbours; shares that would leave a bounded world
+   * stay in the cell. What remains then loses the decay fraction.
+   */
+  private diffuse(): void {
+    const { columns, rows, next } = this;
+
+    for (const signal of this.signals) {
+      const layer = this.layers.get(signal.name)!;
+      const diffusion = signal.diffusion ?? 0;
+      const keep = 1 - (signal.decay ?? 0);
+      if (diffusion === 0 && keep === 1) continue;
+
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < columns; col++) {
+          const i = row * columns + col;
+          let sum = 0;
+          for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+              if (dx === 0 && dy === 0) continue;
+              let r = row + dy;
+              let c = col + dx;
+              if (this.wraparound) {
+                r = (r + rows) % rows;
+                c = (c + columns) % columns;
+              } else if (r < 0 || r >= rows || c < 0 || c >= columns) {
+                sum += layer[i];
+                continue;
+              }
+              sum += layer[r * columns + c];
+            }
+          }
+          next[i] = (layer[i] * (1 - diffusion) + (sum * diffusion) / 8) * keep;
+        }
+      }
+      layer.set(next);
+    }
+  }
+
+  private property(name: string): PatchPropertyDef | undefined {
+    return this.properties.find((p) => p.name === name);
+  }
+
+  private clamp(name: string, value: number): number {
+    const prop = this.property(name);
+    if (prop?.min !== undefined && value < prop.min) return prop.min;
+    if (prop?.max !== undefined && value > prop.max) return prop.max;
+    return value;
+  }
+}
+
+// ============================================================================
+// Environment Attachment
+// ============================================================================
+
+// Flocc has no slot for custom helpers, so grids are looked up by environment
+const grids = new WeakMap<Environment, PatchGrid>();
+
+export function attachPatches(env: Environment, grid: PatchGrid): void {
+  grids.set(env, grid);
+}
+
+export function getPatches(env: Environment): PatchGrid | null {
+  return grids.get(env) ?? null;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Paint patch layers into a Flocc Terrain (one terrain cell per patch,
+ * scaled by the cell size). Each drawn layer blends its color over the
+ * background in proportion to value / max, in the order given.
+ */
+export function paintPatches(
+  terrain: Terrain,
+  layers: PatchSnapshot,
+  styles: LayerStyle[],
+  background: string
+): void {
+  const base = parseColor(background);
+  const drawn = styles
+    .filter((p) => p.color && layers[p.name])
+    .map((p) => ({ values: layers[p.name], color: parseColor(p.color!), max: p.max ?? 1 }));
+
+  for (let row = 0; row < terrain.height; row++) {
+    for (let col = 0; col < terrain.width; col++) {
+      const i = row * terrain.width + col;
+      let [r, g, b] = base;
+      for (const { values, color, max } of drawn) {
+        const t = max > 0 ? Math.min(Math.max(values[i] / max, 0), 1) : 0;
+        r += (color[0] - r) * t;
+        g += (color[1] - g) * t;
+        b += (color[2] - b) * t;
+      }
+      terrain.set(col, row, r, g, b, 255);
+    }
+  }
+}
+
+/**
+ * RGB components of a #rgb or #rrggbb color (black if unparseable)
+ */
+function parseColor(color: string): [number, number, number] {
+  let hex = color.replace('#', '');
+  if (hex.length === 3) hex = hex.split('').map((c) => c + c).join('');
+  const value = parseInt(hex, 16);
+  if (hex.length !== 6 || Number.isNaN(value)) return [0, 0, 0];
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
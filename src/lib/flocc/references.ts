@@ -0,0 +1,252 @@
+/**
+ * Name References
+ *
+ * Behaviors, initializers and chart series refer to parameters and
+ * properties by name: `$speed` in an expression, a property picked in a
+ * select, a series plotting mean `energy`. Renaming rewrites every one of
+ * those references (the model store calls these inside its immer updates),
+ * and the editor counts them to warn before deleting something in use.
+ *
+ * Custom code is left alone: `params.speed` and `agent.get('energy')` are
+ * ordinary JavaScript and can't be rewritten reliably.
+ */
+
+import type { AgentType, Behavior, PropertyInitializer, PropertyMap, StudioModel } from '@/types';
+import { getBehaviorDef, flattenBehaviors, type ParamDef } from './behaviors';
+import { referencesName, renameReferences } from './expressions';
+
+// Names usable in expressions; other names are left out of expression rewrites
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Whether a name can be referenced from expressions (`$name`, `name`).
+ * Parameters and properties can only be renamed to such names, since a
+ * rename writes the new name into every expression using the old one.
+ */
+export function isIdentifier(name: string): boolean {
+  return IDENTIFIER.test(name);
+}
+
+export interface ReferenceUses {
+  behaviors: number;
+  series: number;
+  initializers: number;
+}
+
+// ============================================================================
+// Parameters
+// ============================================================================
+
+/**
+ * What refers to a parameter: behavior params (expressions, `$name` flags,
+ * parameter selects) and initial values drawn from it
+ */
+export function findParameterUses(model: StudioModel, name: string): ReferenceUses {
+  const behaviors = model.agentTypes
+    .flatMap((t) => flattenBehaviors(t.behaviors))
+    .filter((b) => paramEntries(b).some(([param, value]) => usesParameter(param, value, name)));
+
+  return {
+    behaviors: behaviors.length,
+    series: 0,
+    initializers: initializers(model).filter((init) => init.type === 'parameter' && init.parameter === name).length,
+  };
+}
+
+/**
+ * Point every reference to parameter `from` at `to`. Mutates the model.
+ */
+export function renameParameterReferences(model: StudioModel, from: string, to: string): void {
+  if (from === to) return;
+
+  for (const behavior of model.agentTypes.flatMap((t) => flattenBehaviors(t.behaviors))) {
+    for (const [param, value] of paramEntries(behavior)) {
+      if (!usesParameter(param, value, from)) continue;
+      behavior.params[param.key] =
+        param.type === 'parameter'
+          ? to
+          : param.type === 'boolean'
+          ? `$${to}`
+          : renameReferences(value as string, 'parameter', from, to);
+    }
+  }
+
+  for (const init of initializers(model)) {
+    if (init.type === 'parameter' && init.parameter === from) init.parameter = to;
+  }
+}
+
+function usesParameter(param: ParamDef, value: unknown, name: string): boolean {
+  switch (param.type) {
+    case 'parameter':
+      return value === name;
+    case 'boolean':
+      return value === `$${name}`;
+    case 'number':
+      return typeof value === 'string' && IDENTIFIER.test(name) && referencesName(value, 'parameter', name);
+    default:
+      return false;
+  }
+}
+
+// ============================================================================
+// Properties
+// ============================================================================
+
+/**
+ * What refers to an agent type's property: the type's own behaviors
+ * (property selects, expressions), other types' behaviors that target it
+ * (e.g. "take energy from Sheep") and chart series
+ */
+export function findPropertyUses(model: StudioModel, agentTypeId: string, name: string): ReferenceUses {
+  let behaviors = 0;
+  for (const agentType of model.agentTypes) {
+    for (const behavior of flattenBehaviors(agentType.behaviors)) {
+      const uses = paramEntries(behavior).some(([param, value]) =>
+        usesProperty(agentType, behavior, agentTypeId, param, value, name)
+      );
+      if (uses) behaviors++;
+    }
+  }
+
+  const series = model.visualizations
+    .flatMap((v) => v.series)
+    .filter((s) => s.metric.type === 'property' && s.metric.agentTypeId === agentTypeId && s.metric.property === name);
+
+  return { behaviors, series: series.length, initializers: 0 };
+}
+
+/**
+ * Point every reference to a property of `agentTypeId` named `from` at
+ * `to`. Mutates the model.
+ */
+export function renamePropertyReferences(
+  model: StudioModel,
+  agentTypeId: string,
+  from: string,
+  to: string
+): void {
+  if (from === to) return;
+
+  for (const agentType of model.agentTypes) {
+    for (const behavior of flattenBehaviors(agentType.behaviors)) {
+      for (const [param, value] of paramEntries(behavior)) {
+        if (!usesProperty(agentType, behavior, agentTypeId, param, value, from)) continue;
+        behavior.params[param.key] =
+          param.type === 'number'
+            ? renameReferences(value as string, 'property', from, to)
+            : param.type === 'propertyMap'
+            ? renamePropertyMap(value as PropertyMap, {
+                target: behavior.params.newType === agentTypeId,
+                source: agentType.id === agentTypeId,
+              }, from, to)
+            : to;
+      }
+    }
+  }
+
+  for (const viz of model.visualizations) {
+    for (const series of viz.series) {
+      const { metric } = series;
+      if (metric.type === 'property' && metric.agentTypeId === agentTypeId && metric.property === from) {
+        metric.property = to;
+      }
+    }
+  }
+}
+
+function usesProperty(
+  agentType: AgentType,
+  behavior: Behavior,
+  agentTypeId: string,
+  param: ParamDef,
+  value: unknown,
+  name: string
+): boolean {
+  switch (param.type) {
+    case 'property':
+      return agentType.id === agentTypeId && value === name;
+    case 'targetProperty':
+      return behavior.params.target === agentTypeId && value === name;
+    case 'propertyMap': {
+      // Maps the new type's properties (keys) to the agent's own (values)
+      const map = (value ?? {}) as PropertyMap;
+      return (
+        (behavior.params.newType === agentTypeId && Object.keys(map).includes(name)) ||
+        (agentType.id === agentTypeId && Object.values(map).includes(name))
+      );
+    }
+    case 'number':
+      // Expressions read the agent's own properties
+      return (
+        agentType.id === agentTypeId &&
+        typeof value === 'string' &&
+        IDENTIFIER.test(name) &&
+        referencesName(value, 'property', name)
+      );
+    default:
+      return false;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * A property mapping with `from` renamed on the sides it belongs to
+ */
+function renamePropertyMap(
+  map: PropertyMap,
+  sides: { target: boolean; source: boolean },
+  from: string,
+  to: string
+): PropertyMap {
+  return Object.fromEntries(
+    Object.entries(map).map(([target, source]) => [
+      sides.target && target === from ? to : target,
+      sides.source && source === from ? to : source,
+    ])
+  );
+}
+
+/**
+ * How many things a rename or delete touches, e.g. "Used by 2 behaviors
+ * and 1 chart series"; null when unused
+ */
+export function describeUses(uses: ReferenceUses): string | null {
+  const parts = [
+    plural(uses.behaviors, 'behavior', 'behaviors'),
+    plural(uses.initializers, 'initial value', 'initial values'),
+    plural(uses.series, 'chart series', 'chart series'),
+  ].filter(Boolean);
+
+  if (parts.length === 0) return null;
+  const list = parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+  return `Used by ${list}`;
+}
+
+function plural(count: number, one: string, many: string): string | null {
+  if (count === 0) return null;
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+/**
+ * Every param of a behavior with its stored value, hidden ones included so
+ * switching an action back keeps a working reference
+ */
+function paramEntries(behavior: Behavior): [ParamDef, unknown][] {
+  const def = getBehaviorDef(behavior.type);
+  if (!def) return [];
+  return def.params.map((param) => [param, behavior.params[param.key]]);
+}
+
+/**
+ * Initial-value settings of agent and patch properties
+ */
+function initializers(model: StudioModel): PropertyInitializer[] {
+  return [
+    ...model.agentTypes.flatMap((t) => t.properties),
+    ...(model.environment.patches?.properties ?? []),
+  ].flatMap((p) => (p.initial ? [p.initial] : []));
+}
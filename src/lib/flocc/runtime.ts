@@ -0,0 +1,251 @@
+/**
+ * SimulationRuntime
+ *
+ * Headless simulation state: compiles a StudioModel, owns the Flocc
+ * Environment, advances ticks, and produces agent snapshots and metrics.
+ * Has no DOM dependencies so it can run inside the simulation worker.
+ */
+
+import { Environment, KDTree } from 'flocc';
+import type {
+  StudioModel,
+  Parameter,
+  Visualization,
+  AgentSnapshot,
+  PatchSnapshot,
+  SeedConfig,
+} from '@/types';
+import { compileModel, ensureAgentId, resolveSeed, DEFAULT_SEED, type CompiledModel } from './compiler';
+import { createMetricFunction, getMetricKey } from './metrics';
+import { getPatches } from './patches';
+import { getNetwork } from './network';
+import { assertModelValid } from './validation';
+
+// ============================================================================
+// SimulationRuntime Class
+// ============================================================================
+
+export class SimulationRuntime {
+  private env: Environment | null = null;
+  private envConfig: CompiledModel['envConfig'] | null = null;
+  private setupFn: ((env: Environment, seed: number) => void) | null = null;
+  private seedConfig: SeedConfig | undefined;
+  private seed: number = DEFAULT_SEED;
+  private tickCount: number = 0;
+  private parameters: Parameter[] = [];
+  private visualizations: Visualization[] = [];
+  private propertyNames: Map<string, string[]> = new Map();
+  private metricFns: Map<string, () => number> = new Map();
+
+  /**
+   * Check and compile the model, then create a fresh environment. Throws
+   * when the model has errors (see validation).
+   */
+  initialize(model: StudioModel): void {
+    assertModelValid(model);
+    const compiled = compileModel(model);
+
+    this.setupFn = compiled.setup;
+    this.envConfig = compiled.envConfig;
+    this.seedConfig = model.environment.seed;
+    this.parameters = model.parameters.map((p) => ({ ...p }));
+    this.visualizations = model.visualizations ?? [];
+
+    // Custom property names per agent type, included in snapshots
+    this.propertyNames = new Map(
+      model.agentTypes.map((t) => [t.id, t.properties.map((p) => p.name)])
+    );
+
+    this.startRun();
+  }
+
+  /**
+   * Reset the simulation to initial state
+   */
+  reset(): void {
+    if (!this.setupFn) return;
+    this.startRun();
+  }
+
+  /**
+   * Advance the simulation by one tick
+   */
+  tick(): void {
+    if (!this.env) return;
+
+    // Agents created at runtime get IDs as they're made; this catches any
+    // that didn't
+    this.assignIds();
+
+    this.env.tick();
+    getPatches(this.env)?.update();
+    getNetwork(this.env)?.prune();
+    this.tickCount++;
+  }
+
+  /**
+   * Update a single parameter value by ID
+   */
+  setParameter(id: string, value: Parameter['value']): void {
+    const param = this.parameters.find((p) => p.id === id);
+    if (!param) return;
+
+    param.value = value;
+    this.env?.set(param.name, value);
+  }
+
+  /**
+   * Replace all parameters (e.g. after renames in the model store)
+   */
+  syncParameters(parameters: Parameter[]): void {
+    this.parameters = parameters.map((p) => ({ ...p }));
+    this.syncParametersToEnv();
+  }
+
+  /**
+   * Rebuild metric functions for the enabled chart series
+   */
+  setVisualizations(visualizations: Visualization[]): void {
+    this.visualizations = visualizations;
+    this.metricFns.clear();
+    if (!this.env) return;
+
+    for (const viz of visualizations) {
+      if (!viz.enabled || viz.type !== 'line-chart') continue;
+
+      for (const series of viz.series) {
+        const metricFn = createMetricFunction(this.env, series.metric);
+        if (metricFn) {
+          this.metricFns.set(getMetricKey(series.metric), metricFn);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get current tick count
+   */
+  getTick(): number {
+    return this.tickCount;
+  }
+
+  /**
+   * Get the seed used for the current run
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Serialize the current agent positions and properties
+   */
+  snapshot(): AgentSnapshot[] {
+    if (!this.env) return [];
+
+    this.assignIds();
+
+    return this.env.getAgents().map((agent) => {
+      const typeId = agent.get('typeId') as string;
+      const properties: Record<string, unknown> = {};
+      for (const name of this.propertyNames.get(typeId) ?? []) {
+        properties[name] = agent.get(name);
+      }
+
+      return {
+        id: agent.get('_id') as string,
+        typeId,
+        x: agent.get('x') as number,
+        y: agent.get('y') as number,
+        vx: (agent.get('vx') as number) ?? undefined,
+        vy: (agent.get('vy') as number) ?? undefined,
+        properties,
+      };
+    });
+  }
+
+  /**
+   * Values of the patch properties drawn on the canvas, if the model has patches
+   */
+  patchSnapshot(): PatchSnapshot | undefined {
+    if (!this.env) return undefined;
+    return getPatches(this.env)?.snapshot();
+  }
+
+  /**
+   * Linked agent ID pairs, if the model has a network
+   */
+  linkSnapshot(): [string, string][] | undefined {
+    const network = this.env && getNetwork(this.env);
+    if (!network) return undefined;
+
+    this.assignIds();
+    return network.pairs().map(([a, b]) => [a.get('_id') as string, b.get('_id') as string]);
+  }
+
+  /**
+   * Evaluate all chart metrics against the current state
+   */
+  collectMetrics(): Record<string, number> {
+    const data: Record<string, number> = {};
+    for (const [key, fn] of this.metricFns) {
+      data[key] = fn();
+    }
+    return data;
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Build a fresh environment and run setup. A new Environment (rather than
+   * clearing the old one) guarantees a reset replays exactly like a first run.
+   */
+  private startRun(): void {
+    if (!this.setupFn || !this.envConfig) return;
+
+    this.tickCount = 0;
+
+    // Random-seeded models draw a new seed per run
+    this.seed = resolveSeed(this.seedConfig);
+
+    // Create environment with torus option
+    this.env = new Environment({
+      torus: this.envConfig.wraparound,
+      width: this.envConfig.width,
+      height: this.envConfig.height,
+    });
+
+    // Store parameters on the environment for runtime access
+    this.syncParametersToEnv();
+
+    // Run setup to create agents
+    this.setupFn(this.env, this.seed);
+    this.assignIds();
+
+    this.env.use(new KDTree(this.env.getAgents()));
+
+    // Metric functions are bound to the environment
+    this.setVisualizations(this.visualizations);
+  }
+
+  /**
+   * Sync stored parameters to the environment
+   */
+  private syncParametersToEnv(): void {
+    if (!this.env) return;
+    for (const param of this.parameters) {
+      this.env.set(param.name, param.value);
+    }
+  }
+
+  /**
+   * Give every agent without one a stable snapshot ID
+   */
+  private assignIds(): void {
+    if (!this.env) return;
+    for (const agent of this.env.getAgents()) {
+      ensureAgentId(agent, this.env);
+    }
+  }
+}
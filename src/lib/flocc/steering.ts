@@ -0,0 +1,80 @@
+/**
+ * Steering
+ *
+ * Reynolds-style kinematics, set per agent type. Movement behaviors don't
+ * move agents; each adds a steering force
+ * toward the velocity it wants. After the agent's behaviors have run, the
+ * summed force (clamped to the max force) changes its velocity, drag slows
+ * it down, its speed is clamped to the max speed, and it moves by its
+ * velocity. Between behaviors the summed force is kept on the agent as
+ * 'ax' and 'ay'.
+ */
+
+import type { Agent } from 'flocc';
+import type { Kinematics } from '@/types';
+
+export const DEFAULT_KINEMATICS: Kinematics = { maxSpeed: 4, maxForce: 0.2, drag: 0 };
+
+interface WorldSize {
+  width: number;
+  height: number;
+  wraparound: boolean;
+}
+
+/**
+ * Add a steering force toward direction (dx, dy) at a desired speed (never
+ * above the max speed), scaled by weight. A zero direction adds nothing.
+ */
+export function steer(
+  agent: Agent,
+  dx: number,
+  dy: number,
+  speed: number,
+  weight: number,
+  kinematics: Kinematics
+): void {
+  const length = Math.sqrt(dx * dx + dy * dy);
+  if (length === 0) return;
+
+  const desired = Math.min(speed, kinematics.maxSpeed);
+  const vx = (agent.get('vx') as number) ?? 0;
+  const vy = (agent.get('vy') as number) ?? 0;
+  agent.set('ax', ((agent.get('ax') as number) ?? 0) + ((dx / length) * desired - vx) * weight);
+  agent.set('ay', ((agent.get('ay') as number) ?? 0) + ((dy / length) * desired - vy) * weight);
+}
+
+/**
+ * Apply the summed steering force and move the agent (end of its tick)
+ */
+export function integrate(agent: Agent, kinematics: Kinematics, world: WorldSize): void {
+  let ax = (agent.get('ax') as number) ?? 0;
+  let ay = (agent.get('ay') as number) ?? 0;
+  const force = Math.sqrt(ax * ax + ay * ay);
+  if (force > kinematics.maxForce) {
+    ax = (ax / force) * kinematics.maxForce;
+    ay = (ay / force) * kinematics.maxForce;
+  }
+
+  const damping = 1 - kinematics.drag;
+  let vx = (((agent.get('vx') as number) ?? 0) + ax) * damping;
+  let vy = (((agent.get('vy') as number) ?? 0) + ay) * damping;
+  const speed = Math.sqrt(vx * vx + vy * vy);
+  if (speed > kinematics.maxSpeed) {
+    vx = (vx / speed) * kinematics.maxSpeed;
+    vy = (vy / speed) * kinematics.maxSpeed;
+  }
+
+  let x = (agent.get('x') as number) + vx;
+  let y = (agent.get('y') as number) + vy;
+  if (world.wraparound) {
+    x = ((x % world.width) + world.width) % world.width;
+    y = ((y % world.height) + world.height) % world.height;
+  }
+
+  agent.set('vx', vx);
+  agent.set('vy', vy);
+  agent.set('x', x);
+  agent.set('y', y);
+  agent.set('ax', 0);
+  agent.set('ay', 0);
+}
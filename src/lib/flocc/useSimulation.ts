@@ -4,24 +4,31 @@
  * useSimulation Hook
  * 
  * Manages the SimulationEngine for running Flocc simulations.
- * Handles compilation, initialization, and lifecycle.
+ * Handles initialization and lifecycle; compilation and ticking
+ * happen in the simulation worker.
+ *
+ * Runs the model in the model store, or `previewModel` when one is given
+ * (e.g. an earlier version from the editor's history).
  */
 
 import { useEffect, useRef, useCallback } from 'react';
 import { useModelStore } from '@/stores/model';
 import { useSimulationStore } from '@/stores/simulation';
-import { compileModel } from './compiler';
 import { SimulationEngine } from './SimulationEngine';
+import { BehaviorError } from './customCode';
+import type { StudioModel } from '@/types';
 
-export function useSimulation() {
+export function useSimulation(previewModel?: StudioModel | null) {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const engineRef = useRef<SimulationEngine | null>(null);
   
-  const model = useModelStore((s) => s.model);
-  const parameters = useModelStore((s) => s.model?.parameters);
-  const visualizations = useModelStore((s) => s.model?.visualizations);
+  const storeModel = useModelStore((s) => s.model);
+  const model = previewModel ?? storeModel;
+  const parameters = model?.parameters;
   const setEngine = useSimulationStore((s) => s.setEngine);
   const updateState = useSimulationStore((s) => s.updateState);
+  const setSeed = useSimulationStore((s) => s.setSeed);
+  const setError = useSimulationStore((s) => s.setError);
   const setStatus = useSimulationStore((s) => s.setStatus);
   const speed = useSimulationStore((s) => s.speed);
   
@@ -56,9 +63,6 @@ export function useSimulation() {
     }
 
     try {
-      // Compile model
-      const compiled = compileModel(model);
-
       // Create or reuse engine
       if (!engineRef.current) {
         engineRef.current = new SimulationEngine({
@@ -66,34 +70,37 @@ export function useSimulation() {
           onTick: (tick, agentCount) => {
             updateState(tick, agentCount);
           },
+          onSeed: (seed) => {
+            setSeed(seed);
+          },
           onError: (error) => {
             console.error('Simulation error:', error);
+            setError({
+              message: error.message,
+              behaviorId: error instanceof BehaviorError ? error.behaviorId : undefined,
+            });
+            setStatus('paused');
           },
         });
         setEngine(engineRef.current);
       }
 
-      // Initialize with compiled model, parameters, and visualizations
-      engineRef.current.initialize(
-        compiled.setup,
-        compiled.agentTypes,
-        compiled.envConfig,
-        model.parameters,
-        model.visualizations ?? []
-      );
+      // Initialize with the model; compilation happens in the simulation worker
+      engineRef.current.initialize(model);
 
       // Apply current speed setting
       engineRef.current.setSpeed(speed);
 
       // Reset status
       setStatus('idle');
+      setError(null);
       
       // Track current structure
       modelStructureRef.current = getStructureHash();
     } catch (error) {
-      console.error('Failed to compile model:', error);
+      console.error('Failed to initialize simulation:', error);
     }
-  }, [setEngine, updateState, setStatus, speed, getStructureHash()]);
+  }, [setEngine, updateState, setSeed, setError, setStatus, speed, getStructureHash()]);
 
   // Sync parameter changes to the running engine (for runtime adjustment)
   // This should NOT trigger re-initialization, only update the environment values
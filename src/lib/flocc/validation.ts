@@ -0,0 +1,396 @@
+/**
+ * Model Validation
+ *
+ * Checks a StudioModel for references that no longer resolve: behaviors
+ * aimed at deleted agent types, `$param` references to renamed parameters,
+ * chart series reading removed properties and so on. The compiler skips
+ * such behaviors without a word, so the editor lists them as problems and
+ * the runtime refuses to start a model with errors (see assertModelValid).
+ *
+ * Errors are references that can't work; warnings are settings left empty,
+ * which make a behavior do nothing but are often just unfinished.
+ */
+
+import type {
+  AgentType,
+  Behavior,
+  ChartSeries,
+  Parameter,
+  PropertyDef,
+  StudioModel,
+} from '@/types';
+import { getBehaviorDef, isParamShown, type ParamDef } from './behaviors';
+import {
+  parseExpression,
+  walk,
+  ExpressionError,
+  BUILTIN_PROPERTIES,
+  type ExpressionNode,
+} from './expressions';
+import { checkCustomCodeSyntax, BehaviorError } from './customCode';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * Where a problem is. Only the ids that apply are set, from the outermost
+ * (agent type, visualization) in.
+ */
+export interface DiagnosticLocation {
+  agentTypeId?: string;
+  behaviorId?: string;
+  propertyId?: string;
+  populationId?: string;
+  visualizationId?: string;
+  seriesId?: string;
+}
+
+/**
+ * A change to the model that resolves a problem, applied by the editor
+ */
+export type QuickFix = { label: string } & (
+  | { type: 'update-behavior'; agentTypeId: string; behaviorId: string; changes: Partial<Behavior> }
+  | { type: 'remove-behavior'; agentTypeId: string; behaviorId: string }
+  | { type: 'add-property'; agentTypeId: string; name: string }
+  | { type: 'update-property'; agentTypeId: string; propertyId: string; changes: Partial<PropertyDef> }
+  | { type: 'add-parameter'; name: string; value: number | boolean }
+  | { type: 'remove-population'; populationId: string }
+  | { type: 'remove-series'; visualizationId: string; seriesId: string }
+);
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  location: DiagnosticLocation;
+  fix?: QuickFix;
+}
+
+// ============================================================================
+// Linting
+// ============================================================================
+
+// Models are immutable (immer), so results can be cached per model object
+const cache = new WeakMap<StudioModel, Diagnostic[]>();
+
+/**
+ * All problems in a model, agent types first, in editor order
+ */
+export function lintModel(model: StudioModel): Diagnostic[] {
+  let diagnostics = cache.get(model);
+  if (!diagnostics) {
+    diagnostics = [
+      ...model.agentTypes.flatMap((agentType) => lintAgentType(model, agentType)),
+      ...lintPopulations(model),
+      ...lintVisualizations(model),
+    ];
+    cache.set(model, diagnostics);
+  }
+  return diagnostics;
+}
+
+/**
+ * Throw if a model has errors, so a broken model fails with a message
+ * rather than running with behaviors silently skipped. The error is a
+ * BehaviorError when the first problem is in a behavior, so the editor can
+ * point at it.
+ */
+export function assertModelValid(model: StudioModel): void {
+  const errors = lintModel(model).filter((d) => d.severity === 'error');
+  if (errors.length === 0) return;
+
+  const [first] = errors;
+  const more = errors.length - 1;
+  const message = more > 0
+    ? `${first.message} (and ${more} more problem${more === 1 ? '' : 's'})`
+    : first.message;
+
+  if (first.location.behaviorId) throw new BehaviorError(message, first.location.behaviorId);
+  throw new Error(message);
+}
+
+// ============================================================================
+// Agent Types
+// ============================================================================
+
+function lintAgentType(model: StudioModel, agentType: AgentType): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  for (const prop of agentType.properties) {
+    const init = prop.initial;
+    if (init?.type === 'parameter' && !hasParameter(model.parameters, init.parameter)) {
+      diagnostics.push({
+        severity: 'warning',
+        message: `Property '${prop.name}' starts at parameter '$${init.parameter}', which doesn't exist`,
+        location: { agentTypeId: agentType.id, propertyId: prop.id },
+        fix: {
+          type: 'update-property',
+          label: 'Start at default value',
+          agentTypeId: agentType.id,
+          propertyId: prop.id,
+          changes: { initial: undefined },
+        },
+      });
+    }
+  }
+
+  const visit = (behaviors: Behavior[]) => {
+    for (const behavior of behaviors) {
+      // Disabled behaviors aren't compiled, so they can't break anything
+      if (!behavior.enabled) continue;
+      diagnostics.push(...lintBehavior(model, agentType, behavior));
+      visit(behavior.then ?? []);
+      visit(behavior.else ?? []);
+    }
+  };
+  visit(agentType.behaviors);
+
+  return diagnostics;
+}
+
+function lintBehavior(model: StudioModel, agentType: AgentType, behavior: Behavior): Diagnostic[] {
+  const location = { agentTypeId: agentType.id, behaviorId: behavior.id };
+  const removeFix: QuickFix = {
+    type: 'remove-behavior',
+    label: 'Remove behavior',
+    agentTypeId: agentType.id,
+    behaviorId: behavior.id,
+  };
+
+  const def = getBehaviorDef(behavior.type);
+  if (!def) {
+    return [{
+      severity: 'error',
+      message: `Unknown behavior type '${behavior.type}'`,
+      location,
+      fix: removeFix,
+    }];
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  const error = (message: string, fix?: QuickFix) =>
+    diagnostics.push({ severity: 'error', message: `${def.name}: ${message}`, location, fix });
+
+  const params = behavior.params;
+  const targetType = model.agentTypes.find((t) => t.id === params.target);
+  const patches = model.environment.patches;
+
+  for (const param of def.params) {
+    if (!isParamShown(param, params)) continue;
+    const value = params[param.key];
+
+    if (value === null || value === undefined || value === '') {
+      if (isRequired(param, params)) {
+        diagnostics.push({
+          severity: 'warning',
+          message: `${def.name}: ${param.name} is not set, so it does nothing`,
+          location,
+        });
+      }
+      continue;
+    }
+
+    switch (param.type) {
+      case 'agentType':
+        if (!model.agentTypes.some((t) => t.id === value)) {
+          error(
+            `${param.name} refers to an agent type that no longer exists`,
+            param.emptyLabel
+              ? {
+                  type: 'update-behavior',
+                  label: `Use '${param.emptyLabel}'`,
+                  agentTypeId: agentType.id,
+                  behaviorId: behavior.id,
+                  changes: { params: { ...params, [param.key]: null } },
+                }
+              : removeFix
+          );
+        }
+        break;
+
+      case 'property':
+        if (!hasProperty(agentType, value)) {
+          error(
+            `${agentType.name} has no property '${value}'`,
+            { type: 'add-property', label: `Add '${value}' to ${agentType.name}`, agentTypeId: agentType.id, name: value }
+          );
+        }
+        break;
+
+      case 'targetProperty':
+        // A missing target type is reported on the target param itself
+        if (targetType && !hasProperty(targetType, value)) {
+          error(
+            `${targetType.name} has no property '${value}'`,
+            { type: 'add-property', label: `Add '${value}' to ${targetType.name}`, agentTypeId: targetType.id, name: value }
+          );
+        }
+        break;
+
+      case 'propertyMap':
+        // Values carried over are read from this type's properties
+        for (const source of Object.values<string>(value)) {
+          if (!hasProperty(agentType, source)) {
+            error(
+              `${agentType.name} has no property '${source}'`,
+              { type: 'add-property', label: `Add '${source}' to ${agentType.name}`, agentTypeId: agentType.id, name: source }
+            );
+          }
+        }
+        break;
+
+      case 'parameter':
+        if (!hasParameter(model.parameters, value)) {
+          error(`there is no parameter '$${value}'`, addParameterFix(value, 0));
+        }
+        break;
+
+      case 'patchProperty':
+        if (!patches?.properties.some((p) => p.name === value)) {
+          error(`there is no patch property '${value}'`, removeFix);
+        }
+        break;
+
+      case 'signal':
+        if (!patches?.signals?.some((s) => s.name === value)) {
+          error(`there is no signal '${value}'`, removeFix);
+        }
+        break;
+
+      case 'number':
+        if (typeof value === 'string') {
+          for (const d of lintExpression(model, agentType, param, value)) {
+            error(d.message, d.fix);
+          }
+        }
+        break;
+
+      case 'boolean':
+        // Booleans can be bound to a parameter as "$name"
+        if (typeof value === 'string' && value.startsWith('$') && !hasParameter(model.parameters, value.slice(1))) {
+          error(`there is no parameter '${value}'`, addParameterFix(value.slice(1), param.default === true));
+        }
+        break;
+
+      case 'code': {
+        const syntaxError = checkCustomCodeSyntax(String(value));
+        if (syntaxError) error(`syntax error: ${syntaxError}`);
+        break;
+      }
+    }
+  }
+
+  // The same reference can appear in several params; report it once
+  return diagnostics.filter(
+    (d, i) => diagnostics.findIndex((other) => other.message === d.message) === i
+  );
+}
+
+/**
+ * Problems with an expression param: bad syntax and unknown names
+ */
+function lintExpression(
+  model: StudioModel,
+  agentType: AgentType,
+  param: ParamDef,
+  source: string
+): { message: string; fix?: QuickFix }[] {
+  let ast: ExpressionNode;
+  try {
+    ast = parseExpression(source);
+  } catch (error) {
+    const message = error instanceof ExpressionError ? error.message : String(error);
+    return [{ message: `invalid expression for ${param.name}: ${message}` }];
+  }
+
+  const problems: { message: string; fix?: QuickFix }[] = [];
+  for (const node of walk(ast)) {
+    if (node.type === 'parameter' && !hasParameter(model.parameters, node.name)) {
+      problems.push({
+        message: `${param.name} uses unknown parameter '$${node.name}'`,
+        fix: addParameterFix(node.name, typeof param.default === 'number' ? param.default : 0),
+      });
+    }
+    if (
+      node.type === 'property' &&
+      !hasProperty(agentType, node.name) &&
+      !BUILTIN_PROPERTIES.includes(node.name)
+    ) {
+      problems.push({
+        message: `${param.name} uses unknown property '${node.name}'`,
+        fix: { type: 'add-property', label: `Add '${node.name}' to ${agentType.name}`, agentTypeId: agentType.id, name: node.name },
+      });
+    }
+  }
+  return problems;
+}
+
+/**
+ * Whether leaving a select param empty stops the behavior working
+ */
+function isRequired(param: ParamDef, params: Record<string, unknown>): boolean {
+  if (param.emptyLabel) return false;
+  // 'Linked to' without a type counts links to any type
+  if (param.key === 'target' && params.test === 'linked') return false;
+  return ['agentType', 'property', 'targetProperty', 'parameter', 'patchProperty', 'signal'].includes(param.type);
+}
+
+// ============================================================================
+// Populations & Visualizations
+// ============================================================================
+
+function lintPopulations(model: StudioModel): Diagnostic[] {
+  return model.populations
+    .filter((pop) => !model.agentTypes.some((t) => t.id === pop.agentTypeId))
+    .map((pop) => ({
+      severity: 'error',
+      message: 'A population refers to an agent type that no longer exists',
+      location: { populationId: pop.id },
+      fix: { type: 'remove-population', label: 'Remove population', populationId: pop.id },
+    }));
+}
+
+function lintVisualizations(model: StudioModel): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  for (const viz of model.visualizations) {
+    for (const series of viz.series) {
+      const message = lintSeries(model, series);
+      if (!message) continue;
+      diagnostics.push({
+        severity: 'warning',
+        message: `${viz.name} / ${series.name}: ${message}`,
+        location: { visualizationId: viz.id, seriesId: series.id },
+        fix: { type: 'remove-series', label: 'Remove series', visualizationId: viz.id, seriesId: series.id },
+      });
+    }
+  }
+  return diagnostics;
+}
+
+function lintSeries(model: StudioModel, series: ChartSeries): string | null {
+  const agentType = model.agentTypes.find((t) => t.id === series.metric.agentTypeId);
+  if (!agentType) return 'counts an agent type that no longer exists';
+  if (series.metric.type === 'property' && !hasProperty(agentType, series.metric.property)) {
+    return `${agentType.name} has no property '${series.metric.property}'`;
+  }
+  return null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function hasProperty(agentType: AgentType, name: unknown): boolean {
+  return agentType.properties.some((p) => p.name === name);
+}
+
+function hasParameter(parameters: Parameter[], name: unknown): boolean {
+  return parameters.some((p) => p.name === name);
+}
+
+function addParameterFix(name: string, value: number | boolean): QuickFix {
+  return { type: 'add-parameter', label: `Add parameter '$${name}'`, name, value };
+}
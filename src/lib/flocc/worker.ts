@@ -0,0 +1,138 @@
+/**
+ * Simulation Worker
+ *
+ * Web Worker entry point. Owns a SimulationRuntime and runs the tick loop
+ * off the main thread, posting metrics and agent snapshots back once per frame.
+ */
+
+import type { ToWorker, FromWorker } from '@/types';
+import { SimulationRuntime } from './runtime';
+import { BehaviorError, lockDownWorkerGlobals } from './customCode';
+
+// Target frame interval (~60fps); slower models simply run at a lower frame rate
+const FRAME_INTERVAL = 1000 / 60;
+
+// Custom code behaviors run in this worker; close the ways out of their
+// scope before any model is compiled
+lockDownWorkerGlobals(self as unknown as Record<string, unknown>);
+
+const runtime = new SimulationRuntime();
+let isRunning = false;
+let ticksPerFrame = 1;
+let loopTimer: ReturnType<typeof setTimeout> | null = null;
+
+function post(message: FromWorker): void {
+  self.postMessage(message);
+}
+
+function postError(error: unknown): void {
+  post({
+    type: 'error',
+    message: error instanceof Error ? error.message : String(error),
+    behaviorId: error instanceof BehaviorError ? error.behaviorId : undefined,
+  });
+}
+
+/**
+ * Send the current metrics and agent state to the main thread
+ */
+function postFrame(): void {
+  post({ type: 'metrics', data: runtime.collectMetrics() });
+  post({
+    type: 'state',
+    tick: runtime.getTick(),
+    agents: runtime.snapshot(),
+    patches: runtime.patchSnapshot(),
+    links: runtime.linkSnapshot(),
+  });
+}
+
+function stopLoop(): void {
+  isRunning = false;
+  if (loopTimer !== null) {
+    clearTimeout(loopTimer);
+    loopTimer = null;
+  }
+}
+
+function runLoop(): void {
+  if (!isRunning) return;
+
+  const start = performance.now();
+
+  try {
+    // Run multiple ticks per frame based on speed
+    for (let i = 0; i < ticksPerFrame; i++) {
+      runtime.tick();
+    }
+    postFrame();
+  } catch (error) {
+    stopLoop();
+    postError(error);
+    return;
+  }
+
+  // Schedule next frame, accounting for the time spent ticking
+  const elapsed = performance.now() - start;
+  loopTimer = setTimeout(runLoop, Math.max(0, FRAME_INTERVAL - elapsed));
+}
+
+function handleMessage(message: ToWorker): void {
+  switch (message.type) {
+    case 'init':
+      stopLoop();
+      runtime.initialize(message.model);
+      post({ type: 'seed', seed: runtime.getSeed() });
+      postFrame();
+      break;
+
+    case 'play':
+      if (isRunning) return;
+      isRunning = true;
+      runLoop();
+      break;
+
+    case 'pause':
+      stopLoop();
+      post({ type: 'paused' });
+      break;
+
+    case 'step':
+      stopLoop();
+      runtime.tick();
+      postFrame();
+      break;
+
+    case 'reset':
+      stopLoop();
+      runtime.reset();
+      post({ type: 'seed', seed: runtime.getSeed() });
+      postFrame();
+      break;
+
+    case 'set-param':
+      runtime.setParameter(message.id, message.value);
+      break;
+
+    case 'set-params':
+      runtime.syncParameters(message.parameters);
+      break;
+
+    case 'set-speed':
+      ticksPerFrame = Math.max(1, message.ticksPerFrame);
+      break;
+
+    case 'set-visualizations':
+      runtime.setVisualizations(message.visualizations);
+      break;
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<ToWorker>) => {
+  try {
+    handleMessage(event.data);
+  } catch (error) {
+    stopLoop();
+    postError(error);
+  }
+});
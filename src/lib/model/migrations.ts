@@ -0,0 +1,146 @@
+/**
+ * Model Migrations
+ *
+ * Saved models outlive the code that wrote them. Each model records the
+ * `schemaVersion` of the format it was saved in, and `migrateModel` walks it
+ * forward one version at a time until it matches the current format.
+ *
+ * To change the format: bump CURRENT_SCHEMA_VERSION and add a migration
+ * from the previous version. Migrations take and return plain JSON (old
+ * models don't match today's types) and must not mutate their input.
+ * Models without a schemaVersion predate versioning and count as version 1.
+ */
+
+import type { StudioModel } from '@/types';
+
+export const CURRENT_SCHEMA_VERSION = 5;
+
+type ModelJson = Record<string, unknown>;
+
+/**
+ * MIGRATIONS[n] upgrades a version n model to version n + 1
+ */
+const MIGRATIONS: Record<number, (model: ModelJson) => ModelJson> = {
+  // 1 → 2: fill in fields added since the first release, so code can rely
+  // on them. Seeds keep the fixed seed every model ran with back then.
+  1: (model) => ({
+    ...model,
+    environment: {
+      ...(model.environment as ModelJson),
+      seed: (model.environment as ModelJson | undefined)?.seed ?? { mode: 'fixed' },
+    },
+    agentTypes: list(model.agentTypes).map((agentType) => ({
+      ...agentType,
+      properties: agentType.properties ?? [],
+      behaviors: list(agentType.behaviors).map(fillBranches),
+    })),
+    populations: model.populations ?? [],
+    parameters: model.parameters ?? [],
+    visualizations: model.visualizations ?? [],
+    tags: model.tags ?? [],
+  }),
+
+  // 2 → 3: thumbnails moved out of the definition into file storage (see
+  // lib/thumbnails), so drop the data URL older models carry
+  2: (model) => {
+    const upgraded = { ...model };
+    delete upgraded.thumbnailUrl;
+    return upgraded;
+  },
+
+  // 3 → 4: changing type took a keepProperties flag, which carried over the
+  // properties both types share by name; it's now a mapping per property.
+  // A flag bound to a parameter becomes the default, keeping them.
+  3: (model) => {
+    const agentTypes = list(model.agentTypes);
+    const propertyNames = (typeId: unknown) =>
+      list(agentTypes.find((t) => t.id === typeId)?.properties).map((p) => p.name);
+
+    const upgrade = (behavior: ModelJson, own: unknown[]): ModelJson => {
+      const params = behavior.params as ModelJson | undefined;
+      const changesType = behavior.type === 'change-type' || params?.action === 'change-type';
+      const upgraded: ModelJson = { ...behavior };
+      if (params && (changesType || 'keepProperties' in params)) {
+        const { keepProperties, ...rest } = params;
+        const shared = keepProperties === false ? [] : propertyNames(rest.newType).filter((name) => own.includes(name));
+        upgraded.params = { ...rest, propertyMap: Object.fromEntries(shared.map((name) => [name, name])) };
+      }
+      if (behavior.type === 'if') {
+        upgraded.then = list(behavior.then).map((b) => upgrade(b, own));
+        upgraded.else = list(behavior.else).map((b) => upgrade(b, own));
+      }
+      return upgraded;
+    };
+
+    return {
+      ...model,
+      agentTypes: agentTypes.map((agentType) => ({
+        ...agentType,
+        behaviors: list(agentType.behaviors).map((b) => upgrade(b, propertyNames(agentType.id))),
+      })),
+    };
+  },
+
+  // 4 → 5: steering became how every agent type moves. Types that moved
+  // directly get the default limits, with the max speed raised to their
+  // fastest movement behavior so they don't slow down.
+  4: (model) => ({
+    ...model,
+    agentTypes: list(model.agentTypes).map((agentType) => {
+      if (agentType.kinematics) return agentType;
+      const speeds = flatten(list(agentType.behaviors))
+        .map((b) => (b.params as ModelJson | undefined)?.speed)
+        .filter((speed): speed is number => typeof speed === 'number');
+      return {
+        ...agentType,
+        kinematics: { maxSpeed: Math.max(4, ...speeds), maxForce: 0.2, drag: 0 },
+      };
+    }),
+  }),
+};
+
+/**
+ * The format version a stored model was saved in
+ */
+export function getSchemaVersion(data: unknown): number {
+  const version = (data as ModelJson | null)?.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 1;
+}
+
+/**
+ * Upgrade a stored model to the current format. Current models are
+ * returned unchanged (the same object). Models from a newer version of the
+ * app are also returned as they are, since they can't be downgraded.
+ */
+export function migrateModel(data: unknown): StudioModel {
+  let version = getSchemaVersion(data);
+  if (version >= CURRENT_SCHEMA_VERSION) return data as StudioModel;
+
+  let model = data as ModelJson;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    model = MIGRATIONS[version](model);
+    version++;
+  }
+  return { ...model, schemaVersion: CURRENT_SCHEMA_VERSION } as StudioModel;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function fillBranches(behavior: ModelJson): ModelJson {
+  if (behavior.type !== 'if') return behavior;
+  return {
+    ...behavior,
+    then: list(behavior.then).map(fillBranches),
+    else: list(behavior.else).map(fillBranches),
+  };
+}
+
+function flatten(behaviors: ModelJson[]): ModelJson[] {
+  return behaviors.flatMap((b) => [b, ...flatten(list(b.then)), ...flatten(list(b.else))]);
+}
+
+function list(value: unknown): ModelJson[] {
+  return Array.isArray(value) ? value : [];
+}
@@ -0,0 +1,358 @@
+/**
+ * StudioModel JSON Schema
+ *
+ * The shape of a model definition as JSON Schema (draft 2020-12). The
+ * models API checks request bodies against it (see validation.ts), and
+ * GET /api/schema publishes it for tools that generate models.
+ *
+ * Bounds are generous limits on what the server stores, not the editor's
+ * slider ranges: they keep a single model from being too big to run or
+ * store. Fields marked readOnly are owned by the server and ignored in
+ * requests.
+ */
+
+import { BEHAVIOR_LIBRARY } from '@/lib/flocc/behaviors';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { MAX_TAGS, MAX_TAG_LENGTH } from './tags';
+
+export type JsonSchema = {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  enum?: readonly unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  maxProperties?: number;
+  oneOf?: JsonSchema[];
+  readOnly?: boolean;
+};
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * Limits that JSON Schema can't express, checked in validation.ts
+ */
+export const MODEL_LIMITS = {
+  maxBytes: 1_000_000,  // Serialized request body
+  maxAgents: 20_000,    // Across all populations
+  maxNesting: 8,        // Depth of if/else blocks
+  maxPatchCells: 1_000_000,
+};
+
+// ============================================================================
+// Building Blocks
+// ============================================================================
+
+/** An object with exactly these fields */
+function object(properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema {
+  return { type: 'object', properties, required, additionalProperties: false };
+}
+
+function string(maxLength: number, minLength = 0): JsonSchema {
+  return { type: 'string', minLength, maxLength };
+}
+
+function number(minimum?: number, maximum?: number): JsonSchema {
+  return { type: 'number', minimum, maximum };
+}
+
+function integer(minimum: number, maximum: number): JsonSchema {
+  return { type: 'integer', minimum, maximum };
+}
+
+function array(items: JsonSchema, maxItems: number): JsonSchema {
+  return { type: 'array', items, maxItems };
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/$defs/${name}` });
+
+const id = string(64, 1);
+const name = string(64, 1);
+const color: JsonSchema = { type: 'string', pattern: '^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$' };
+const readOnly = (schema: JsonSchema): JsonSchema => ({ ...schema, readOnly: true });
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+export const MODEL_JSON_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: '/api/schema',
+  title: 'StudioModel',
+  description: `A Flocc Studio model definition (schemaVersion ${CURRENT_SCHEMA_VERSION})`,
+  ...object(
+    {
+      name: string(200, 1),
+      description: string(5000),
+      environment: ref('environment'),
+      agentTypes: array(ref('agentType'), 50),
+      populations: array(ref('population'), 100),
+      parameters: array(ref('parameter'), 100),
+      visualizations: array(ref('visualization'), 20),
+      tags: array(string(MAX_TAG_LENGTH, 1), MAX_TAGS),
+      isPublic: { type: 'boolean' },
+      schemaVersion: integer(1, CURRENT_SCHEMA_VERSION),
+
+      // Server-owned
+      id: readOnly(id),
+      slug: readOnly({ type: 'string' }),
+      userId: readOnly({ type: 'string' }),
+      thumbnailUrl: readOnly({ type: 'string' }),
+      version: readOnly({ type: 'integer' }),
+      createdAt: readOnly({ type: 'string' }),
+      updatedAt: readOnly({ type: 'string' }),
+      isFeatured: readOnly({ type: 'boolean' }),
+      forkOf: readOnly({ type: 'string' }),
+      forkCount: readOnly({ type: 'integer' }),
+      viewCount: readOnly({ type: 'integer' }),
+    },
+    ['name', 'environment', 'agentTypes', 'populations', 'parameters', 'visualizations']
+  ),
+
+  $defs: {
+    // Environment ------------------------------------------------------------
+    environment: object(
+      {
+        width: number(10, 10000),
+        height: number(10, 10000),
+        wraparound: { type: 'boolean' },
+        backgroundColor: color,
+        seed: object(
+          {
+            mode: { enum: ['fixed', 'random', 'custom'] },
+            value: number(),
+          },
+          ['mode']
+        ),
+        patches: ref('patches'),
+        network: ref('network'),
+      },
+      ['width', 'height', 'wraparound']
+    ),
+
+    patches: object(
+      {
+        cellSize: number(1, 1000),
+        properties: array(
+          object(
+            {
+              id,
+              name,
+              defaultValue: number(),
+              min: number(),
+              max: number(),
+              initial: ref('initializer'),
+              regrowth: number(),
+              regrowTo: { enum: ['max', 'initial'] },
+              color,
+            },
+            ['id', 'name', 'defaultValue']
+          ),
+          20
+        ),
+        signals: array(
+          object(
+            {
+              id,
+              name,
+              diffusion: number(0, 1),
+              decay: number(0, 1),
+              color,
+              max: number(0),
+            },
+            ['id', 'name', 'diffusion', 'decay']
+          ),
+          20
+        ),
+      },
+      ['cellSize', 'properties']
+    ),
+
+    network: object(
+      {
+        topology: { enum: ['none', 'random', 'small-world', 'nearest-k'] },
+        probability: number(0, 1),
+        degree: integer(0, 100),
+        rewire: number(0, 1),
+        color,
+      },
+      ['topology']
+    ),
+
+    // Agents -----------------------------------------------------------------
+    agentType: object(
+      {
+        id,
+        name: string(100, 1),
+        color,
+        shape: { enum: ['circle', 'triangle', 'square', 'arrow', 'custom'] },
+        size: number(0, 1000),
+        properties: array(ref('property'), 50),
+        behaviors: array(ref('behavior'), 100),
+        kinematics: object(
+          {
+            maxSpeed: number(0),
+            maxForce: number(0),
+            drag: number(0, 1),
+          },
+          ['maxSpeed', 'maxForce', 'drag']
+        ),
+      },
+      ['id', 'name', 'color', 'shape', 'size', 'properties', 'behaviors', 'kinematics']
+    ),
+
+    property: object(
+      {
+        id,
+        name,
+        type: { enum: ['number', 'boolean', 'string'] },
+        defaultValue: { type: ['number', 'boolean', 'string', 'null'] },
+        min: number(),
+        max: number(),
+        initial: ref('initializer'),
+        inheritance: { enum: ['default', 'copy', 'mutate', 'split'] },
+        mutation: number(0),
+      },
+      ['id', 'name', 'type']
+    ),
+
+    initializer: {
+      oneOf: [
+        object({ type: { const: 'uniform' }, min: number(), max: number() }, ['type', 'min', 'max']),
+        object({ type: { const: 'normal' }, mean: number(), sd: number(0) }, ['type', 'mean', 'sd']),
+        object(
+          {
+            type: { const: 'choice' },
+            options: array(
+              object(
+                { value: { type: ['number', 'boolean', 'string'] }, weight: number(0) },
+                ['value', 'weight']
+              ),
+              100
+            ),
+          },
+          ['type', 'options']
+        ),
+        object({ type: { const: 'parameter' }, parameter: name }, ['type', 'parameter']),
+      ],
+    },
+
+    behavior: object(
+      {
+        id,
+        type: { enum: BEHAVIOR_LIBRARY.map((def) => def.type) },
+        // Values depend on the behavior type (see the behavior library);
+        // numbers may also be expressions, booleans "$parameter" references
+        params: {
+          type: 'object',
+          maxProperties: 50,
+          properties: {
+            // New type's property name → old type's property name
+            propertyMap: { type: 'object', maxProperties: 50, additionalProperties: name },
+          },
+          additionalProperties: { type: ['number', 'string', 'boolean', 'null'], maxLength: 20000 },
+        },
+        enabled: { type: 'boolean' },
+        then: array(ref('behavior'), 100),
+        else: array(ref('behavior'), 100),
+      },
+      ['id', 'type', 'params', 'enabled']
+    ),
+
+    population: object(
+      {
+        id,
+        agentTypeId: id,
+        count: integer(0, MODEL_LIMITS.maxAgents),
+        distribution: { enum: ['random', 'grid', 'cluster', 'custom'] },
+        region: ref('region'),
+        clusters: object(
+          {
+            count: integer(1, 1000),
+            spread: number(0),
+            centers: array(ref('position'), 1000),
+          },
+          ['count', 'spread']
+        ),
+        positions: array(ref('position'), MODEL_LIMITS.maxAgents),
+      },
+      ['id', 'agentTypeId', 'count', 'distribution']
+    ),
+
+    region: object({ x: number(), y: number(), width: number(0), height: number(0) }, ['x', 'y', 'width', 'height']),
+
+    position: object({ x: number(), y: number() }, ['x', 'y']),
+
+    // Parameters & Visualizations ----------------------------------------------
+    parameter: object(
+      {
+        id,
+        name,
+        type: { enum: ['number', 'boolean', 'choice'] },
+        value: { type: ['number', 'boolean', 'string'] },
+        min: number(),
+        max: number(),
+        step: number(0),
+        options: array(string(100), 50),
+      },
+      ['id', 'name', 'type', 'value']
+    ),
+
+    visualization: object(
+      {
+        id,
+        name: string(100),
+        type: { const: 'line-chart' },
+        enabled: { type: 'boolean' },
+        series: array(
+          object(
+            {
+              id,
+              name: string(100),
+              color,
+              metric: {
+                oneOf: [
+                  object({ type: { const: 'count' }, agentTypeId: id }, ['type', 'agentTypeId']),
+                  object(
+                    {
+                      type: { const: 'property' },
+                      agentTypeId: id,
+                      property: name,
+                      aggregation: { enum: ['mean', 'min', 'max', 'sum', 'median'] },
+                    },
+                    ['type', 'agentTypeId', 'property', 'aggregation']
+                  ),
+                ],
+              },
+            },
+            ['id', 'name', 'color', 'metric']
+          ),
+          20
+        ),
+        options: object(
+          {
+            autoScale: { type: 'boolean' },
+            autoScroll: { type: 'boolean' },
+            range: object({ min: number(), max: number() }, ['min', 'max']),
+          },
+          ['autoScale', 'autoScroll']
+        ),
+      },
+      ['id', 'name', 'type', 'enabled', 'series', 'options']
+    ),
+  },
+};
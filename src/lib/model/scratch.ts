@@ -0,0 +1,42 @@
+/**
+ * Scratch Copy
+ *
+ * A model being edited by someone who isn't signed in (e.g. a fork of a
+ * public model) is kept in localStorage, so it survives the sign-in
+ * redirect and can then be saved to their account.
+ */
+
+import type { StudioModel } from '@/types';
+import { migrateModel } from './migrations';
+
+const SCRATCH_KEY = 'flocc-studio:scratch';
+
+export function saveScratch(model: StudioModel): void {
+  try {
+    localStorage.setItem(SCRATCH_KEY, JSON.stringify(model));
+  } catch (error) {
+    // Storage full or disabled: the copy still lives in the editor
+    console.error('Failed to store scratch copy:', error);
+  }
+}
+
+/**
+ * The stored scratch copy, if any, upgraded to the current format
+ */
+export function loadScratch(): StudioModel | null {
+  try {
+    const text = localStorage.getItem(SCRATCH_KEY);
+    return text ? migrateModel(JSON.parse(text)) : null;
+  } catch (error) {
+    console.error('Failed to read scratch copy:', error);
+    return null;
+  }
+}
+
+export function clearScratch(): void {
+  try {
+    localStorage.removeItem(SCRATCH_KEY);
+  } catch {
+    // Nothing stored
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Model Tags
+ *
+ * Tags group models by domain (ecology, epidemiology, economics, ...). A
+ * model's tags live in its definition; the server mirrors them into the
+ * tags/model_tags tables so Explore can filter by them. Both sides store
+ * the normalized form, so "Predator Prey" and "predator-prey" are one tag.
+ */
+
+/** Matches the schema's limits on `tags` */
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+
+/**
+ * Lowercase, hyphen-separated form of a tag; empty if nothing is left
+ */
+export function normalizeTag(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Normalize a list of tags, dropping empties and duplicates
+ */
+export function normalizeTags(names: readonly string[]): string[] {
+  const result: string[] = [];
+  for (const name of names) {
+    const tag = normalizeTag(name);
+    if (tag && !result.includes(tag)) result.push(tag);
+  }
+  return result.slice(0, MAX_TAGS);
+}
@@ -0,0 +1,294 @@
+/**
+ * Model Payload Validation
+ *
+ * Server-side checks for model definitions sent to the models API: the
+ * JSON Schema in schema.ts (types, bounds, sizes), then what the schema
+ * can't express (unique ids, populations of existing agent types, total
+ * agent count). Errors point at the offending field, e.g.
+ * `agentTypes[0].size: must be at most 1000`.
+ *
+ * Behaviors aimed at deleted agent types or renamed properties are left to
+ * the editor's linter (lib/flocc/validation): they're a normal state while
+ * editing, and the runtime reports them when the model is run.
+ */
+
+import type { Behavior, StudioModel } from '@/types';
+import { MODEL_JSON_SCHEMA, MODEL_LIMITS, type JsonSchema } from './schema';
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Fields the server sets. They're dropped from request bodies so clients
+ * can't feature their own models or inflate counts.
+ */
+export const SERVER_OWNED_FIELDS = [
+  'id',
+  'slug',
+  'userId',
+  'thumbnailUrl',
+  'version',
+  'createdAt',
+  'updatedAt',
+  'isFeatured',
+  'forkOf',
+  'forkCount',
+  'viewCount',
+] as const;
+
+// Enough to fix a model in a few rounds without flooding the response
+const MAX_ERRORS = 50;
+
+export type PayloadResult =
+  | { ok: true; data: Record<string, unknown>; thumbnail?: string }
+  | { ok: false; status: 400 | 413; error: string };
+
+/**
+ * Read a request body as a model payload: size-limited JSON object, with
+ * server-owned fields removed. A data URL `thumbnailUrl`, as clients sent
+ * before thumbnails had their own endpoint, comes back as `thumbnail` for
+ * the route to store.
+ */
+export async function readModelPayload(request: Request): Promise<PayloadResult> {
+  const text = await request.text();
+  if (text.length > MODEL_LIMITS.maxBytes) {
+    return { ok: false, status: 413, error: `Model is too large (limit ${MODEL_LIMITS.maxBytes / 1000} kB)` };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, status: 400, error: 'Invalid JSON' };
+  }
+  if (!isObject(data)) {
+    return { ok: false, status: 400, error: 'Expected a model object' };
+  }
+
+  const thumbnail =
+    typeof data.thumbnailUrl === 'string' && data.thumbnailUrl.startsWith('data:')
+      ? data.thumbnailUrl
+      : undefined;
+
+  const payload = { ...data };
+  for (const field of SERVER_OWNED_FIELDS) delete payload[field];
+  return { ok: true, data: payload, thumbnail };
+}
+
+/**
+ * Check a complete model definition. Returns the problems found, empty
+ * when the model can be stored.
+ */
+export function validateModel(model: unknown): FieldError[] {
+  const errors: FieldError[] = [];
+  checkSchema(MODEL_JSON_SCHEMA, model, '', errors);
+  if (errors.length === 0) checkIntegrity(model as StudioModel, errors);
+  return errors.slice(0, MAX_ERRORS);
+}
+
+// ============================================================================
+// JSON Schema
+// ============================================================================
+
+/**
+ * Check a value against the subset of JSON Schema that schema.ts uses
+ */
+function checkSchema(schema: JsonSchema, value: unknown, path: string, errors: FieldError[]): void {
+  if (errors.length >= MAX_ERRORS) return;
+  const fail = (message: string) => errors.push({ path: path || '(model)', message });
+
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/$defs/', '');
+    checkSchema(MODEL_JSON_SCHEMA.$defs![name], value, path, errors);
+    return;
+  }
+
+  if (schema.oneOf) {
+    // Every union in the schema is tagged by a `type` field
+    const tags = schema.oneOf.map((option) => option.properties?.type?.const);
+    const match = isObject(value) ? schema.oneOf[tags.indexOf(value.type)] : undefined;
+    if (match) {
+      checkSchema(match, value, path, errors);
+    } else {
+      fail(`must have type ${tags.map((t) => `'${t}'`).join(', ')}`);
+    }
+    return;
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    fail(`must be '${schema.const}'`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(`must be one of ${schema.enum.map((v) => `'${v}'`).join(', ')}`);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => hasType(value, type))) {
+      const names = types.map(article);
+      fail(`must be ${names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names[0]}`);
+      return;
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      fail('has an invalid format');
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be at most ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => checkSchema(schema.items!, item, `${path}[${i}]`, errors));
+    }
+  }
+
+  if (isObject(value)) {
+    const keys = Object.keys(value);
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+      fail(`must have at most ${schema.maxProperties} fields`);
+    }
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) errors.push({ path: join(path, key), message: 'is required' });
+    }
+    for (const key of keys) {
+      if (value[key] === undefined) continue;
+      const fieldSchema = schema.properties?.[key];
+      if (fieldSchema) {
+        checkSchema(fieldSchema, value[key], join(path, key), errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: join(path, key), message: 'is not a known field' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        checkSchema(schema.additionalProperties, value[key], join(path, key), errors);
+      }
+    }
+  }
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+// ============================================================================
+// Integrity
+// ============================================================================
+
+function checkIntegrity(model: StudioModel, errors: FieldError[]): void {
+  const fail = (path: string, message: string) => errors.push({ path, message });
+
+  checkUniqueIds(model.agentTypes, 'agentTypes', errors);
+  checkUniqueIds(model.populations, 'populations', errors);
+  checkUniqueIds(model.parameters, 'parameters', errors);
+  checkUniqueIds(model.visualizations, 'visualizations', errors);
+  model.visualizations.forEach((viz, i) => checkUniqueIds(viz.series, `visualizations[${i}].series`, errors));
+
+  const patches = model.environment.patches;
+  if (patches) {
+    checkUniqueIds(patches.properties, 'environment.patches.properties', errors);
+    checkUniqueIds(patches.signals ?? [], 'environment.patches.signals', errors);
+
+    const { width, height } = model.environment;
+    const cells = Math.ceil(width / patches.cellSize) * Math.ceil(height / patches.cellSize);
+    if (cells > MODEL_LIMITS.maxPatchCells) {
+      fail('environment.patches.cellSize', `makes ${cells} cells (at most ${MODEL_LIMITS.maxPatchCells})`);
+    }
+  }
+
+  // Behavior ids are unique across the model, since errors are reported by id
+  const behaviorIds = new Set<string>();
+  model.agentTypes.forEach((agentType, i) => {
+    checkUniqueIds(agentType.properties, `agentTypes[${i}].properties`, errors);
+    checkBehaviors(agentType.behaviors, `agentTypes[${i}].behaviors`, 1, behaviorIds, errors);
+  });
+
+  const typeIds = new Set(model.agentTypes.map((t) => t.id));
+  model.populations.forEach((pop, i) => {
+    if (!typeIds.has(pop.agentTypeId)) {
+      fail(`populations[${i}].agentTypeId`, 'refers to an agent type that doesn\'t exist');
+    }
+  });
+
+  const totalAgents = model.populations.reduce((sum, pop) => sum + pop.count, 0);
+  if (totalAgents > MODEL_LIMITS.maxAgents) {
+    fail('populations', `add up to ${totalAgents} agents (at most ${MODEL_LIMITS.maxAgents})`);
+  }
+}
+
+function checkBehaviors(
+  behaviors: Behavior[],
+  path: string,
+  depth: number,
+  seen: Set<string>,
+  errors: FieldError[]
+): void {
+  if (depth > MODEL_LIMITS.maxNesting) {
+    errors.push({ path, message: `nests if/else blocks deeper than ${MODEL_LIMITS.maxNesting} levels` });
+    return;
+  }
+
+  behaviors.forEach((behavior, i) => {
+    if (seen.has(behavior.id)) {
+      errors.push({ path: `${path}[${i}].id`, message: `'${behavior.id}' is used more than once` });
+    }
+    seen.add(behavior.id);
+    if (behavior.then) checkBehaviors(behavior.then, `${path}[${i}].then`, depth + 1, seen, errors);
+    if (behavior.else) checkBehaviors(behavior.else, `${path}[${i}].else`, depth + 1, seen, errors);
+  });
+}
+
+function checkUniqueIds(items: { id: string }[], path: string, errors: FieldError[]): void {
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    if (seen.has(item.id)) {
+      errors.push({ path: `${path}[${i}].id`, message: `'${item.id}' is used more than once` });
+    }
+    seen.add(item.id);
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function article(type: string): string {
+  return type === 'null' ? 'null' : type === 'array' || type === 'object' || type === 'integer' ? `an ${type}` : `a ${type}`;
+}
@@ -0,0 +1,42 @@
+/**
+ * File Storage
+ *
+ * Where uploaded files (model thumbnails) live. Production uses Vercel Blob;
+ * without a Blob token, files go to the local filesystem, which suits
+ * development and self-hosting. Keys are never reused: a changed file gets
+ * a new key, so URLs can be cached forever.
+ */
+
+import { createLocalStorage } from './local';
+import { createVercelBlobStorage } from './vercelBlob';
+
+export interface StoredFile {
+  data: Uint8Array;
+  contentType: string;
+}
+
+export interface FileStorage {
+  /** Store a file and return its public URL */
+  put(key: string, data: Uint8Array, contentType: string): Promise<string>;
+  /** Remove a file by the URL `put` returned. Missing files are ignored. */
+  delete(url: string): Promise<void>;
+  /** Whether a URL points at a file in this storage */
+  owns(url: string): boolean;
+  /** Read a file by key; only for storages whose URLs this app serves */
+  read?(key: string): Promise<StoredFile | null>;
+}
+
+let storage: FileStorage | null = null;
+
+/**
+ * The configured storage: Vercel Blob when BLOB_READ_WRITE_TOKEN is set,
+ * the local filesystem (LOCAL_STORAGE_DIR, default .storage) otherwise
+ */
+export function getStorage(): FileStorage {
+  if (!storage) {
+    storage = process.env.BLOB_READ_WRITE_TOKEN
+      ? createVercelBlobStorage()
+      : createLocalStorage(process.env.LOCAL_STORAGE_DIR ?? '.storage');
+  }
+  return storage;
+}
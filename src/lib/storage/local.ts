@@ -0,0 +1,61 @@
+/**
+ * Local Filesystem Storage
+ *
+ * Files are written under a directory on the server and served by
+ * GET /api/files/[...key].
+ */
+
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import type { FileStorage } from './index';
+
+export const LOCAL_FILES_URL = '/api/files/';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+export function createLocalStorage(dir: string): FileStorage {
+  const root = path.resolve(dir);
+
+  // Keys come from URLs on the way back in; keep them inside the root
+  const resolve = (key: string): string | null => {
+    const file = path.resolve(root, key);
+    return file.startsWith(root + path.sep) ? file : null;
+  };
+
+  return {
+    async put(key, data) {
+      const file = resolve(key);
+      if (!file) throw new Error(`Invalid storage key: ${key}`);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+      return LOCAL_FILES_URL + key;
+    },
+
+    async delete(url) {
+      const file = url.startsWith(LOCAL_FILES_URL) ? resolve(url.slice(LOCAL_FILES_URL.length)) : null;
+      if (!file) return;
+      await unlink(file).catch(() => {});
+    },
+
+    owns(url) {
+      return url.startsWith(LOCAL_FILES_URL);
+    },
+
+    async read(key) {
+      const file = resolve(key);
+      if (!file) return null;
+      try {
+        const data = await readFile(file);
+        const contentType = CONTENT_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+        return { data, contentType };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Vercel Blob Storage
+ *
+ * Files are public blobs; the SDK reads BLOB_READ_WRITE_TOKEN itself.
+ */
+
+import { put, del } from '@vercel/blob';
+import type { FileStorage } from './index';
+
+const BLOB_HOST = '.blob.vercel-storage.com';
+
+export function createVercelBlobStorage(): FileStorage {
+  return {
+    async put(key, data, contentType) {
+      const blob = await put(key, Buffer.from(data), {
+        access: 'public',
+        contentType,
+        addRandomSuffix: false,
+      });
+      return blob.url;
+    },
+
+    async delete(url) {
+      if (this.owns(url)) await del(url);
+    },
+
+    owns(url) {
+      try {
+        return new URL(url).hostname.endsWith(BLOB_HOST);
+      } catch {
+        return false;
+      }
+    },
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Model Thumbnails
+ *
+ * Thumbnails are image files in storage (lib/storage), with their URL in
+ * the models table's thumbnail_url column. Every upload gets a new key, so
+ * the previous file is deleted once the row points at the new one.
+ *
+ * Models saved before this kept a JPEG data URL in their definition;
+ * `moveDefinitionThumbnail` takes one of those out into storage.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db/client';
+import { models, type Model } from '@/lib/db/schema';
+import { getStorage, type StoredFile } from '@/lib/storage';
+
+// A 400px JPEG is usually well under 100 kB
+export const MAX_THUMBNAIL_BYTES = 500_000;
+
+/**
+ * Accepted image types, with the file extension each is stored under
+ */
+export const THUMBNAIL_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/**
+ * Store a model's thumbnail and point the model at it, deleting the one it
+ * replaces. Returns the new thumbnail's URL.
+ */
+export async function saveThumbnail(
+  modelId: string,
+  image: StoredFile,
+  previousUrl?: string | null
+): Promise<string> {
+  const extension = THUMBNAIL_TYPES[image.contentType];
+  if (!extension) throw new Error(`Unsupported thumbnail type: ${image.contentType}`);
+
+  const key = `thumbnails/${modelId}-${Date.now().toString(36)}.${extension}`;
+  const url = await getStorage().put(key, image.data, image.contentType);
+  await db.update(models).set({ thumbnailUrl: url }).where(eq(models.id, modelId));
+
+  if (previousUrl) await deleteThumbnail(previousUrl);
+  return url;
+}
+
+/**
+ * Delete a stored thumbnail. Failures are logged, not thrown: a leftover
+ * file costs less than a failed request.
+ */
+export async function deleteThumbnail(url: string): Promise<void> {
+  const storage = getStorage();
+  if (!storage.owns(url)) return;
+  try {
+    await storage.delete(url);
+  } catch (error) {
+    console.error('Failed to delete thumbnail:', error);
+  }
+}
+
+/**
+ * Store a thumbnail sent inline as a data URL with a model save. Returns the
+ * stored URL, or null if the data URL isn't an accepted image or storing it
+ * failed (logged: the model itself was saved).
+ */
+export async function saveDataUrlThumbnail(
+  modelId: string,
+  dataUrl: string,
+  previousUrl?: string | null
+): Promise<string | null> {
+  const image = parseDataUrl(dataUrl);
+  if (!image || image.data.byteLength > MAX_THUMBNAIL_BYTES) return null;
+  try {
+    return await saveThumbnail(modelId, image, previousUrl);
+  } catch (error) {
+    console.error('Failed to save thumbnail:', error);
+    return null;
+  }
+}
+
+/**
+ * Decode an image data URL, if it's one of the accepted types
+ */
+export function parseDataUrl(url: string): StoredFile | null {
+  const match = /^data:([\w/+.-]+);base64,([A-Za-z0-9+/=]+)$/.exec(url);
+  if (!match || !THUMBNAIL_TYPES[match[1]]) return null;
+  return { data: Buffer.from(match[2], 'base64'), contentType: match[1] };
+}
+
+/**
+ * Move a data URL thumbnail kept in a row's definition into storage, unless
+ * the row already has a stored thumbnail. Leaves the definition alone;
+ * migrating it to the current format drops the data URL. Returns the
+ * row's thumbnail URL afterwards.
+ */
+export async function moveDefinitionThumbnail(
+  row: Pick<Model, 'id' | 'thumbnailUrl' | 'definition'>
+): Promise<string | null> {
+  if (row.thumbnailUrl) return row.thumbnailUrl;
+
+  const dataUrl = (row.definition as { thumbnailUrl?: unknown }).thumbnailUrl;
+  const image = typeof dataUrl === 'string' ? parseDataUrl(dataUrl) : null;
+  if (!image) return null;
+
+  return saveThumbnail(row.id, image);
+}
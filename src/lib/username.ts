@@ -0,0 +1,55 @@
+/**
+ * Usernames
+ *
+ * Each account claims a username after its first sign-in; it names the
+ * profile page at /user/[username]. Usernames are lowercase so profile URLs
+ * are case-insensitive, and names that would read as an official account or
+ * collide with a route are reserved.
+ */
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+
+// Letters, digits and single hyphens, not at either end
+const USERNAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const RESERVED_USERNAMES = new Set([
+  'about', 'account', 'admin', 'administrator', 'api', 'auth', 'dashboard',
+  'docs', 'explore', 'flocc', 'help', 'login', 'logout', 'me', 'model',
+  'models', 'moderator', 'new', 'root', 'settings', 'signin', 'signout',
+  'signup', 'staff', 'studio', 'support', 'system', 'team', 'user', 'users',
+]);
+
+/**
+ * What's wrong with a username, or null if it can be claimed (apart from
+ * being taken, which only the database knows)
+ */
+export function validateUsername(username: string): string | null {
+  if (username.length < USERNAME_MIN_LENGTH) {
+    return `Must be at least ${USERNAME_MIN_LENGTH} characters`;
+  }
+  if (username.length > USERNAME_MAX_LENGTH) {
+    return `Must be at most ${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return 'Use lowercase letters, numbers and single hyphens, not at the start or end';
+  }
+  if (RESERVED_USERNAMES.has(username)) {
+    return 'That name is reserved';
+  }
+  return null;
+}
+
+/**
+ * A starting suggestion from the account's name or email, e.g.
+ * "Ada Lovelace" → "ada-lovelace". May still be invalid or taken.
+ */
+export function suggestUsername(name?: string | null, email?: string | null): string {
+  const source = name || email?.split('@')[0] || '';
+  return source
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, USERNAME_MAX_LENGTH)
+    .replace(/-+$/, '');
+}
@@ -1,14 +1,25 @@
 import { create } from 'zustand';
+import type { StudioModel } from '@/types';
+
+/** A saved version shown in the canvas instead of the model being edited */
+export interface VersionPreview {
+    version: number;
+    model: StudioModel;
+}
 
 interface EditState {
     activeAccordion: string | null;
+    preview: VersionPreview | null;
     setActiveAccordion: (activeAccordion: string | null) => void;
+    setPreview: (preview: VersionPreview | null) => void;
 }
 
 export const useEditStore = create<EditState>((set, get) => ({
   // Initial state
   activeAccordion: null,
+  preview: null,
 
   // State updates
   setActiveAccordion: (activeAccordion: string | null) => set({ activeAccordion }),
+  setPreview: (preview: VersionPreview | null) => set({ preview }),
 }));
@@ -7,7 +7,19 @@ import { create } from 'zustand';
 import { temporal } from 'zundo';
 import { immer } from 'zustand/middleware/immer';
 import { nanoid } from 'nanoid';
-import type { StudioModel, AgentType, Behavior, Population, Parameter, Visualization, ChartSeries } from '@/types';
+import type {
+  StudioModel,
+  AgentType,
+  Behavior,
+  BehaviorBranch,
+  Population,
+  Parameter,
+  Visualization,
+  ChartSeries,
+} from '@/types';
+import { isIdentifier, renameParameterReferences, renamePropertyReferences } from '@/lib/flocc/references';
+import { migrateModel, CURRENT_SCHEMA_VERSION } from '@/lib/model/migrations';
+import { normalizeTags } from '@/lib/model/tags';
 
 // ============================================================================
 // Default Model
@@ -23,6 +35,7 @@ export function createDefaultModel(): StudioModel {
       height: 800,
       wraparound: true,
       backgroundColor: '#1a1a2e',
+      seed: { mode: 'random' },
     },
     agentTypes: [],
     populations: [],
@@ -30,6 +43,7 @@ export function createDefaultModel(): StudioModel {
     visualizations: [],
     tags: [],
     version: 1,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     isPublic: false,
@@ -39,6 +53,28 @@ export function createDefaultModel(): StudioModel {
   };
 }
 
+/**
+ * An unsaved copy of a model for someone who isn't signed in. It lives in
+ * the editor until saved, and saving creates it as a fork of `source`.
+ */
+export function createScratchFork(source: StudioModel): StudioModel {
+  const now = new Date().toISOString();
+  return {
+    ...source,
+    id: nanoid(),
+    slug: undefined,
+    userId: undefined,
+    forkOf: source.id,
+    isPublic: false,
+    isFeatured: false,
+    forkCount: 0,
+    viewCount: 0,
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
 // ============================================================================
 // Store Interface
 // ============================================================================
@@ -58,6 +94,7 @@ interface ModelActions {
   // Model metadata
   updateName: (name: string) => void;
   updateDescription: (description: string) => void;
+  updateTags: (tags: string[]) => void;
   updateEnvironment: (env: Partial<StudioModel['environment']>) => void;
   /** Update isPublic without marking the model dirty (saved immediately via API) */
   setIsPublic: (isPublic: boolean) => void;
@@ -66,9 +103,16 @@ interface ModelActions {
   addAgentType: (agentType: AgentType) => void;
   updateAgentType: (id: string, changes: Partial<AgentType>) => void;
   removeAgentType: (id: string) => void;
+  /** Renames a property and every behavior param and chart series using it */
+  renameProperty: (agentTypeId: string, propertyId: string, name: string) => void;
 
   // Behaviors
-  addBehavior: (agentTypeId: string, behavior: Behavior) => void;
+  /** Adds to the agent type's list, or to a branch of an 'if' behavior */
+  addBehavior: (
+    agentTypeId: string,
+    behavior: Behavior,
+    parent?: { behaviorId: string; branch: BehaviorBranch }
+  ) => void;
   updateBehavior: (agentTypeId: string, behaviorId: string, changes: Partial<Behavior>) => void;
   removeBehavior: (agentTypeId: string, behaviorId: string) => void;
 
@@ -81,6 +125,8 @@ interface ModelActions {
   addParameter: (parameter: Parameter) => void;
   updateParameter: (id: string, changes: Partial<Parameter>) => void;
   removeParameter: (id: string) => void;
+  /** Renames a parameter and every expression, select and initializer using it */
+  renameParameter: (id: string, name: string) => void;
 
   // Visualizations
   addVisualization: (visualization: Visualization) => void;
@@ -107,7 +153,9 @@ export const useModelStore = create<ModelStore>()(
       // Model lifecycle
       setModel: (model) =>
         set((state) => {
-          state.model = model;
+          // Models can come from anywhere (API, imported files), so bring
+          // them up to the current format
+          state.model = migrateModel(model);
           state.isDirty = false;
         }),
 
@@ -145,6 +193,14 @@ export const useModelStore = create<ModelStore>()(
           }
         }),
 
+      updateTags: (tags) =>
+        set((state) => {
+          if (state.model) {
+            state.model.tags = normalizeTags(tags);
+            state.isDirty = true;
+          }
+        }),
+
       updateEnvironment: (env) =>
         set((state) => {
           if (state.model) {
@@ -190,14 +246,37 @@ export const useModelStore = create<ModelStore>()(
           }
         }),
 
+      renameProperty: (agentTypeId, propertyId, name) =>
+        set((state) => {
+          if (state.model) {
+            const prop = state.model.agentTypes
+              .find((t) => t.id === agentTypeId)
+              ?.properties.find((p) => p.id === propertyId);
+            if (!prop || prop.name === name || !isIdentifier(name)) return;
+            renamePropertyReferences(state.model, agentTypeId, prop.name, name);
+            prop.name = name;
+            state.isDirty = true;
+          }
+        }),
+
       // Behaviors
-      addBehavior: (agentTypeId, behavior) =>
+      addBehavior: (agentTypeId, behavior, parent) =>
         set((state) => {
           if (state.model) {
             const agentType = state.model.agentTypes.find((t) => t.id === agentTypeId);
-            if (agentType) {
+            if (!agentType) return;
+
+            if (!parent) {
               agentType.behaviors.push(behavior);
               state.isDirty = true;
+              return;
+            }
+
+            const list = findBehaviorList(agentType.behaviors, parent.behaviorId);
+            const parentBehavior = list?.find((b) => b.id === parent.behaviorId);
+            if (parentBehavior) {
+              (parentBehavior[parent.branch] ??= []).push(behavior);
+              state.isDirty = true;
             }
           }
         }),
@@ -207,9 +286,10 @@ export const useModelStore = create<ModelStore>()(
           if (state.model) {
             const agentType = state.model.agentTypes.find((t) => t.id === agentTypeId);
             if (agentType) {
-              const index = agentType.behaviors.findIndex((b) => b.id === behaviorId);
-              if (index !== -1) {
-                agentType.behaviors[index] = { ...agentType.behaviors[index], ...changes };
+              const list = findBehaviorList(agentType.behaviors, behaviorId);
+              const index = list?.findIndex((b) => b.id === behaviorId) ?? -1;
+              if (list && index !== -1) {
+                list[index] = { ...list[index], ...changes };
                 state.isDirty = true;
               }
             }
@@ -221,8 +301,12 @@ export const useModelStore = create<ModelStore>()(
           if (state.model) {
             const agentType = state.model.agentTypes.find((t) => t.id === agentTypeId);
             if (agentType) {
-              agentType.behaviors = agentType.behaviors.filter((b) => b.id !== behaviorId);
-              state.isDirty = true;
+              const list = findBehaviorList(agentType.behaviors, behaviorId);
+              const index = list?.findIndex((b) => b.id === behaviorId) ?? -1;
+              if (list && index !== -1) {
+                list.splice(index, 1);
+                state.isDirty = true;
+              }
             }
           }
         }),
@@ -283,6 +367,17 @@ export const useModelStore = create<ModelStore>()(
           }
         }),
 
+      renameParameter: (id, name) =>
+        set((state) => {
+          if (state.model) {
+            const param = state.model.parameters.find((p) => p.id === id);
+            if (!param || param.name === name || !isIdentifier(name)) return;
+            renameParameterReferences(state.model, param.name, name);
+            param.name = name;
+            state.isDirty = true;
+          }
+        }),
+
       // Visualizations
       addVisualization: (visualization) =>
         set((state) => {
@@ -358,6 +453,24 @@ export const useModelStore = create<ModelStore>()(
   )
 );
 
+// ============================================================================
+// Behavior Helpers
+// ============================================================================
+
+/**
+ * The list holding a behavior: the top-level list or a branch of an 'if' behavior
+ */
+function findBehaviorList(behaviors: Behavior[], behaviorId: string): Behavior[] | null {
+  if (behaviors.some((b) => b.id === behaviorId)) return behaviors;
+  for (const behavior of behaviors) {
+    for (const branch of [behavior.then, behavior.else]) {
+      const list = branch && findBehaviorList(branch, behaviorId);
+      if (list) return list;
+    }
+  }
+  return null;
+}
+
 // ============================================================================
 // Temporal Helpers
 // ============================================================================
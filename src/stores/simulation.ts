@@ -2,7 +2,8 @@
  * Simulation Store — Zustand store for runtime simulation state
  * Tracks playback state, current tick, and agent count
  * 
- * Now uses main-thread SimulationEngine instead of Web Worker
+ * The SimulationEngine forwards commands to a Web Worker; tick and agent
+ * count arrive asynchronously via updateState
  */
 
 import { create } from 'zustand';
@@ -14,12 +15,22 @@ import type { SimulationEngine } from '@/lib/flocc/SimulationEngine';
 
 type SimulationStatus = 'idle' | 'running' | 'paused';
 
+export interface SimulationError {
+  message: string;
+  /** Set when the error comes from a specific behavior (e.g. custom code) */
+  behaviorId?: string;
+}
+
 interface SimulationStore {
   // State
   status: SimulationStatus;
   tick: number;
   agentCount: number;
   speed: number;
+  /** Random seed of the current run, reported by the worker */
+  seed: number | null;
+  /** Last compile or runtime error; cleared when the simulation restarts */
+  error: SimulationError | null;
 
   // Engine reference
   engine: SimulationEngine | null;
@@ -35,6 +46,8 @@ interface SimulationStore {
   setTick: (tick: number) => void;
   setAgentCount: (count: number) => void;
   updateState: (tick: number, agentCount: number) => void;
+  setSeed: (seed: number | null) => void;
+  setError: (error: SimulationError | null) => void;
 
   // Speed control
   setSpeed: (speed: number) => void;
@@ -56,6 +69,8 @@ export const useSimulationStore = create<SimulationStore>((set, get) => ({
   tick: 0,
   agentCount: 0,
   speed: 1,
+  seed: null,
+  error: null,
   engine: null,
 
   // Engine management
@@ -98,6 +113,7 @@ export const useSimulationStore = create<SimulationStore>((set, get) => ({
         status: 'idle', 
         tick: 0, 
         agentCount: engine.getAgentCount(),
+        error: null,
       });
     }
   },
@@ -106,6 +122,8 @@ export const useSimulationStore = create<SimulationStore>((set, get) => ({
   setTick: (tick) => set({ tick }),
   setAgentCount: (agentCount) => set({ agentCount }),
   updateState: (tick, agentCount) => set({ tick, agentCount }),
+  setSeed: (seed) => set({ seed }),
+  setError: (error) => set({ error }),
 
   // Speed control
   setSpeed: (speed) => {
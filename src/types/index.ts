@@ -23,7 +23,8 @@ export interface StudioModel {
   thumbnailUrl?: string;
 
   // Versioning
-  version: number;
+  version: number;        // Save count
+  schemaVersion: number;  // Format of the definition (see lib/model/migrations)
   createdAt: string;
   updatedAt: string;
 
@@ -43,6 +44,66 @@ export interface EnvironmentConfig {
   height: number;
   wraparound: boolean;
   backgroundColor?: string;
+  seed?: SeedConfig;
+  // Grid of cells with their own properties (e.g. grass level)
+  patches?: PatchConfig;
+  // Links between agents and how they are first wired up
+  network?: NetworkConfig;
+}
+
+export interface SeedConfig {
+  // fixed: the default seed; random: a new seed every run; custom: `value`
+  mode: 'fixed' | 'random' | 'custom';
+  value?: number;
+}
+
+export interface PatchConfig {
+  cellSize: number;  // Width and height of a cell, in pixels
+  properties: PatchPropertyDef[];
+  // Diffusing, evaporating fields (pheromones, chemicals) on the same grid
+  signals?: SignalDef[];
+}
+
+export interface PatchPropertyDef {
+  id: string;
+  name: string;
+  defaultValue: number;
+  min?: number;
+  max?: number;
+  // Per-cell initial value; cells start at defaultValue when omitted
+  initial?: PropertyInitializer;
+  // Added to every cell each tick; negative values decay toward min (or 0)
+  regrowth?: number;
+  // Regrow up to max (default) or up to each cell's initial value
+  regrowTo?: 'max' | 'initial';
+  // Drawn under the agents in this color, scaled by value / max
+  color?: string;
+}
+
+export interface SignalDef {
+  id: string;
+  name: string;
+  // Fraction of each cell's signal spread evenly to its 8 neighbours per tick
+  diffusion: number;
+  // Fraction of the signal that evaporates per tick
+  decay: number;
+  // Drawn over the patches in this color, at full strength from max (default 1)
+  color?: string;
+  max?: number;
+}
+
+export type NetworkTopology = 'none' | 'random' | 'small-world' | 'nearest-k';
+
+export interface NetworkConfig {
+  topology: NetworkTopology;
+  // random: chance that any two agents start linked
+  probability?: number;
+  // small-world, nearest-k: links per agent
+  degree?: number;
+  // small-world: chance that each lattice link is rewired to a random agent
+  rewire?: number;
+  // Color of links on the canvas
+  color?: string;
 }
 
 export interface AgentType {
@@ -53,6 +114,15 @@ export interface AgentType {
   size: number;
   properties: PropertyDef[];
   behaviors: Behavior[];
+  // Steering limits. Movement behaviors steer the agent's velocity instead
+  // of moving it, and it moves by its velocity once per tick.
+  kinematics: Kinematics;
+}
+
+export interface Kinematics {
+  maxSpeed: number;  // Distance per tick
+  maxForce: number;  // Largest change in velocity per tick
+  drag: number;      // Fraction of velocity lost per tick (0-1)
 }
 
 export interface PropertyDef {
@@ -62,6 +132,48 @@ export interface PropertyDef {
   defaultValue: any;
   min?: number;
   max?: number;
+  // Per-agent initial value; agents start at defaultValue when omitted
+  initial?: PropertyInitializer;
+  // How a reproduced child gets its value; 'default' when omitted
+  inheritance?: InheritanceMode;
+  // Standard deviation of the change for 'mutate' inheritance
+  mutation?: number;
+}
+
+/**
+ * default: drawn like a setup agent's (initial or defaultValue)
+ * copy:    the parent's value
+ * mutate:  the parent's value plus Gaussian noise (numbers only)
+ * split:   half the parent's value, and the parent keeps the other half
+ */
+export type InheritanceMode = 'default' | 'copy' | 'mutate' | 'split';
+
+export type PropertyInitializer =
+  | UniformInitializer
+  | NormalInitializer
+  | ChoiceInitializer
+  | ParameterInitializer;
+
+export interface UniformInitializer {
+  type: 'uniform';
+  min: number;
+  max: number;
+}
+
+export interface NormalInitializer {
+  type: 'normal';
+  mean: number;
+  sd: number;
+}
+
+export interface ChoiceInitializer {
+  type: 'choice';
+  options: { value: number | boolean | string; weight: number }[];
+}
+
+export interface ParameterInitializer {
+  type: 'parameter';
+  parameter: string;  // Parameter name (without the $ prefix)
 }
 
 export interface Behavior {
@@ -69,8 +181,20 @@ export interface Behavior {
   type: BehaviorType;
   params: Record<string, any>;
   enabled: boolean;
+  // Branches of an 'if' behavior
+  then?: Behavior[];
+  else?: Behavior[];
 }
 
+/**
+ * How a change of type treats the agent's properties: each property of the
+ * new type named here takes the value of the old type's property it maps
+ * to. The rest are reset to their initial values.
+ */
+export type PropertyMap = Record<string, string>;
+
+export type BehaviorBranch = 'then' | 'else';
+
 export type BehaviorType =
   | 'random-walk'
   | 'move-forward'
@@ -85,26 +209,63 @@ export type BehaviorType =
   | 'on-property'
   | 'increment-property'
   | 'die'
-  | 'reproduce';
+  | 'reproduce'
+  | 'change-type'
+  | 'read-patch'
+  | 'consume-patch'
+  | 'deposit-patch'
+  | 'emit-signal'
+  | 'follow-gradient'
+  | 'connect'
+  | 'disconnect'
+  | 'adopt-property'
+  | 'if'
+  | 'custom-code';
+
+// What an 'if' behavior tests
+export type ConditionTest = 'property' | 'nearby' | 'linked' | 'parameter' | 'chance';
+
+// How an 'adopt-property' behavior combines its linked neighbors' values
+export type AdoptMode = 'random' | 'majority' | 'average';
 
 // Action types for event-triggered behaviors
 export type BehaviorAction =
   | 'remove-self'
   | 'remove-target'
   | 'set-property'
-  | 'increment-property';
+  | 'increment-property'
+  | 'take-from-target'
+  | 'copy-from-target'
+  | 'set-target-property'
+  | 'change-type';
 
 export interface Population {
   id: string;
   agentTypeId: string;
   count: number;
   distribution: 'random' | 'grid' | 'cluster' | 'custom';
+  // Area agents are placed in (defaults to the whole environment)
   region?: {
     x: number;
     y: number;
     width: number;
     height: number;
   };
+  // Options for 'cluster' distribution
+  clusters?: ClusterConfig;
+  // Explicit positions for 'custom' distribution
+  positions?: Position[];
+}
+
+export interface ClusterConfig {
+  count: number;
+  spread: number; // Standard deviation around each center, in pixels
+  centers?: Position[]; // Fixed centers; drawn randomly within the region if omitted
+}
+
+export interface Position {
+  x: number;
+  y: number;
 }
 
 export interface Parameter {
@@ -170,9 +331,15 @@ export interface AgentSnapshot {
   typeId: string;
   x: number;
   y: number;
+  // Velocity, used to orient direction-aware shapes (arrow, triangle)
+  vx?: number;
+  vy?: number;
   properties: Record<string, any>;
 }
 
+// Patch property values by name, row by row, for the properties drawn on the canvas
+export type PatchSnapshot = Record<string, Float32Array>;
+
 export interface SimulationState {
   status: 'idle' | 'running' | 'paused';
   tick: number;
@@ -180,6 +347,42 @@ export interface SimulationState {
   metrics: Record<string, number>;
 }
 
+// ============================================================================
+// Worker Protocol Types
+// ============================================================================
+
+/**
+ * Messages sent from the main thread to the simulation worker
+ */
+export type ToWorker =
+  | { type: 'init'; model: StudioModel }
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'step' }
+  | { type: 'reset' }
+  | { type: 'set-param'; id: string; value: Parameter['value'] }
+  | { type: 'set-params'; parameters: Parameter[] }
+  | { type: 'set-speed'; ticksPerFrame: number }
+  | { type: 'set-visualizations'; visualizations: Visualization[] };
+
+/**
+ * Messages sent from the simulation worker back to the main thread
+ */
+export type FromWorker =
+  | {
+      type: 'state';
+      tick: number;
+      agents: AgentSnapshot[];
+      patches?: PatchSnapshot;
+      // Linked agent ID pairs, each link once
+      links?: [string, string][];
+    }
+  | { type: 'metrics'; data: Record<string, number> }
+  | { type: 'seed'; seed: number }
+  // Confirms a pause: the loop has stopped
+  | { type: 'paused' }
+  | { type: 'error'; message: string; behaviorId?: string };
+
 // ============================================================================
 // User Types
 // ============================================================================
@@ -192,6 +395,13 @@ export interface PublicUser {
   createdAt: string;
 }
 
+export interface UserProfile extends PublicUser {
+  /** Public models only */
+  modelCount: number;
+  /** Forks of their public models, by anyone */
+  forksReceived: number;
+}
+
 // ============================================================================
 // API Types
 // ============================================================================
@@ -200,9 +410,17 @@ export interface ModelListParams {
   page?: number;
   limit?: number;
   userId?: string;
-  tag?: string;
+  /** Models with all of these tags (any of them with tagMatch 'any') */
+  tags?: string[];
+  tagMatch?: 'all' | 'any';
   featured?: boolean;
   search?: string;
+  forkOf?: string;
+}
+
+export interface TagCount {
+  name: string;
+  count: number;
 }
 
 export interface ModelListResponse {
@@ -211,3 +429,10 @@ export interface ModelListResponse {
   page: number;
   limit: number;
 }
+
+export interface ModelVersionInfo {
+  version: number;
+  savedAt?: string;
+  /** The version stored in the model itself; the rest are history */
+  current: boolean;
+}